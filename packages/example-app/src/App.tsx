@@ -19,11 +19,14 @@ import { LoginForm } from './components/LoginForm';
 import { FundForm } from './components/FundForm';
 import { TransferForm } from './components/TransferForm';
 import { useTokenPrices } from './hooks/useTokenPrices';
-import { PrivacyCashProvider, SPL_MINTS } from '@privacy-router-sdk/privacy-cash';
+import {
+  PrivacyCashProvider,
+  DEFAULT_PRIVACY_CASH_ASSETS,
+  PRIVACY_CASH_SDK_SIGN_MESSAGE,
+} from '@privacy-router-sdk/privacy-cash';
 import { ShadowWireProvider, TOKEN_MINTS, initWASM } from '@privacy-router-sdk/shadowwire';
 import type { ShadowWireToken } from '@privacy-router-sdk/shadowwire';
 import { Connection, PublicKey } from '@solana/web3.js';
-import type { PrivacyCashAsset } from '@privacy-router-sdk/privacy-cash';
 import type { SolanaAccount } from '@privacy-router-sdk/solana-mnemonic';
 import type { WalletAdapterAccount } from '@privacy-router-sdk/solana-wallet-adapter';
 
@@ -243,15 +246,20 @@ function AppContent() {
     try {
       if (providerName === 'privacy-cash') {
         if (isMnemonicAccount(acc)) {
+          // Account mode - the secret key stays in the signer. The SDK's sign-in
+          // message keeps notes deposited in private key mode reachable.
           return new PrivacyCashProvider({
             rpcUrl: acc.getRpcUrl(),
-            owner: acc.getSecretKey(),
-          }, asset as PrivacyCashAsset);
+            account: acc,
+            keyDerivationMessage: PRIVACY_CASH_SDK_SIGN_MESSAGE,
+            encryptStorage: 'wallet',
+          });
         } else if (isWalletAdapterAccount(acc)) {
           return new PrivacyCashProvider({
             rpcUrl: acc.getRpcUrl(),
             walletSigner: acc.getWalletSigner(),
-          }, asset as PrivacyCashAsset);
+            encryptStorage: 'wallet',
+          });
         }
       } else if (providerName === 'shadowwire') {
         if (isWalletAdapterAccount(acc)) {
@@ -336,8 +344,7 @@ function AppContent() {
         }
 
         if (pcProvider) {
-          // Reuse the same provider instance - use setAsset to change asset
-          pcProvider.setAsset(newFundAsset as PrivacyCashAsset);
+          // Reuse the same provider instance - it serves every asset
           setFundProvider(pcProvider);
           setWithdrawProvider(pcProvider);
           setSolProvider(pcProvider);
@@ -366,10 +373,9 @@ function AppContent() {
     }
 
     if (account) {
-      // For PrivacyCash, reuse the cached provider and just change the asset
+      // For PrivacyCash, reuse the cached provider (assets are passed per call)
       // This avoids requiring a new signature
       if (selectedProvider === 'privacy-cash' && cachedPrivacyCashProvider) {
-        cachedPrivacyCashProvider.setAsset(newAsset as PrivacyCashAsset);
         setFundProvider(cachedPrivacyCashProvider);
       } else {
         // For ShadowWire, we need to create a new provider
@@ -385,6 +391,10 @@ function AppContent() {
   };
 
   const handleLogout = () => {
+    // Remove cached notes so the next user of this browser cannot enumerate activity
+    cachedPrivacyCashProvider?.wipe().catch((err) => {
+      console.error('Failed to wipe Privacy Cash note storage:', err);
+    });
     void wallet.disconnect();
     setAccount(null);
     setAddress('');
@@ -428,7 +438,7 @@ function AppContent() {
         const connection = new Connection(rpcUrl, 'confirmed');
 
         // Get mint address from ShadowWire, PrivacyCash, or NEAR Intents tokens
-        let mintAddress: string | undefined = (TOKEN_MINTS as Record<string, string>)[fundAsset] || (SPL_MINTS as Record<string, string>)[fundAsset];
+        let mintAddress: string | undefined = (TOKEN_MINTS as Record<string, string>)[fundAsset] || DEFAULT_PRIVACY_CASH_ASSETS.find((a) => a.symbol === fundAsset)?.mint;
 
         // If not found in provider mints, try NEAR Intents tokens
         if (!mintAddress) {
@@ -478,11 +488,7 @@ function AppContent() {
 
     setPrivateBalanceLoading(true);
     try {
-      // Ensure we're fetching SOL balance (PrivacyCash provider may have different asset set)
-      if ('setAsset' in solProvider && typeof solProvider.setAsset === 'function') {
-        solProvider.setAsset('SOL');
-      }
-      const balance = await solProvider.getPrivateBalance();
+      const balance = await solProvider.getPrivateBalance('SOL');
       setPrivateBalance(balance);
 
       // Update the specific provider balance based on current selection
@@ -514,15 +520,14 @@ function AppContent() {
   // Fetch ShadowWire balance when it exists but is not selected
   useEffect(() => {
     if (shadowWireProvider && selectedProvider === 'privacy-cash') {
-      shadowWireProvider.getPrivateBalance().then(setShadowWireBalance).catch(console.error);
+      shadowWireProvider.getPrivateBalance('SOL').then(setShadowWireBalance).catch(console.error);
     }
   }, [shadowWireProvider, selectedProvider]);
 
   // Fetch PrivacyCash balance when it exists but is not selected
   useEffect(() => {
     if (cachedPrivacyCashProvider && selectedProvider === 'shadowwire') {
-      cachedPrivacyCashProvider.setAsset('SOL');
-      cachedPrivacyCashProvider.getPrivateBalance().then(setPrivacyCashBalance).catch(console.error);
+      cachedPrivacyCashProvider.getPrivateBalance('SOL').then(setPrivacyCashBalance).catch(console.error);
     }
   }, [cachedPrivacyCashProvider, selectedProvider]);
 
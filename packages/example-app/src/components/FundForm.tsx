@@ -17,19 +17,26 @@ import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
 import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
 import { TokenSelector } from './TokenSelector';
 import { getAssetIcon } from '../utils/tokenIcons';
+import { describeProvingProgress } from '../utils/provingProgress';
+import { createSwapJournal, resumePendingSwaps } from '../utils/swapJournal';
 import type { FundingStatus } from '@privacy-router-sdk/private-routers-core';
+import { AbortedError } from '@privacy-router-sdk/private-routers-core';
 import type { Account } from '@privacy-router-sdk/signers-core';
 import type { PrivacyCashProvider } from '@privacy-router-sdk/privacy-cash';
 import type { ShadowWireProvider } from '@privacy-router-sdk/shadowwire';
 import {
   OneClickApi,
+  fundFromAnyChain,
+  fundSwapOutput,
+  type AnyChainFundStatus,
   type SwapApiAsset,
-  type SwapStateChangeEvent,
-  SWAP_END_STATES,
 } from '@privacy-router-sdk/near-intents';
 
 type ProviderType = PrivacyCashProvider | ShadowWireProvider;
 
+// Swaps to SOL survive a reload and are picked up again on mount
+const swapJournal = createSwapJournal('fund');
+
 // Chain display names
 const CHAIN_NAMES: Record<string, string> = {
   sol: 'Solana',
@@ -61,7 +68,7 @@ type CrossChainStatus =
   | { stage: 'getting_quote' }
   | { stage: 'awaiting_deposit'; depositAddress: string; originAsset: SwapApiAsset }
   | { stage: 'processing'; status: string; depositAddress: string }
-  | { stage: 'completed'; depositAddress: string; amountIn: string; amountOut: string; originSymbol: string; txHash?: string }
+  | { stage: 'completed'; depositAddress: string; amountIn: string; amountOut: string; fundAmount: bigint; originSymbol: string; txHash?: string }
   | { stage: 'failed'; error: string };
 
 interface FundFormProps {
@@ -118,7 +125,7 @@ export function FundForm({
   const [fundingStage, setFundingStage] = useState<'idle' | 'signing' | 'submitting'>('idle');
   const [cancelHovered, setCancelHovered] = useState(false);
   const [showCancelDialog, setShowCancelDialog] = useState(false);
-  const swapCancelledRef = useRef(false);
+  const swapAbortRef = useRef<AbortController | null>(null);
 
   // Cross-chain deposit state
   const [crossChainStatus, setCrossChainStatus] = useState<CrossChainStatus>({ stage: 'idle' });
@@ -135,6 +142,50 @@ export function FundForm({
     onProgressVisibleChange?.(showProgress);
   }, [crossChainStatus.stage, status?.stage, asset, onProgressVisibleChange]);
 
+  // Resume swaps a previous page load left pending
+  useEffect(() => {
+    const jwtToken = import.meta.env.VITE_NEAR_INTENTS_JWT_TOKEN as string | undefined;
+    if (!jwtToken) return;
+
+    const controller = new AbortController();
+    let depositAddress = '';
+    resumePendingSwaps({
+      journal: swapJournal,
+      swapApi: OneClickApi({ jwtToken }),
+      onResume: (operation) => {
+        depositAddress = operation.data['depositAddress'] ?? '';
+        swapAbortRef.current = controller;
+        setLoading(true);
+        setCrossChainStatus({ stage: 'processing', status: 'PENDING_DEPOSIT', depositAddress });
+      },
+      onStatusChange: (event) => {
+        if ('statusResponse' in event) {
+          setCrossChainStatus({ stage: 'processing', status: event.status, depositAddress });
+        }
+      },
+      signal: controller.signal,
+    })
+      .then((settled) => {
+        const last = settled.at(-1);
+        if (!last || last.status === 'pending') return;
+        setLoading(false);
+        if (last.status === 'failed') {
+          setCrossChainStatus({ stage: 'failed', error: last.error ?? 'Swap failed' });
+        } else {
+          // The swapped SOL is in the wallet, ready to fund
+          setCrossChainStatus({ stage: 'idle' });
+          onSwapComplete?.();
+        }
+      })
+      .catch((e: unknown) => {
+        if (e instanceof AbortedError) return; // Unmounted or cancelled - resumed next time
+        console.error('[FundForm] Failed to resume swap:', e);
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, []);
+
   // Clear errors when inputs change, clear success only when user starts typing new values
   useEffect(() => {
     setError(null);
@@ -237,109 +288,66 @@ export function FundForm({
     setError(null);
     setCrossChainStatus({ stage: 'getting_quote' });
 
-    try {
-      const api = OneClickApi({ jwtToken });
-      const solanaAddress = await account?.getAddress();
+    const controller = new AbortController();
+    swapAbortRef.current = controller;
 
-      if (!refundAddress || !solanaAddress) {
+    try {
+      if (!account || !refundAddress) {
         throw new Error('Missing address');
       }
-
-      // Get quote: swap from origin asset to SOL
-      const quoteResponse = await api.getQuote({
-        dry: false,
-        senderAddress: refundAddress!, // Address for refunds (origin chain or Solana)
-        recipientAddress: solanaAddress!, // Solana address for receiving SOL
-        originAsset: originAsset!.assetId,
-        destinationAsset: solAsset!.assetId, // Always swap to SOL
-        amount: toBaseUnits(amount).toString(),
-        slippageTolerance: 100, // 1% in basis points
-      });
-
-      const depositAddress = quoteResponse.quote?.depositAddress;
-      if (!depositAddress) {
-        throw new Error('No deposit address received');
+      if (!solProvider) {
+        throw new Error('SOL provider not initialized');
       }
 
-      setCrossChainStatus({
-        stage: 'awaiting_deposit',
-        depositAddress: depositAddress!,
-        originAsset: originAsset!,
-      });
-
-      // Start polling for status
-      const handleStatusChange = (event: SwapStateChangeEvent) => {
-        // eslint-disable-next-line no-console
-        // console.log('[FundForm] Cross-chain status:', event);
-
-        if (event.status === 'QUOTE_RECEIVED' || event.status === 'DEPOSIT_SENT') {
-          return;
-        }
-
-        if (SWAP_END_STATES.has(event.status)) {
-          if (event.status === 'SUCCESS') {
-            // Extract actual output amount from status response
-            let amountOut = '0';
-            if ('statusResponse' in event && event.statusResponse) {
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              const resp = event.statusResponse as any;
-              // console.log('[FundForm] Swap completed, statusResponse:', resp);
-              // The amount is in swapDetails.amountOutFormatted (already formatted as string)
-              if (resp.swapDetails?.amountOutFormatted) {
-                amountOut = resp.swapDetails.amountOutFormatted;
-              } else if (resp.swapDetails?.amountOut) {
-                // Convert from base units to SOL (9 decimals)
-                amountOut = (Number(resp.swapDetails.amountOut) / 1e9).toFixed(9);
-              }
-              // console.log('[FundForm] Extracted amountOut:', amountOut);
-            }
-            setCrossChainStatus({
-              stage: 'completed',
-              depositAddress: depositAddress!,
-              amountIn: amount,
-              amountOut,
-              originSymbol: assetSymbol,
-            });
-            setLoading(false);
-            onSwapComplete?.(); // Refresh balances
-          } else {
-            setCrossChainStatus({
-              stage: 'failed',
-              error: `Swap ${event.status.toLowerCase()}`,
-            });
-            setLoading(false);
-          }
-        } else {
+      let depositAddress = '';
+      const handleStatusChange = (event: AnyChainFundStatus) => {
+        if (event.stage === 'awaiting_deposit') {
+          depositAddress = event.depositAddress;
+          setCrossChainStatus({ stage: 'awaiting_deposit', depositAddress, originAsset });
+        } else if (event.stage === 'swapping') {
           // Keep deposit address visible during processing
-          setCrossChainStatus({ stage: 'processing', status: event.status, depositAddress: depositAddress! });
+          setCrossChainStatus({ stage: 'processing', status: event.status, depositAddress });
+        } else if (event.stage === 'swapped') {
+          setCrossChainStatus({
+            stage: 'completed',
+            depositAddress,
+            amountIn: amount,
+            amountOut: (Number(event.amountOut) / 1e9).toFixed(9),
+            fundAmount: event.fundAmount,
+            originSymbol: assetSymbol,
+          });
         }
       };
 
-      // Poll for status in background
-      api.pollStatus({
-        depositAddress: depositAddress!,
-        maxAttempts: 120,
-        pollingInterval: 5000,
-        initialDelay: 1000,
+      // Swap origin asset -> SOL in the wallet; funding is a separate click
+      await fundFromAnyChain({
+        provider: solProvider,
+        swapApi: OneClickApi({ jwtToken }),
+        sourceAccount: account,
+        originAsset,
+        destinationAsset: solAsset,
+        amount: toBaseUnits(amount).toString(),
+        refundAddress,
+        autoFund: false,
         onStatusChange: handleStatusChange,
-      }).catch((pollErr: unknown) => {
-        console.error('[FundForm] Polling error:', pollErr);
+        signal: controller.signal,
+        journal: swapJournal,
       });
 
+      setLoading(false);
+      onSwapComplete?.(); // Refresh balances
     } catch (e) {
+      if (e instanceof AbortedError) return; // Cancelled by user
       const error = e as Error | undefined;
       const errorMessage = error?.message ?? 'Unknown error';
       setError(errorMessage);
       setCrossChainStatus({ stage: 'failed', error: errorMessage });
       setLoading(false);
     }
-    /* eslint-enable @typescript-eslint/no-unreachable */
   };
 
   // Fund SOL to privacy pool (after swap completed)
   const handleFundSolAfterSwap = async () => {
-    // console.log('[FundForm] handleFundSolAfterSwap called', { crossChainStatus, solProvider: !!solProvider, account: !!account });
-
     if (!solProvider) {
       setError('SOL provider not initialized');
       console.error('[FundForm] SOL provider not initialized');
@@ -362,27 +370,17 @@ export function FundForm({
     setFundingStage('signing');
 
     try {
-      // Use the swap output amount (what was actually received from the swap)
-      const amountOutSol = parseFloat(crossChainStatus.amountOut);
-      const feeReserveSol = 0.003; // Small reserve for transaction fees
-      const amountToFundSol = amountOutSol - feeReserveSol;
-
-      // console.log('[FundForm] Funding calculation:', { amountOutSol, feeReserveSol, amountToFundSol });
-
-      if (amountToFundSol <= 0) {
-        throw new Error(`Swap output too small to fund (received: ${amountOutSol.toFixed(4)} SOL)`);
-      }
-
-      // Convert to lamports (1 SOL = 1e9 lamports)
-      const amountToFund = BigInt(Math.floor(amountToFundSol * 1e9));
-
-      await solProvider.fund({
+      // Swap output minus the wallet fee reserve, exact base units
+      await fundSwapOutput({
+        provider: solProvider,
         sourceAccount: account,
-        amount: amountToFund.toString(),
-        onStatusChange: (newStatus) => {
-          setStatus(newStatus);
+        asset: 'SOL',
+        amount: crossChainStatus.fundAmount,
+        onStatusChange: (event) => {
+          if (event.stage !== 'funding') return;
+          setStatus(event.pool);
           // Only move to submitting stage when confirming (tx is on-chain, so signature is done)
-          if (newStatus.stage === 'confirming' || newStatus.stage === 'completed') {
+          if (event.pool.stage === 'confirming' || event.pool.stage === 'completed') {
             setFundingStage('submitting');
           }
         },
@@ -439,6 +437,7 @@ export function FundForm({
 
       await provider.fund({
         sourceAccount: account,
+        asset,
         amount: baseUnits?.toString() ?? '0',
         onStatusChange: setStatus,
       });
@@ -476,7 +475,7 @@ export function FundForm({
   };
 
   const handleCancelSwap = () => {
-    swapCancelledRef.current = true; // Stop any running async swap
+    swapAbortRef.current?.abort(); // Stop polling the running swap
     setCrossChainStatus({ stage: 'idle' });
     setLoading(false);
     setError(null);
@@ -766,7 +765,10 @@ export function FundForm({
                   fontWeight: 600
                 }}>
                   {status.stage === 'preparing' && 'Preparing transaction...'}
-                  {status.stage === 'depositing' && 'Depositing to private balance...'}
+                  {status.stage === 'depositing' &&
+                    (status.progress
+                      ? describeProvingProgress(status.progress)
+                      : 'Depositing to private balance...')}
                   {status.stage === 'confirming' && 'Confirming transaction...'}
                   {status.stage === 'completed' && `Deposit completed!`}
                 </Typography>
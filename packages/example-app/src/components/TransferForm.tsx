@@ -13,14 +13,17 @@ import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
 import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
 import { TokenSelector } from './TokenSelector';
 import { getAssetIcon } from '../utils/tokenIcons';
-import type { WithdrawStatus } from '@privacy-router-sdk/private-routers-core';
+import { createSwapJournal, resumePendingSwaps } from '../utils/swapJournal';
+import type { PrivacyProvider, WithdrawStatus } from '@privacy-router-sdk/private-routers-core';
+import { AbortedError, findAssetCapability } from '@privacy-router-sdk/private-routers-core';
 import type { Account } from '@privacy-router-sdk/signers-core';
 import type { PrivacyCashProvider } from '@privacy-router-sdk/privacy-cash';
 import type { ShadowWireProvider } from '@privacy-router-sdk/shadowwire';
 import {
   OneClickApi,
+  privateWithdrawToAnyChain,
+  type AnyChainWithdrawStatus,
   type SwapApiAsset,
-  type SwapStateChangeEvent,
 } from '@privacy-router-sdk/near-intents';
 
 type ProviderType = PrivacyCashProvider | ShadowWireProvider;
@@ -59,6 +62,9 @@ type SwapTransferStatus =
   | { stage: 'completed'; txHash?: string }
   | { stage: 'failed'; error: string };
 
+// Pool-to-swap transfers survive a reload and are picked up again on mount
+const swapJournal = createSwapJournal('transfer');
+
 interface TransferFormProps {
   account: Account | null;
   provider: ProviderType | null;
@@ -131,6 +137,46 @@ export function TransferForm({
     setMaxSolAfterFees(null);
   }, [provider]);
 
+  // Resume swaps a previous page load left pending
+  useEffect(() => {
+    const jwtToken = import.meta.env.VITE_NEAR_INTENTS_JWT_TOKEN as string | undefined;
+    if (!jwtToken) return;
+
+    const controller = new AbortController();
+    resumePendingSwaps({
+      journal: swapJournal,
+      swapApi: OneClickApi({ jwtToken }),
+      onResume: (operation) => {
+        setLoading(true);
+        setSwapDepositAddress(operation.data['depositAddress'] ?? null);
+        setSwapStatus({ stage: 'swapping', status: 'PENDING_DEPOSIT' });
+      },
+      onStatusChange: (event) => {
+        if ('statusResponse' in event) {
+          setSwapStatus({ stage: 'swapping', status: event.status });
+        }
+      },
+      signal: controller.signal,
+    })
+      .then((settled) => {
+        const last = settled.at(-1);
+        if (!last || last.status === 'pending') return;
+        setLoading(false);
+        if (last.status === 'failed') {
+          setSwapStatus({ stage: 'failed', error: last.error ?? 'Swap failed' });
+        } else {
+          setSwapStatus({ stage: 'completed' });
+        }
+      })
+      .catch((e: unknown) => {
+        if (e instanceof AbortedError) return; // Unmounted - resumed next time
+        console.error('[TransferForm] Failed to resume swap:', e);
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, []);
+
   // Notify parent when cross-chain swap progress is visible
   useEffect(() => {
     const showProgress = swapStatus.stage !== 'idle' && swapStatus.stage !== 'failed';
@@ -199,12 +245,7 @@ export function TransferForm({
     setFeeLoading(true);
     setFeeError(null);
     try {
-      // Detect provider type by name (more reliable than 'in' checks)
-      const providerName = (provider as { name?: string }).name;
-      const isPrivacyCash = providerName === 'privacy-cash';
-      const isShadowWire = providerName?.toLowerCase() === 'shadowwire' || 'transfer' in provider;
-
-      // console.log('[TransferForm] Fee preview - provider:', providerName, 'isPrivacyCash:', isPrivacyCash, 'isShadowWire:', isShadowWire);
+      const capabilities = provider.getCapabilities();
 
       // Convert target amount to SOL
       let solAmount: string;
@@ -228,76 +269,27 @@ export function TransferForm({
 
       // console.log('[TransferForm] Fee preview - solAmount:', solAmount, 'withBuffer:', solAmountWithBuffer, 'baseUnits:', solBaseUnits.toString());
 
-      let fee: bigint;
-      let totalWithdraw: bigint;
-      let feePercent = 0;
-      let rentFee = 0;
-
-      if (isPrivacyCash) {
-        // PrivacyCash: percentage + rent fee
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const pcProvider = provider as any;
-        // eslint-disable-next-line no-console
-        // console.log('[TransferForm] Calling getFeeConfig...');
-        const config = await pcProvider.getFeeConfig();
-        // eslint-disable-next-line no-console
-        // console.log('[TransferForm] PrivacyCash fee config:', config);
-        // withdrawFeeRate is decimal (e.g., 0.001 for 0.1%), convert to percentage for display
-        feePercent = config.withdrawFeeRate * 100;
-        rentFee = config.withdrawRentFee;
-        // console.log('[TransferForm] Calling calculateWithdrawAmount with', solBaseUnits.toString());
-        const result = await pcProvider.calculateWithdrawAmount(solBaseUnits);
-        // console.log('[TransferForm] PrivacyCash calculateWithdrawAmount result:', result);
-        totalWithdraw = result.withdrawAmount as bigint;
-        fee = result.fee as bigint;
-      } else if (isShadowWire) {
-        // ShadowWire: use SDK's calculateFee for accurate fee calculation
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const swProvider = provider as any;
-        // getFeePercentage() returns decimal directly (0.005 for 0.5%, NOT 0.5)
-        const baseFeeRate = swProvider.getFeePercentage();
-        const feeBuffer = 0.001; // Add 0.1% buffer for safety
-        const feeRate = baseFeeRate + feeBuffer;
-        feePercent = feeRate * 100; // For display: 0.006 -> 0.6%
-
-        // Calculate the amount to withdraw to get the desired net amount after fee
-        const desiredNetSol = parseFloat(solAmountWithBuffer);
-        let withdrawAmountSol = desiredNetSol / (1 - feeRate);
-
-        // Verify with calculateFee and adjust if needed
-        let feeBreakdown = swProvider.calculateFee(withdrawAmountSol);
-        while (feeBreakdown.netAmount < desiredNetSol) {
-          withdrawAmountSol += 0.0001;
-          feeBreakdown = swProvider.calculateFee(withdrawAmountSol);
-        }
-
-        // eslint-disable-next-line no-console
-        // console.log('[TransferForm] ShadowWire fee breakdown:', {
-        //   feeRate,
-        //   feePercentDisplay: feePercent,
-        //   desiredNetSol,
-        //   withdrawAmountSol,
-        //   feeBreakdown,
-        // });
-
-        totalWithdraw = account.assetToBaseUnits(withdrawAmountSol.toFixed(9));
-        fee = account.assetToBaseUnits(feeBreakdown.fee.toFixed(9));
-      } else {
-        // Fallback: no fee
-        console.warn('[TransferForm] Unknown provider type, no fee calculation');
-        totalWithdraw = solBaseUnits;
-        fee = 0n;
-      }
+      // Quote what must leave the pool so the buffered amount arrives
+      const quote = await provider.quoteWithdraw({
+        asset: 'SOL',
+        amount: solBaseUnits.toString(),
+        mode: 'exactOut',
+      });
+      const totalWithdraw = quote.amountIn;
+      const fee = quote.totalFee;
+      // For display: percentage fee relative to the withdrawn amount, rent in SOL
+      const feePercent = quote.amountIn > 0n ? (Number(quote.fees.percentage) / Number(quote.amountIn)) * 100 : 0;
+      const rentFee = Number(quote.fees.rent) / 1e9;
 
       const sufficient = privateBalance >= totalWithdraw;
       const totalWithdrawSol = Number(totalWithdraw) / 1e9;
 
-      // Check minimum amount for ShadowWire (only for direct SOL withdrawals, not swaps)
+      // Check the provider's minimum amount (only for direct SOL withdrawals, not swaps)
       let belowMinimum = false;
       let minimumAmount = 0;
-      if (isShadowWire && !needsSwap) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        minimumAmount = (provider as any).getMinimumAmount();
+      if (!needsSwap) {
+        const solMinimum = findAssetCapability(capabilities, 'SOL')?.minimumAmount ?? 0n;
+        minimumAmount = Number(solMinimum) / 1e9;
         belowMinimum = totalWithdrawSol < minimumAmount;
       }
 
@@ -343,81 +335,26 @@ export function TransferForm({
         return;
       }
 
-      // Use actual balance (not rounded display value) for precision
-      const balanceSol = Number(privateBalance) / 1e9;
-      if (balanceSol <= 0) {
+      if (privateBalance <= 0n) {
         setMaxSolAfterFees('0');
         return;
       }
 
       try {
-        const providerName = (provider as { name?: string }).name;
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const providerAny = provider as any;
-        // Detect by method existence for more reliable detection
-        const hasCalculateWithdrawAmount = typeof providerAny.calculateWithdrawAmount === 'function';
-        const hasGetFeePercentage = typeof providerAny.getFeePercentage === 'function';
-        const isPrivacyCash = hasCalculateWithdrawAmount || providerName === 'privacy-cash';
-        const isShadowWire = !isPrivacyCash && (hasGetFeePercentage || providerName?.toLowerCase() === 'shadowwire');
-
-        // console.log('[TransferForm] MAX calc starting - provider:', providerName, 'isPrivacyCash:', isPrivacyCash, 'isShadowWire:', isShadowWire, 'balance:', balanceSol);
+        // Quote withdrawing the whole balance - amountOut is the most that can arrive
+        const quote = await provider.quoteWithdraw({
+          asset: 'SOL',
+          amount: privateBalance.toString(),
+          mode: 'exactIn',
+        });
 
         // Fee preview adds 2% price buffer, so we need to account for it
         const priceBuffer = 1.02;
         // Add small safety margin to avoid edge cases with rounding
         const safetyMargin = 0.9995;
-        let maxNetSol: number;
-
-        if (isPrivacyCash && hasCalculateWithdrawAmount) {
-          // PrivacyCash: use SDK to verify max amount
-          // Calculate minimum fee by checking what fee would be charged for a tiny amount
-          const tinyAmount = account.assetToBaseUnits('0.0001');
-          const minFeeCheck = await providerAny.calculateWithdrawAmount(tinyAmount);
-          const minFeeSol = Number(minFeeCheck.fee as bigint) / 1e9;
-
-          // console.log('[TransferForm] MAX calc - PrivacyCash minFee:', minFeeSol, 'balance:', balanceSol);
-
-          // If minimum fee exceeds balance, max is 0
-          if (minFeeSol >= balanceSol) {
-            // console.log('[TransferForm] MAX calc - fee exceeds balance, setting max to 0');
-            maxNetSol = 0;
-          } else {
-            // Binary search to find max amount that fits in balance
-            let low = 0;
-            let high = balanceSol;
-            const balanceLamports = privateBalance;
-
-            for (let i = 0; i < 20; i++) { // 20 iterations for precision
-              const mid = (low + high) / 2;
-              const midWithBuffer = mid * priceBuffer;
-              const midLamports = account.assetToBaseUnits(midWithBuffer.toFixed(9));
-              const result = await providerAny.calculateWithdrawAmount(midLamports);
-              const totalWithdraw = result.withdrawAmount as bigint;
-
-              if (totalWithdraw <= balanceLamports) {
-                low = mid;
-              } else {
-                high = mid;
-              }
-            }
-            maxNetSol = low * safetyMargin;
-            // console.log('[TransferForm] MAX calc - binary search result:', maxNetSol);
-          }
-        } else if (isShadowWire) {
-          // ShadowWire: percentage fee
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const swProvider = provider as any;
-          const baseFeeRate = swProvider.getFeePercentage(); // e.g., 0.005 for 0.5%
-          const feeBuffer = 0.001; // 0.1% buffer for safety
-          const feeRate = baseFeeRate + feeBuffer;
-          // maxNet = balance * (1 - feeRate) / priceBuffer * safetyMargin
-          maxNetSol = (balanceSol * (1 - feeRate)) / priceBuffer * safetyMargin;
-        } else {
-          maxNetSol = balanceSol * safetyMargin;
-        }
+        const maxNetSol = (Number(quote.amountOut) / 1e9) / priceBuffer * safetyMargin;
 
-        // Ensure non-negative and truncate (floor) to 4 decimals to avoid rounding up
-        maxNetSol = Math.max(0, maxNetSol);
+        // Truncate (floor) to 4 decimals to avoid rounding up
         const truncated = Math.floor(maxNetSol * 10000) / 10000;
         setMaxSolAfterFees(truncated.toFixed(4));
       } catch (err) {
@@ -442,19 +379,22 @@ export function TransferForm({
     const userAddress = await account.getAddress();
     const isSelfTransfer = destinationAddress.toLowerCase() === userAddress.toLowerCase();
 
-    // ShadowWire uses transfer() for others, withdraw() for self
-    if ('transfer' in provider) {
-      if (isSelfTransfer && 'withdraw' in provider) {
+    // Providers with private transfers use transfer() for others, withdraw() for self
+    const pool: PrivacyProvider = provider;
+    if (pool.transfer) {
+      if (isSelfTransfer) {
         // Withdraw to own wallet
-        await provider.withdraw({
+        await pool.withdraw({
           destination: { address: destinationAddress },
+          asset: 'SOL',
           amount: baseUnits.toString(),
           onStatusChange: setStatus,
         });
       } else {
         // Transfer to external address
-        await provider.transfer({
+        await pool.transfer({
           recipient: destinationAddress,
+          asset: 'SOL',
           amount: baseUnits.toString(),
           type: 'external',
           onStatusChange: setStatus,
@@ -462,10 +402,12 @@ export function TransferForm({
       }
     } else {
       // PrivacyCash uses withdraw()
-      await provider.withdraw({
+      await pool.withdraw({
         destination: { address: destinationAddress },
+        asset: 'SOL',
         amount: baseUnits.toString(),
         onStatusChange: setStatus,
+        strict: true,
       });
     }
   };
@@ -484,15 +426,10 @@ export function TransferForm({
       throw new Error('Account not connected');
     }
 
-    // Debug: log available tokens
-    // console.log('[TransferForm] Available tokens:', nearIntentsTokens.length);
-    // console.log('[TransferForm] Looking for SOL on sol, and', assetSymbol, 'on', assetChain);
-
     // Find SOL asset
     const solAsset = nearIntentsTokens.find(
       (t) => t.symbol === 'SOL' && t.blockchain === 'sol'
     );
-    // console.log('[TransferForm] SOL asset:', solAsset);
     if (!solAsset) {
       throw new Error('SOL asset not found in NEAR Intents');
     }
@@ -501,7 +438,6 @@ export function TransferForm({
     const targetAsset = nearIntentsTokens.find(
       (t) => t.symbol === assetSymbol && t.blockchain === assetChain
     );
-    // console.log('[TransferForm] Target asset:', targetAsset);
     if (!targetAsset) {
       throw new Error(`Target asset ${asset} not found in NEAR Intents`);
     }
@@ -512,206 +448,43 @@ export function TransferForm({
       throw new Error('Could not convert amount to SOL');
     }
 
-    // Calculate amounts:
-    // 1. solAmountForSwap = SOL that arrives at NEAR Intents deposit address (with price buffer)
-    // 2. solAmountToWithdraw = SOL to withdraw from pool (adds pool fee on top)
-    //
-    // Flow: Pool → (minus fee) → Deposit Address → NEAR Intents Swap → Destination
-    //
-    const priceBuffer = 1.02; // 2% buffer for price fluctuation during swap
-
-    // Detect provider type by name
-    const providerName = (provider as { name?: string }).name;
-    const isPrivacyCash = providerName === 'privacy-cash';
-    const isShadowWire = providerName?.toLowerCase() === 'shadowwire' || 'transfer' in provider;
-
-    // Amount that should arrive at NEAR Intents (what we tell the API)
-    const solAmountForSwap = (parseFloat(solAmount) * priceBuffer).toFixed(9);
-    const solBaseUnitsForQuote = account.assetToBaseUnits(solAmountForSwap);
-
-    // Calculate amount to withdraw using provider's fee estimation
-    let solBaseUnitsToWithdraw: bigint;
-    const feeInfo: { feeRate?: number; rentFee?: number; totalFee?: bigint } = {};
-
-    if (isPrivacyCash) {
-      // PrivacyCash: has both percentage fee AND fixed rent fee
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const privacyCashProvider = provider as any;
-
-      const feeConfig = await privacyCashProvider.getFeeConfig();
-      feeInfo.feeRate = feeConfig.withdrawFeeRate;
-      feeInfo.rentFee = feeConfig.withdrawRentFee;
-
-      const { withdrawAmount, fee } = await privacyCashProvider.calculateWithdrawAmount(solBaseUnitsForQuote);
-      solBaseUnitsToWithdraw = withdrawAmount as bigint;
-      feeInfo.totalFee = fee as bigint;
-
-      // console.log('[TransferForm] PrivacyCash fee calculation:', {
-      //   desiredNet: solBaseUnitsForQuote.toString(),
-      //   withdrawAmount: withdrawAmount.toString(),
-      //   fee: fee.toString(),
-      //   feeRate: feeConfig.withdrawFeeRate,
-      //   rentFee: feeConfig.withdrawRentFee,
-      // });
-    } else if (isShadowWire) {
-      // ShadowWire: use SDK's calculateFee for accurate fee calculation
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const swProvider = provider as any;
-
-      // Get the desired net amount (what should arrive at NEAR Intents)
-      const desiredNetSol = parseFloat(solAmountForSwap);
-
-      // getFeePercentage() returns decimal directly (0.005 for 0.5%, NOT 0.5)
-      const baseFeeRate = swProvider.getFeePercentage();
-      const feeBuffer = 0.001; // Add 0.1% buffer for safety
-      const feeRate = baseFeeRate + feeBuffer;
-      let withdrawAmountSol = desiredNetSol / (1 - feeRate);
-
-      // Verify with calculateFee and adjust if needed
-      let feeBreakdown = swProvider.calculateFee(withdrawAmountSol);
-
-      // If netAmount is less than desired, increase withdrawal amount
-      while (feeBreakdown.netAmount < desiredNetSol) {
-        withdrawAmountSol += 0.0001; // Add 0.0001 SOL and recalculate
-        feeBreakdown = swProvider.calculateFee(withdrawAmountSol);
-      }
-
-      solBaseUnitsToWithdraw = account.assetToBaseUnits(withdrawAmountSol.toFixed(9));
-      feeInfo.feeRate = feeRate;
-      feeInfo.totalFee = account.assetToBaseUnits(feeBreakdown.fee.toFixed(9));
-
-      // eslint-disable-next-line no-console
-      // console.log('[TransferForm] ShadowWire fee calculation:', {
-        // feeRate,
-      //   feeRatePercent: feeRate * 100,
-      //   desiredNet: desiredNetSol,
-      //   withdrawAmount: withdrawAmountSol,
-      //   fee: feeBreakdown.fee,
-      //   netAmount: feeBreakdown.netAmount,
-      // });
-    } else {
-      // Fallback: no fee adjustment
-      console.warn('[TransferForm] Unknown provider type, no fee adjustment');
-      solBaseUnitsToWithdraw = solBaseUnitsForQuote;
-    }
-
-    // console.log('[TransferForm] SOL conversion:', {
-      // targetAmount: amount,
-      // targetAsset: assetSymbol,
-      // solAmount,
-      // priceBuffer,
-      // isShadowWire,
-      // solAmountForSwap,
-      // solAmountToWithdraw,
-      // solBaseUnitsForQuote: solBaseUnitsForQuote.toString(),
-      // solBaseUnitsToWithdraw: solBaseUnitsToWithdraw.toString(),
-      // feeInfo,
-    // });
-
-    setSwapStatus({ stage: 'getting_quote' });
-
-    const api = OneClickApi({ jwtToken });
-
-    const senderAddress = await account.getAddress();
-    // For cross-chain swaps, use a longer deadline (30 minutes instead of 3)
-    const deadlineMs = assetChain !== 'sol' ? 30 * 60 * 1000 : 3 * 60 * 1000;
-    const quoteParams = {
-      dry: false,
-      senderAddress, // Solana address for refunds
-      recipientAddress: destinationAddress, // Where to send the swapped asset (can be any chain)
-      originAsset: solAsset.assetId,
-      destinationAsset: targetAsset.assetId,
-      amount: solBaseUnitsForQuote.toString(), // Amount that will arrive at deposit address (after pool fee)
-      slippageTolerance: 100, // 1% in basis points
-      deadline: new Date(Date.now() + deadlineMs).toISOString(),
-    };
-    // console.log('[TransferForm] Quote request params:', quoteParams);
-
-    // Get quote: SOL -> target asset
-    // For cross-chain: recipientAddress is on the target chain (e.g., Cardano address)
-    // For Solana swaps: recipientAddress is a Solana address
-    let quoteResponse;
-    try {
-      quoteResponse = await api.getQuote(quoteParams);
-      // console.log('[TransferForm] Quote response:', quoteResponse);
-    } catch (quoteErr) {
-      console.error('[TransferForm] Quote error details:', quoteErr);
-      throw quoteErr;
-    }
-
-    const depositAddress = quoteResponse.quote?.depositAddress;
-    if (!depositAddress) {
-      throw new Error('No deposit address received from quote');
-    }
-
-    setSwapStatus({ stage: 'transferring', depositAddress });
-    setSwapDepositAddress(depositAddress);
-
-    // Check private balance before transfer
-    const currentPrivateBalance = await provider.getPrivateBalance();
-    const hasSufficientBalance = currentPrivateBalance >= solBaseUnitsToWithdraw;
-
-    // console.log('[TransferForm] Pre-transfer state:', {
-    //   depositAddress,
-    //   privateBalance: currentPrivateBalance.toString(),
-    //   privateBalanceSOL: Number(currentPrivateBalance) / 1e9,
-    //   amountToWithdraw: solBaseUnitsToWithdraw.toString(),
-    //   amountToWithdrawSOL: Number(solBaseUnitsToWithdraw) / 1e9,
-    //   expectedNetAmount: solBaseUnitsForQuote.toString(),
-    //   expectedNetAmountSOL: Number(solBaseUnitsForQuote) / 1e9,
-    //   sufficientBalance: hasSufficientBalance,
-    // });
-
-    // Warn if insufficient balance - PrivacyCash will do a partial withdrawal!
-    if (!hasSufficientBalance) {
-      const shortfall = Number(solBaseUnitsToWithdraw - currentPrivateBalance) / 1e9;
-      console.warn(`[TransferForm] WARNING: Insufficient balance! Need ${Number(solBaseUnitsToWithdraw) / 1e9} SOL but only have ${Number(currentPrivateBalance) / 1e9} SOL. Short by ${shortfall} SOL. This will result in a partial withdrawal.`);
-    }
-
-    // Transfer SOL from privacy pool to the deposit address
-    // We withdraw solBaseUnitsToWithdraw (includes pool fee compensation)
-    // so that solBaseUnitsForQuote arrives at the deposit address
-    if ('transfer' in provider) {
-      await provider.transfer({
-        recipient: depositAddress,
-        amount: solBaseUnitsToWithdraw.toString(),
-        type: 'external',
-        onStatusChange: setStatus,
-      });
-    } else {
-      await provider.withdraw({
-        destination: { address: depositAddress },
-        amount: solBaseUnitsToWithdraw.toString(),
-        onStatusChange: setStatus,
-      });
-    }
-
-    // Start polling for swap status
-    setSwapStatus({ stage: 'swapping', status: 'PENDING' });
-
-    const handleStatusChange = (event: SwapStateChangeEvent) => {
-      // eslint-disable-next-line no-console
-      // console.log('[TransferForm] Swap status:', event);
-
-      // Check for end states
-      if (event.status === 'SUCCESS') {
-        setSwapStatus({ stage: 'completed' });
-      } else if (event.status === 'FAILED' || event.status === 'REFUNDED') {
-        setSwapStatus({ stage: 'failed', error: `Swap ${event.status.toLowerCase()}` });
-      } else {
-        setSwapStatus({ stage: 'swapping', status: event.status });
+    const handleStatusChange = (event: AnyChainWithdrawStatus) => {
+      switch (event.stage) {
+        case 'quoting':
+          setSwapStatus({ stage: 'getting_quote' });
+          break;
+        case 'withdrawing':
+          setSwapStatus({ stage: 'transferring', depositAddress: event.depositAddress });
+          setSwapDepositAddress(event.depositAddress);
+          setStatus(event.pool);
+          break;
+        case 'swapping':
+          setSwapStatus({ stage: 'swapping', status: event.status });
+          break;
+        case 'completed':
+          setSwapStatus({ stage: 'completed' });
+          break;
+        case 'timed_out':
+          // Still in flight - the swap journal resumes it on the next visit
+          setError('The swap is taking longer than expected. It will be checked again when you reopen the app.');
+          break;
+        case 'failed':
+          setSwapStatus({ stage: 'failed', error: event.error });
+          break;
       }
     };
 
-    // Poll in background
-    api.pollStatus({
-      depositAddress,
-      maxAttempts: 120,
-      pollingInterval: 5000,
-      initialDelay: 3000,
+    // Pool (plus fees) -> deposit address -> NEAR Intents swap -> destination
+    await privateWithdrawToAnyChain({
+      provider,
+      swapApi: OneClickApi({ jwtToken }),
+      originAsset: solAsset,
+      targetAsset,
+      recipient: destinationAddress,
+      amount: account.assetToBaseUnits(parseFloat(solAmount).toFixed(9)).toString(),
+      refundAddress: await account.getAddress(),
       onStatusChange: handleStatusChange,
-    }).catch((err) => {
-      console.error('[TransferForm] Polling error:', err);
+      journal: swapJournal,
     });
   };
 
@@ -1099,7 +872,7 @@ export function TransferForm({
                 {feePreview.belowMinimum && (
                   <Alert severity="error" sx={{ mt: 1, py: 0 }}>
                     <Typography variant="caption">
-                      Below minimum! ShadowWire requires at least {feePreview.minimumAmount} SOL per transfer
+                      Below minimum! The provider requires at least {feePreview.minimumAmount} SOL per transfer
                     </Typography>
                   </Alert>
                 )}
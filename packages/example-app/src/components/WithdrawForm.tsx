@@ -16,6 +16,7 @@ import type { WithdrawStatus } from '@privacy-router-sdk/private-routers-core';
 import type { Account } from '@privacy-router-sdk/signers-core';
 import type { PrivacyCashProvider } from '@privacy-router-sdk/privacy-cash';
 import type { ShadowWireProvider } from '@privacy-router-sdk/shadowwire';
+import { describeProvingProgress } from '../utils/provingProgress';
 
 type ProviderType = PrivacyCashProvider | ShadowWireProvider;
 
@@ -85,6 +86,7 @@ export function WithdrawForm({
 
       await provider.withdraw({
         destination: { address: destinationAddress },
+        asset,
         amount: baseUnits.toString(),
         onStatusChange: setStatus,
       });
@@ -119,7 +121,9 @@ export function WithdrawForm({
       case 'preparing':
         return 'Preparing withdrawal...';
       case 'processing':
-        return 'Processing through privacy pool...';
+        return status.progress
+          ? describeProvingProgress(status.progress)
+          : 'Processing through privacy pool...';
       case 'confirming':
         return 'Confirming transaction...';
       case 'completed':
@@ -0,0 +1,13 @@
+import type { ProvingProgress, ProvingStep } from '@privacy-router-sdk/private-routers-core';
+
+const STEP_LABELS: Record<ProvingStep, string> = {
+  'loading-circuit': 'Loading circuit',
+  'fetching-utxos': 'Syncing private notes',
+  proving: 'Generating zero-knowledge proof',
+  relaying: 'Submitting transaction',
+};
+
+// Status line for a proving step, e.g. "Generating zero-knowledge proof... 45%"
+export function describeProvingProgress(progress: ProvingProgress): string {
+  return `${STEP_LABELS[progress.step]}... ${progress.percent}%`;
+}
@@ -0,0 +1,56 @@
+import {
+  OperationJournal,
+  WebStorageJournalStorage,
+} from '@privacy-router-sdk/private-routers-core';
+import type { OperationRecord } from '@privacy-router-sdk/private-routers-core';
+import {
+  SWAP_OPERATION_KIND,
+  createSwapResumer,
+  type SwapApi,
+  type SwapStateChangeEvent,
+} from '@privacy-router-sdk/near-intents';
+
+// Swaps journaled in localStorage, one key prefix per form, so a reload
+// picks up the swaps that form started
+export function createSwapJournal(flow: 'fund' | 'transfer'): OperationJournal {
+  return new OperationJournal({
+    storage: new WebStorageJournalStorage(localStorage, `privacy-router:${flow}-swap:`),
+  });
+}
+
+// Resume the journal's pending swaps one at a time, polling each until it settles.
+// Pool-funded swaps interrupted before their deposit started are failed instead:
+// nothing left the pool and their quote is gone with the page.
+export async function resumePendingSwaps(params: {
+  journal: OperationJournal;
+  swapApi: SwapApi;
+  onResume: (operation: OperationRecord) => void;
+  onStatusChange: (event: SwapStateChangeEvent) => void;
+  signal: AbortSignal;
+}): Promise<OperationRecord[]> {
+  const { journal, signal } = params;
+  journal.registerResumer(
+    SWAP_OPERATION_KIND,
+    createSwapResumer({
+      swapApi: params.swapApi,
+      onStatusChange: params.onStatusChange,
+      signal,
+    })
+  );
+
+  const settled: OperationRecord[] = [];
+  const pending = await journal.list({ kind: SWAP_OPERATION_KIND, status: 'pending' });
+  for (const operation of pending) {
+    if (signal.aborted) break;
+
+    const depositStarted = operation.steps.some((step) => step.name === 'deposit-started');
+    if (operation.data['depositMode'] === 'auto' && !depositStarted) {
+      settled.push(await journal.fail(operation.id, 'Interrupted before the deposit was sent'));
+      continue;
+    }
+
+    params.onResume(operation);
+    settled.push(await journal.resume(operation.id));
+  }
+  return settled;
+}
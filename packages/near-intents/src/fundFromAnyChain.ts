@@ -0,0 +1,148 @@
+import type { PrivacyProvider } from '@privacy-router-sdk/private-routers-core';
+import { getErrorCode, throwIfAborted } from '@privacy-router-sdk/private-routers-core';
+import type { Account } from '@privacy-router-sdk/signers-core';
+
+import { swap } from './swap';
+import { defaultDeadlineMs, findPoolAsset } from './utils';
+import type {
+  AnyChainFundResult,
+  AnyChainFundStatus,
+  CheckStatusResponse,
+  FundFromAnyChainParams,
+} from './types';
+
+const DEFAULT_SLIPPAGE_BPS = 100;
+
+/**
+ * 0.003 SOL left in the wallet for the funding transaction
+ * Native SOL only - network fees of SPL deposits are paid in SOL, not in the token
+ */
+const DEFAULT_SOL_RESERVE = 3_000_000n;
+
+const defaultReserve = (asset: string): bigint =>
+  asset.toUpperCase() === 'SOL' ? DEFAULT_SOL_RESERVE : 0n;
+
+/**
+ * Fund a privacy pool from any asset on any chain
+ * Origin asset → NEAR Intents deposit address → swap → wallet → pool
+ *
+ * The funded amount is the swap output reported by NEAR Intents (base units)
+ * minus the reserve. With autoFund: false it resolves once the swap settles.
+ */
+export const fundFromAnyChain = async (
+  params: FundFromAnyChainParams
+): Promise<AnyChainFundResult> => {
+  const { provider, swapApi, sourceAccount, originAsset, onStatusChange, signal } = params;
+  const asset = params.asset ?? 'SOL';
+  const reserve = params.reserve !== undefined ? BigInt(params.reserve) : defaultReserve(asset);
+
+  let fundingStarted = false;
+
+  try {
+    onStatusChange?.({ stage: 'quoting' });
+    throwIfAborted(signal, false);
+
+    const destinationAsset =
+      params.destinationAsset ?? (await findPoolAsset(swapApi, asset));
+    const deadlineMs = params.deadlineMs ?? defaultDeadlineMs(originAsset, destinationAsset);
+
+    let depositAddress = '';
+    let lastStatus: CheckStatusResponse | undefined;
+    let amountOut: bigint | undefined;
+
+    const quote = await swap({
+      swapApi,
+      quote: {
+        dry: false,
+        senderAddress: params.refundAddress,
+        recipientAddress: await sourceAccount.getAddress(),
+        originAsset: originAsset.assetId,
+        destinationAsset: destinationAsset.assetId,
+        amount: params.amount,
+        slippageTolerance: params.slippageTolerance ?? DEFAULT_SLIPPAGE_BPS,
+        deadline: new Date(Date.now() + deadlineMs).toISOString(),
+      },
+      sendDeposit: params.sendDeposit,
+      onStatusChange: (event) => {
+        if (event.status === 'QUOTE_RECEIVED') {
+          depositAddress = event.depositAddress;
+          onStatusChange?.({ stage: 'awaiting_deposit', depositAddress });
+        } else if ('statusResponse' in event) {
+          lastStatus = event.status;
+          const reported = event.statusResponse.swapDetails?.amountOut;
+          if (reported) {
+            amountOut = BigInt(reported);
+          }
+          onStatusChange?.({ stage: 'swapping', depositAddress, status: event.status });
+        }
+      },
+      signal,
+      journal: params.journal,
+    });
+
+    if (lastStatus !== 'SUCCESS') {
+      throw new Error(lastStatus ? `Swap ${lastStatus.toLowerCase()}` : 'Swap did not settle');
+    }
+    if (amountOut === undefined) {
+      throw new Error('Swap output amount missing from status response');
+    }
+
+    const fundAmount = amountOut - reserve;
+    if (fundAmount <= 0n) {
+      throw new Error(`Swap output ${amountOut} does not cover the ${reserve} reserve`);
+    }
+    onStatusChange?.({ stage: 'swapped', amountOut, fundAmount });
+
+    const autoFund = params.autoFund ?? true;
+    if (autoFund) {
+      // fundSwapOutput() reports its own failures
+      fundingStarted = true;
+      await fundSwapOutput({ provider, sourceAccount, asset, amount: fundAmount, onStatusChange, signal });
+    }
+
+    return { depositAddress, quote, amountOut, fundAmount, funded: autoFund };
+  } catch (error) {
+    if (!fundingStarted) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      onStatusChange?.({ stage: 'failed', error: errorMessage, code: getErrorCode(error) });
+    }
+    throw error;
+  }
+};
+
+/**
+ * Second leg of fundFromAnyChain() - fund the pool with the swap output
+ * Call it yourself after fundFromAnyChain({ autoFund: false })
+ */
+export const fundSwapOutput = async (params: {
+  provider: PrivacyProvider;
+  sourceAccount: Account;
+  asset?: string;
+  amount: bigint;
+  onStatusChange?: (status: AnyChainFundStatus) => void;
+  signal?: AbortSignal;
+}): Promise<void> => {
+  const { provider, sourceAccount, amount, onStatusChange, signal } = params;
+
+  try {
+    let txHash: string | undefined;
+    await provider.fund({
+      sourceAccount,
+      asset: params.asset ?? 'SOL',
+      amount: amount.toString(),
+      onStatusChange: (pool) => {
+        if (pool.stage === 'completed') {
+          txHash = pool.txHash;
+        }
+        onStatusChange?.({ stage: 'funding', pool });
+      },
+      signal,
+    });
+
+    onStatusChange?.({ stage: 'completed', fundedAmount: amount, txHash });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    onStatusChange?.({ stage: 'failed', error: errorMessage, code: getErrorCode(error) });
+    throw error;
+  }
+};
@@ -12,6 +12,12 @@ export type {
   SwapStateChangeEvent,
   SwapApi,
   SwapParams,
+  AnyChainWithdrawStatus,
+  PrivateWithdrawToAnyChainParams,
+  AnyChainWithdrawResult,
+  AnyChainFundStatus,
+  FundFromAnyChainParams,
+  AnyChainFundResult,
 } from './types';
 
 export {
@@ -24,4 +30,16 @@ export {
 export { OneClickApi, type OneClickApiConfig } from './oneClickApi';
 
 // Swap function
-export { swap } from './swap';
+export { swap, createSwapResumer, SWAP_OPERATION_KIND } from './swap';
+
+// Composite routes
+export { privateWithdrawToAnyChain } from './privateWithdrawToAnyChain';
+export { fundFromAnyChain, fundSwapOutput } from './fundFromAnyChain';
+
+// Errors thrown by swap() / OneClickApi / privateWithdrawToAnyChain()
+export {
+  AbortedError,
+  QuoteExpired,
+  ProviderUnavailable,
+  InsufficientShieldedBalance,
+} from '@privacy-router-sdk/private-routers-core';
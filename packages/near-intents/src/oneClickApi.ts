@@ -6,6 +6,11 @@ import {
   ApiError,
 } from '@defuse-protocol/one-click-sdk-typescript';
 
+import {
+  ProviderUnavailable,
+  throwIfAborted,
+} from '@privacy-router-sdk/private-routers-core';
+
 import { sleep } from './utils';
 import type {
   CheckStatusParams,
@@ -21,6 +26,8 @@ export type OneClickApiConfig = {
 
 const DEFAULT_API_URL = 'https://1click.chaindefuser.com';
 
+const PROVIDER_NAME = 'near-intents';
+
 export const OneClickApi = (config: OneClickApiConfig = {}): SwapApi => {
   const apiBaseUrl =
     config.apiBaseUrl ||
@@ -71,12 +78,26 @@ export const OneClickApi = (config: OneClickApiConfig = {}): SwapApi => {
           // Extract more details from the API error
           const errorBody = err.body as { message?: string; error?: string; details?: unknown } | undefined;
           const errorMessage = errorBody?.message || errorBody?.error || err.message;
+
+          // Rate limited or server-side failure - retry later
+          if (err.status === 429 || err.status >= 500) {
+            throw new ProviderUnavailable({
+              provider: PROVIDER_NAME,
+              status: err.status,
+              detail: errorMessage,
+              cause: err,
+            });
+          }
           const detailedError = new Error(
             `Quote failed (${err.status}): ${errorMessage}${errorBody?.details ? ` - ${JSON.stringify(errorBody.details)}` : ''}`
           );
           (detailedError as Error & { cause?: unknown }).cause = err;
           throw detailedError;
         }
+        // fetch rejects with TypeError when the API cannot be reached
+        if (err instanceof TypeError) {
+          throw new ProviderUnavailable({ provider: PROVIDER_NAME, detail: err.message, cause: err });
+        }
         throw err;
       }
     },
@@ -91,10 +112,12 @@ export const OneClickApi = (config: OneClickApiConfig = {}): SwapApi => {
     pollStatus: async (
       params: CheckStatusParams
     ): Promise<GetExecutionStatusResponse | null> => {
-      await sleep(params.initialDelay);
+      // Polling only happens once a deposit may exist
+      await sleep(params.initialDelay, params.signal);
       let attempts = 0;
       let statusResponse: GetExecutionStatusResponse | null = null;
       while (attempts < params.maxAttempts) {
+        throwIfAborted(params.signal, true);
         try {
           const newStatusResponse = await OneClickService.getExecutionStatus(
             params.depositAddress
@@ -125,7 +148,7 @@ export const OneClickApi = (config: OneClickApiConfig = {}): SwapApi => {
           statusResponse = newStatusResponse;
         } finally {
           attempts++;
-          await sleep(params.pollingInterval);
+          await sleep(params.pollingInterval, params.signal);
         }
       }
       return statusResponse;
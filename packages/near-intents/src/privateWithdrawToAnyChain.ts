@@ -0,0 +1,191 @@
+import type {
+  PrivacyProvider,
+  TransferStatus,
+  WithdrawStatus,
+} from '@privacy-router-sdk/private-routers-core';
+import {
+  InsufficientShieldedBalance,
+  getErrorCode,
+  throwIfAborted,
+} from '@privacy-router-sdk/private-routers-core';
+
+import { swap } from './swap';
+import { defaultDeadlineMs, findPoolAsset } from './utils';
+import type {
+  AnyChainWithdrawResult,
+  CheckStatusResponse,
+  PrivateWithdrawToAnyChainParams,
+} from './types';
+
+const DEFAULT_PRICE_BUFFER_BPS = 200;
+const DEFAULT_SLIPPAGE_BPS = 100;
+
+/**
+ * Withdraw from a privacy pool to any asset on any chain
+ * Pool → (minus pool fees) → NEAR Intents deposit address → swap → recipient
+ *
+ * The pool withdrawal is grossed up by the provider's fees so the buffered
+ * amount arrives at the deposit address. Resolves once the swap settles, or
+ * with a timed_out status once polling gives up before it does.
+ */
+export const privateWithdrawToAnyChain = async (
+  params: PrivateWithdrawToAnyChainParams
+): Promise<AnyChainWithdrawResult> => {
+  const { provider, swapApi, targetAsset, recipient, onStatusChange, signal } = params;
+  const asset = params.asset ?? 'SOL';
+  const priceBufferBps = params.priceBufferBps ?? DEFAULT_PRICE_BUFFER_BPS;
+
+  try {
+    onStatusChange?.({ stage: 'quoting' });
+    throwIfAborted(signal, false);
+
+    const originAsset = params.originAsset ?? (await findPoolAsset(swapApi, asset));
+
+    // Amount that must arrive at the deposit address (with price buffer)
+    const depositAmount = (BigInt(params.amount) * BigInt(10_000 + priceBufferBps)) / 10_000n;
+
+    // Amount that must leave the pool so depositAmount arrives, quoted for
+    // the operation sendFromPool() will run
+    const quoteParams = { asset, amount: depositAmount.toString(), mode: 'exactOut' as const };
+    const transfer = canTransfer(provider);
+    const withdrawQuote = transfer
+      ? await transfer.quoteTransfer(quoteParams)
+      : await provider.quoteWithdraw(quoteParams);
+    const withdrawAmount = withdrawQuote.amountIn;
+
+    // Some pools withdraw whatever is left instead of failing - check up front
+    const available = await provider.getPrivateBalance(asset);
+    if (available < withdrawAmount) {
+      throw new InsufficientShieldedBalance({
+        provider: provider.name,
+        asset,
+        required: withdrawAmount,
+        available,
+      });
+    }
+
+    const deadlineMs = params.deadlineMs ?? defaultDeadlineMs(originAsset, targetAsset);
+
+    let depositAddress = '';
+    let lastStatus: CheckStatusResponse | undefined;
+
+    const quote = await swap({
+      swapApi,
+      quote: {
+        dry: false,
+        senderAddress: params.refundAddress,
+        recipientAddress: recipient,
+        originAsset: originAsset.assetId,
+        destinationAsset: targetAsset.assetId,
+        amount: depositAmount.toString(),
+        slippageTolerance: params.slippageTolerance ?? DEFAULT_SLIPPAGE_BPS,
+        deadline: new Date(Date.now() + deadlineMs).toISOString(),
+      },
+      sendDeposit: ({ address }) =>
+        sendFromPool({
+          provider,
+          transfer,
+          asset,
+          address,
+          amount: withdrawAmount,
+          signal,
+          onStatusChange: (pool) =>
+            onStatusChange?.({ stage: 'withdrawing', depositAddress: address, pool }),
+        }),
+      onStatusChange: (event) => {
+        if (event.status === 'QUOTE_RECEIVED') {
+          depositAddress = event.depositAddress;
+        } else if ('statusResponse' in event) {
+          lastStatus = event.status;
+          onStatusChange?.({ stage: 'swapping', depositAddress, status: event.status });
+        }
+      },
+      signal,
+      journal: params.journal,
+    });
+
+    if (lastStatus === 'FAILED' || lastStatus === 'REFUNDED') {
+      throw new Error(`Swap ${lastStatus.toLowerCase()}`);
+    }
+    if (lastStatus === 'SUCCESS') {
+      onStatusChange?.({ stage: 'completed', depositAddress });
+    } else {
+      // Polling gave up - the funds left the pool and the swap may still settle
+      onStatusChange?.({ stage: 'timed_out', depositAddress, status: lastStatus });
+    }
+
+    return { depositAddress, withdrawAmount, depositAmount, quote, status: lastStatus };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    onStatusChange?.({ stage: 'failed', error: errorMessage, code: getErrorCode(error) });
+    throw error;
+  }
+};
+
+type PoolTransfer = Required<Pick<PrivacyProvider, 'transfer' | 'quoteTransfer'>>;
+
+/**
+ * The provider's external transfer, if it advertises one and quotes its fee
+ */
+const canTransfer = (provider: PrivacyProvider): PoolTransfer | null => {
+  if (!provider.transfer || !provider.quoteTransfer) {
+    return null;
+  }
+  if (!provider.getCapabilities().privateTransfers) {
+    return null;
+  }
+  return {
+    transfer: provider.transfer.bind(provider),
+    quoteTransfer: provider.quoteTransfer.bind(provider),
+  };
+};
+
+/**
+ * Send from the pool to the deposit address and return the transaction hash
+ * Uses the external private transfer when given, withdraw() otherwise
+ */
+const sendFromPool = async (params: {
+  provider: PrivacyProvider;
+  transfer: PoolTransfer | null;
+  asset: string;
+  address: string;
+  amount: bigint;
+  signal?: AbortSignal;
+  onStatusChange: (status: WithdrawStatus | TransferStatus) => void;
+}): Promise<string> => {
+  const { provider, transfer, asset, address, signal, onStatusChange } = params;
+  const amount = params.amount.toString();
+
+  if (transfer) {
+    const result = await transfer.transfer({
+      recipient: address,
+      asset,
+      amount,
+      type: 'external',
+      onStatusChange,
+      signal,
+    });
+    return result.txHash;
+  }
+
+  let txHash: string | undefined;
+  await provider.withdraw({
+    destination: { address },
+    asset,
+    amount,
+    // The swap quote is fixed - a short deposit would not settle as quoted
+    strict: true,
+    onStatusChange: (status) => {
+      if (status.stage === 'completed') {
+        txHash = status.txHash;
+      }
+      onStatusChange(status);
+    },
+    signal,
+  });
+
+  if (!txHash) {
+    throw new Error('Pool withdrawal did not report a transaction hash');
+  }
+  return txHash;
+};
@@ -1,43 +1,224 @@
-import type { SwapParams, SwapQuoteResponse } from './types';
+import type {
+  OperationJournal,
+  OperationRecord,
+  OperationResumer,
+} from '@privacy-router-sdk/private-routers-core';
+import {
+  AbortedError,
+  QuoteExpired,
+  throwIfAborted,
+} from '@privacy-router-sdk/private-routers-core';
+
+import type {
+  SendDepositFn,
+  SwapApi,
+  SwapParams,
+  SwapQuoteResponse,
+  SwapStateChangeEvent,
+} from './types';
+
+/**
+ * Journal operation kind used by swap()
+ */
+export const SWAP_OPERATION_KIND = 'near-intents-swap';
+
+type JournalEntry = { journal: OperationJournal; id: string };
+
+type ContinueSwapParams = {
+  swapApi: SwapApi;
+  depositAddress: string;
+  amount: string;
+  deadline?: string;
+  sendDeposit?: SendDepositFn;
+  onStatusChange?: (event: SwapStateChangeEvent) => void;
+  signal?: AbortSignal;
+  entry?: JournalEntry;
+};
 
 export const swap = async (params: SwapParams): Promise<SwapQuoteResponse> => {
-  const { swapApi, quote: quoteParams, sendDeposit, onStatusChange } = params;
+  const { swapApi, quote: quoteParams, sendDeposit, onStatusChange, signal, journal } = params;
+
+  const operation = await journal?.begin(SWAP_OPERATION_KIND, {
+    originAsset: quoteParams.originAsset,
+    destinationAsset: quoteParams.destinationAsset,
+    recipientAddress: quoteParams.recipientAddress,
+    amount: quoteParams.amount,
+    depositMode: sendDeposit ? 'auto' : 'manual',
+  });
+  const entry = journal && operation ? { journal, id: operation.id } : undefined;
+
+  try {
+    // Step 1: Get quote and extract deposit address
+    throwIfAborted(signal, false);
+    const quoteResponse = await swapApi.getQuote(quoteParams);
 
-  // Step 1: Get quote and extract deposit address
-  const quoteResponse = await swapApi.getQuote(quoteParams);
+    const depositAddress = quoteResponse.quote?.depositAddress;
+    if (!depositAddress) {
+      throw new Error('No deposit address found in quote response');
+    }
 
-  const depositAddress = quoteResponse.quote?.depositAddress;
-  if (!depositAddress) {
-    throw new Error('No deposit address found in quote response');
+    const deadline = quoteResponse.quote.deadline;
+    await recordStep(entry, 'quote', { depositAddress, ...(deadline ? { deadline } : {}) });
+
+    // Emit quote received event with deposit address
+    onStatusChange?.({ status: 'QUOTE_RECEIVED', depositAddress, operationId: entry?.id });
+
+    // Steps 2-4: deposit, submit tx hash, poll
+    await continueSwap({
+      swapApi,
+      depositAddress,
+      amount: quoteParams.amount,
+      deadline,
+      sendDeposit,
+      onStatusChange,
+      signal,
+      entry,
+    });
+
+    return quoteResponse;
+  } catch (error) {
+    if (entry) {
+      const current = await entry.journal.get(entry.id);
+      if (current?.status === 'pending' && !mayHaveDeposit(current)) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await entry.journal.fail(entry.id, message);
+      }
+    }
+    throw error;
   }
+};
+
+/**
+ * Resumer for journaled swaps - register under SWAP_OPERATION_KIND
+ * - deposit already started: poll only, never re-send (it may have landed)
+ * - automatic deposit not started yet: send it if the quote is still valid
+ * - manual deposit: keep polling the deposit address
+ * A failed resume fails the swap only while no funds can be at the deposit
+ * address; otherwise (and when aborted) it stays pending to be resumed again.
+ */
+export const createSwapResumer = (params: {
+  swapApi: SwapApi;
+  sendDeposit?: SendDepositFn;
+  onStatusChange?: (event: SwapStateChangeEvent) => void;
+  signal?: AbortSignal;
+}): OperationResumer => {
+  return async (operation, journal) => {
+    const { depositAddress, amount, deadline, depositMode } = operation.data;
+    if (!depositAddress || !amount) {
+      await journal.fail(operation.id, 'Interrupted before a quote was received');
+      return;
+    }
 
-  // Emit quote received event with deposit address
-  onStatusChange?.({ status: 'QUOTE_RECEIVED', depositAddress });
+    const needsDeposit = depositMode === 'auto' && !hasStep(operation, 'deposit-started');
+    if (needsDeposit && !params.sendDeposit) {
+      throw new Error('sendDeposit is required to finish this swap');
+    }
+
+    try {
+      await continueSwap({
+        swapApi: params.swapApi,
+        depositAddress,
+        amount,
+        deadline,
+        sendDeposit: needsDeposit ? params.sendDeposit : undefined,
+        onStatusChange: params.onStatusChange,
+        signal: params.signal,
+        entry: { journal, id: operation.id },
+      });
+    } catch (error) {
+      const current = await journal.get(operation.id);
+      const final =
+        current?.status === 'pending' &&
+        !mayHaveDeposit(current) &&
+        !(error instanceof AbortedError);
+      if (final) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await journal.fail(operation.id, message);
+      }
+      throw error;
+    }
+  };
+};
+
+/**
+ * Send the deposit (if given) and poll until the swap settles
+ */
+const continueSwap = async (params: ContinueSwapParams): Promise<void> => {
+  const { swapApi, depositAddress, sendDeposit, onStatusChange, signal, entry } = params;
 
-  // Step 2: Send deposit if provided
   if (sendDeposit) {
+    throwIfAborted(signal, false);
+
+    // A deposit after the deadline would only be refunded
+    if (params.deadline && Date.parse(params.deadline) <= Date.now()) {
+      throw new QuoteExpired({ deadline: params.deadline });
+    }
+
+    // Recorded before sending so a crash mid-send is never retried blindly
+    await recordStep(entry, 'deposit-started');
     const txHash = await sendDeposit({
       address: depositAddress,
-      amount: quoteParams.amount,
+      amount: params.amount,
+      signal,
     });
+    await recordStep(entry, 'deposit-sent', { txHash });
 
     onStatusChange?.({ status: 'DEPOSIT_SENT', txHash });
 
-    // Step 3: Submit transaction hash to speed up processing
+    // Submit transaction hash to speed up processing
     await swapApi.submitTxHash({
       transactionHash: txHash,
       depositAddress,
     });
   }
 
-  // Step 4: Poll for status
-  await swapApi.pollStatus({
+  // Journal writes are chained so they land in order
+  let writes: Promise<unknown> = Promise.resolve();
+  const finalStatus = await swapApi.pollStatus({
     depositAddress,
     maxAttempts: 100,
     pollingInterval: 10000,
     initialDelay: 5000,
-    onStatusChange,
+    onStatusChange: (event) => {
+      if (entry && 'statusResponse' in event) {
+        writes = writes.then(() => recordStep(entry, 'status', { status: event.status }));
+      }
+      onStatusChange?.(event);
+    },
+    signal,
   });
+  await writes;
+
+  if (!entry || !finalStatus) {
+    return;
+  }
+
+  const status = String(finalStatus.status);
+  if (status === 'SUCCESS') {
+    await entry.journal.complete(entry.id, { status });
+  } else if (status === 'FAILED' || status === 'REFUNDED') {
+    await entry.journal.fail(entry.id, `Swap ${status.toLowerCase()}`, { status });
+  }
+};
+
+const recordStep = async (
+  entry: JournalEntry | undefined,
+  step: string,
+  data: Record<string, string> = {}
+): Promise<void> => {
+  if (entry) {
+    await entry.journal.record(entry.id, step, data);
+  }
+};
+
+const hasStep = (operation: OperationRecord, step: string): boolean =>
+  operation.steps.some((s) => s.name === step);
 
-  return quoteResponse;
+/**
+ * Whether funds may already sit at the deposit address
+ * Manual deposits can happen as soon as the address is known
+ */
+const mayHaveDeposit = (operation: OperationRecord): boolean => {
+  if (!operation.data['depositAddress']) return false;
+  return operation.data['depositMode'] === 'manual' || hasStep(operation, 'deposit-started');
 };
@@ -1,4 +1,13 @@
 import type { GetExecutionStatusResponse } from '@defuse-protocol/one-click-sdk-typescript';
+import type {
+  ErrorCode,
+  FundingStatus,
+  OperationJournal,
+  PrivacyProvider,
+  TransferStatus,
+  WithdrawStatus,
+} from '@privacy-router-sdk/private-routers-core';
+import type { Account } from '@privacy-router-sdk/signers-core';
 
 export type TokensResponse = Record<string, string>;
 
@@ -15,7 +24,13 @@ export type SwapQuote = {
 export type SwapQuoteResponse = {
   timestamp: string;
   signature: string;
-  quote: { depositAddress?: string };
+  quote: {
+    depositAddress?: string;
+    /**
+     * ISO time after which deposits to the address are no longer swapped
+     */
+    deadline?: string;
+  };
 };
 
 export type SubmitTxHashParams = {
@@ -41,6 +56,10 @@ export type CheckStatusParams = {
   pollingInterval: number;
   initialDelay: number;
   onStatusChange?: (event: SwapStateChangeEvent) => void;
+  /**
+   * Stops polling with AbortedError (fundsMayHaveMoved: true)
+   */
+  signal?: AbortSignal;
 };
 
 export const checkStatusResponse = [
@@ -81,12 +100,17 @@ export type SwapApiAsset = {
 export type SendDepositFn = (params: {
   address: string;
   amount: string;
+  signal?: AbortSignal;
 }) => Promise<string>;
 
 export type SwapStateChangeEvent =
   | {
       status: 'QUOTE_RECEIVED';
       depositAddress: string;
+      /**
+       * Journal operation id (when a journal was passed)
+       */
+      operationId?: string;
     }
   | {
       status: 'DEPOSIT_SENT';
@@ -111,4 +135,181 @@ export type SwapParams = {
   quote: GetQuoteParams;
   sendDeposit?: SendDepositFn;
   onStatusChange?: (event: SwapStateChangeEvent) => void;
+  /**
+   * Rejects with AbortedError at the next safe point
+   * fundsMayHaveMoved is true once the deposit may have been sent
+   */
+  signal?: AbortSignal;
+  /**
+   * Journal the swap so it can be resumed after a crash or reload
+   * (register createSwapResumer under SWAP_OPERATION_KIND)
+   */
+  journal?: OperationJournal;
+};
+
+/**
+ * Status updates of privateWithdrawToAnyChain()
+ * - withdrawing: pool → deposit address, `pool` is the provider's own status
+ * - swapping: NEAR Intents status of the deposit
+ * - timed_out: polling stopped before the swap settled, status is the last one seen
+ */
+export type AnyChainWithdrawStatus =
+  | { stage: 'quoting' }
+  | { stage: 'withdrawing'; depositAddress: string; pool: WithdrawStatus | TransferStatus }
+  | { stage: 'swapping'; depositAddress: string; status: CheckStatusResponse }
+  | { stage: 'completed'; depositAddress: string }
+  | { stage: 'timed_out'; depositAddress: string; status?: CheckStatusResponse }
+  | { stage: 'failed'; error: string; code?: ErrorCode };
+
+export type PrivateWithdrawToAnyChainParams = {
+  provider: PrivacyProvider;
+  swapApi: SwapApi;
+  /**
+   * Asset to deliver (any chain NEAR Intents supports)
+   */
+  targetAsset: SwapApiAsset;
+  /**
+   * Recipient address on the target asset's chain
+   */
+  recipient: string;
+  /**
+   * Pool asset amount (base units) to swap, before the price buffer
+   */
+  amount: string;
+  /**
+   * Origin chain address refunds go to
+   */
+  refundAddress: string;
+  /**
+   * Pool asset symbol (default 'SOL')
+   */
+  asset?: string;
+  /**
+   * NEAR Intents entry of the pool asset - looked up via getTokens() when omitted
+   */
+  originAsset?: SwapApiAsset;
+  /**
+   * Extra deposit to absorb price moves, basis points (default 200 = 2%)
+   */
+  priceBufferBps?: number;
+  /**
+   * Swap slippage tolerance, basis points (default 100 = 1%)
+   */
+  slippageTolerance?: number;
+  /**
+   * Quote validity in ms (default 3 minutes same-chain, 30 minutes cross-chain)
+   */
+  deadlineMs?: number;
+  onStatusChange?: (status: AnyChainWithdrawStatus) => void;
+  signal?: AbortSignal;
+  /**
+   * Journals the underlying swap (kind SWAP_OPERATION_KIND)
+   */
+  journal?: OperationJournal;
+};
+
+export type AnyChainWithdrawResult = {
+  depositAddress: string;
+  /**
+   * Amount that left the pool (base units, pool fees included)
+   */
+  withdrawAmount: bigint;
+  /**
+   * Amount quoted to NEAR Intents (base units, price buffer included)
+   */
+  depositAmount: bigint;
+  quote: SwapQuoteResponse;
+  /**
+   * Last swap status seen (not an end state if polling gave up)
+   */
+  status?: CheckStatusResponse;
+};
+
+/**
+ * Status updates of fundFromAnyChain() / fundSwapOutput()
+ * - awaiting_deposit: send the origin asset to depositAddress (unless sendDeposit was given)
+ * - swapped: swap output landed in the wallet, fundAmount is what goes into the pool
+ * - funding: `pool` is the provider's own funding status
+ */
+export type AnyChainFundStatus =
+  | { stage: 'quoting' }
+  | { stage: 'awaiting_deposit'; depositAddress: string }
+  | { stage: 'swapping'; depositAddress: string; status: CheckStatusResponse }
+  | { stage: 'swapped'; amountOut: bigint; fundAmount: bigint }
+  | { stage: 'funding'; pool: FundingStatus }
+  | { stage: 'completed'; fundedAmount: bigint; txHash?: string }
+  | { stage: 'failed'; error: string; code?: ErrorCode };
+
+export type FundFromAnyChainParams = {
+  provider: PrivacyProvider;
+  swapApi: SwapApi;
+  /**
+   * Receives the swap output and funds the pool with it
+   */
+  sourceAccount: Account;
+  /**
+   * Asset the user pays with (any chain NEAR Intents supports)
+   */
+  originAsset: SwapApiAsset;
+  /**
+   * Origin asset amount in base units
+   */
+  amount: string;
+  /**
+   * Origin chain address refunds go to
+   */
+  refundAddress: string;
+  /**
+   * Pool asset symbol (default 'SOL')
+   */
+  asset?: string;
+  /**
+   * NEAR Intents entry of the pool asset - looked up via getTokens() when omitted
+   */
+  destinationAsset?: SwapApiAsset;
+  /**
+   * Pool asset left in the wallet for network fees (base units)
+   * Default 0.003 SOL for SOL and 0 for SPL tokens, whose deposit fees are paid in SOL
+   */
+  reserve?: string;
+  /**
+   * Fund the pool as soon as the swap settles (default true)
+   * When false, call fundSwapOutput() with the returned fundAmount
+   */
+  autoFund?: boolean;
+  /**
+   * Sends the origin deposit - omit when the user deposits from another wallet
+   */
+  sendDeposit?: SendDepositFn;
+  /**
+   * Swap slippage tolerance, basis points (default 100 = 1%)
+   */
+  slippageTolerance?: number;
+  /**
+   * Quote validity in ms (default 3 minutes same-chain, 30 minutes cross-chain)
+   */
+  deadlineMs?: number;
+  onStatusChange?: (status: AnyChainFundStatus) => void;
+  signal?: AbortSignal;
+  /**
+   * Journals the swap leg (kind SWAP_OPERATION_KIND)
+   */
+  journal?: OperationJournal;
+};
+
+export type AnyChainFundResult = {
+  depositAddress: string;
+  quote: SwapQuoteResponse;
+  /**
+   * Pool asset received from the swap (base units)
+   */
+  amountOut: bigint;
+  /**
+   * amountOut minus the reserve (base units)
+   */
+  fundAmount: bigint;
+  /**
+   * Whether the pool was funded (false with autoFund: false)
+   */
+  funded: boolean;
 };
@@ -1,2 +1,43 @@
-export const sleep = (ms: number) =>
-  new Promise((resolve) => setTimeout(resolve, ms));
+import type { SwapApi, SwapApiAsset } from './types';
+
+/**
+ * Wait for ms, resolving early if the signal aborts
+ * Callers check the signal afterwards to decide how to reject
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const SAME_CHAIN_DEADLINE_MS = 3 * 60 * 1000;
+const CROSS_CHAIN_DEADLINE_MS = 30 * 60 * 1000;
+
+/**
+ * Default quote validity - cross-chain deposits take longer to land
+ */
+export const defaultDeadlineMs = (origin: SwapApiAsset, destination: SwapApiAsset) =>
+  origin.blockchain === destination.blockchain ? SAME_CHAIN_DEADLINE_MS : CROSS_CHAIN_DEADLINE_MS;
+
+/**
+ * Find the NEAR Intents entry of a Solana pool asset
+ */
+export const findPoolAsset = async (swapApi: SwapApi, asset: string): Promise<SwapApiAsset> => {
+  const tokens = await swapApi.getTokens();
+  const poolAsset = tokens.find((t) => t.symbol === asset && t.blockchain === 'sol');
+  if (!poolAsset) {
+    throw new Error(`${asset} asset not found in NEAR Intents`);
+  }
+  return poolAsset;
+};
@@ -0,0 +1,64 @@
+import type { GetExecutionStatusResponse } from '@defuse-protocol/one-click-sdk-typescript';
+import { vi } from 'vitest';
+
+import type { CheckStatusResponse, SwapApi, SwapApiAsset } from '../src';
+
+export const SOL: SwapApiAsset = {
+  assetId: 'nep141:sol.omft.near',
+  decimals: 9,
+  blockchain: 'sol',
+  symbol: 'SOL',
+  price: 150,
+  priceUpdatedAt: '2026-01-01T00:00:00Z',
+};
+
+export const USDC_ETH: SwapApiAsset = {
+  assetId: 'nep141:eth-usdc.omft.near',
+  decimals: 6,
+  blockchain: 'eth',
+  symbol: 'USDC',
+  price: 1,
+  priceUpdatedAt: '2026-01-01T00:00:00Z',
+};
+
+/**
+ * In-memory NEAR Intents API
+ * pollStatus() reports `statuses` in order and returns the last one
+ * (null when there are none, like a poll that never got an answer)
+ */
+export function fakeSwapApi(
+  options: {
+    statuses?: CheckStatusResponse[];
+    depositAddress?: string;
+    deadline?: string;
+    amountOut?: string;
+  } = {}
+) {
+  const statuses = options.statuses ?? ['PENDING_DEPOSIT', 'PROCESSING', 'SUCCESS'];
+  const depositAddress = options.depositAddress ?? 'deposit-address';
+
+  const api = {
+    getTokens: vi.fn(() => Promise.resolve([SOL, USDC_ETH])),
+    getQuote: vi.fn(() =>
+      Promise.resolve({
+        timestamp: '2026-01-01T00:00:00Z',
+        signature: 'signature',
+        quote: { depositAddress, deadline: options.deadline },
+      })
+    ),
+    submitTxHash: vi.fn(() => Promise.resolve()),
+    pollStatus: vi.fn<SwapApi['pollStatus']>(async ({ onStatusChange }) => {
+      let last: GetExecutionStatusResponse | null = null;
+      for (const status of statuses) {
+        last = {
+          status,
+          swapDetails: { amountOut: options.amountOut ?? '0' },
+        } as unknown as GetExecutionStatusResponse;
+        onStatusChange?.({ status, statusResponse: last });
+      }
+      return last;
+    }),
+  } satisfies SwapApi;
+
+  return api;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MockPrivacyProvider } from '@privacy-router-sdk/private-routers-core';
+import type { Account } from '@privacy-router-sdk/signers-core';
+
+import { fundFromAnyChain, fundSwapOutput } from '../src';
+import type { AnyChainFundStatus, SwapApiAsset } from '../src';
+import { SOL, USDC_ETH, fakeSwapApi } from './fakeSwapApi';
+
+const USDC_SOL: SwapApiAsset = { ...USDC_ETH, assetId: 'nep141:sol-usdc.omft.near', blockchain: 'sol' };
+
+const account = { getAddress: () => Promise.resolve('wallet') } as unknown as Account;
+
+function run(options: {
+  pool?: MockPrivacyProvider;
+  amountOut: string;
+  asset?: string;
+  destinationAsset?: SwapApiAsset;
+  reserve?: string;
+  autoFund?: boolean;
+  onStatusChange?: (status: AnyChainFundStatus) => void;
+}) {
+  return fundFromAnyChain({
+    provider: options.pool ?? new MockPrivacyProvider(),
+    swapApi: fakeSwapApi({ amountOut: options.amountOut }),
+    sourceAccount: account,
+    originAsset: USDC_ETH,
+    destinationAsset: options.destinationAsset ?? SOL,
+    amount: '150000000',
+    refundAddress: '0xrefund',
+    asset: options.asset,
+    reserve: options.reserve,
+    autoFund: options.autoFund,
+    onStatusChange: options.onStatusChange,
+  });
+}
+
+describe('fundFromAnyChain', () => {
+  it('keeps 0.003 SOL in the wallet and funds the rest of the swap output', async () => {
+    const pool = new MockPrivacyProvider();
+
+    const result = await run({ pool, amountOut: '1000000000' });
+
+    expect(result.fundAmount).toBe(997_000_000n);
+    expect(result.funded).toBe(true);
+    expect(await pool.getPrivateBalance('SOL')).toBe(997_000_000n);
+  });
+
+  it('keeps no reserve for SPL tokens', async () => {
+    const pool = new MockPrivacyProvider();
+
+    const result = await run({
+      pool,
+      amountOut: '150000000',
+      asset: 'USDC',
+      destinationAsset: USDC_SOL,
+    });
+
+    expect(result.fundAmount).toBe(150_000_000n);
+    expect(await pool.getPrivateBalance('USDC')).toBe(150_000_000n);
+  });
+
+  it('uses an explicit reserve', async () => {
+    const result = await run({ amountOut: '1000000000', reserve: '0', autoFund: false });
+
+    expect(result.fundAmount).toBe(1_000_000_000n);
+  });
+
+  it('rejects a swap output that does not cover the reserve', async () => {
+    const pool = new MockPrivacyProvider();
+    const fund = vi.spyOn(pool, 'fund');
+
+    await expect(run({ pool, amountOut: '3000000' })).rejects.toThrow(
+      'Swap output 3000000 does not cover the 3000000 reserve'
+    );
+    expect(fund).not.toHaveBeenCalled();
+  });
+
+  it('stops after the swap without autoFund, for fundSwapOutput to finish', async () => {
+    const pool = new MockPrivacyProvider();
+    const stages: string[] = [];
+
+    const result = await run({
+      pool,
+      amountOut: '1000000000',
+      autoFund: false,
+      onStatusChange: (status) => stages.push(status.stage),
+    });
+
+    expect(result.funded).toBe(false);
+    expect(stages).toEqual(['quoting', 'awaiting_deposit', 'swapping', 'swapping', 'swapping', 'swapped']);
+    expect(await pool.getPrivateBalance('SOL')).toBe(0n);
+
+    await fundSwapOutput({ provider: pool, sourceAccount: account, amount: result.fundAmount });
+    expect(await pool.getPrivateBalance('SOL')).toBe(997_000_000n);
+  });
+});
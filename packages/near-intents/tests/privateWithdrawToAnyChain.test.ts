@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+import { InsufficientShieldedBalance, MockPrivacyProvider } from '@privacy-router-sdk/private-routers-core';
+
+import { privateWithdrawToAnyChain } from '../src';
+import type { AnyChainWithdrawStatus } from '../src';
+import { SOL, USDC_ETH, fakeSwapApi } from './fakeSwapApi';
+
+// 1 SOL plus the default 2% price buffer
+const DEPOSIT_AMOUNT = 1_020_000_000n;
+
+function provider(privateTransfers: boolean, balance = 10_000_000_000n) {
+  return new MockPrivacyProvider({
+    balances: { SOL: balance },
+    fees: { withdrawFixed: 5_000_000n, transferFixed: 1_000_000n },
+    privateTransfers,
+  });
+}
+
+function run(
+  pool: MockPrivacyProvider,
+  swapApi = fakeSwapApi(),
+  onStatusChange?: (status: AnyChainWithdrawStatus) => void
+) {
+  return privateWithdrawToAnyChain({
+    provider: pool,
+    swapApi,
+    originAsset: SOL,
+    targetAsset: USDC_ETH,
+    recipient: '0xrecipient',
+    amount: '1000000000',
+    refundAddress: 'refund',
+    onStatusChange,
+  });
+}
+
+describe('privateWithdrawToAnyChain', () => {
+  it('grosses a private transfer up by the transfer fee', async () => {
+    const pool = provider(true);
+    const transfer = vi.spyOn(pool, 'transfer');
+    const withdraw = vi.spyOn(pool, 'withdraw');
+
+    const result = await run(pool);
+
+    expect(result.withdrawAmount).toBe(DEPOSIT_AMOUNT + 1_000_000n);
+    expect(transfer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        recipient: 'deposit-address',
+        amount: (DEPOSIT_AMOUNT + 1_000_000n).toString(),
+        type: 'external',
+      })
+    );
+    expect(withdraw).not.toHaveBeenCalled();
+  });
+
+  it('withdraws strictly by the withdraw fee without private transfers', async () => {
+    const pool = provider(false);
+    const withdraw = vi.spyOn(pool, 'withdraw');
+
+    const result = await run(pool);
+
+    expect(result.withdrawAmount).toBe(DEPOSIT_AMOUNT + 5_000_000n);
+    expect(withdraw).toHaveBeenCalledWith(
+      expect.objectContaining({
+        destination: { address: 'deposit-address' },
+        amount: (DEPOSIT_AMOUNT + 5_000_000n).toString(),
+        strict: true,
+      })
+    );
+  });
+
+  it('reports completion once the swap succeeds', async () => {
+    const stages: string[] = [];
+
+    const result = await run(provider(true), fakeSwapApi(), (status) => stages.push(status.stage));
+
+    expect(result.status).toBe('SUCCESS');
+    expect(stages.at(-1)).toBe('completed');
+  });
+
+  it('reports timed_out when polling stops before the swap settles', async () => {
+    const statuses: AnyChainWithdrawStatus[] = [];
+    const swapApi = fakeSwapApi({ statuses: ['PENDING_DEPOSIT', 'PROCESSING'] });
+
+    const result = await run(provider(true), swapApi, (status) => statuses.push(status));
+
+    expect(result.status).toBe('PROCESSING');
+    expect(statuses.at(-1)).toEqual({
+      stage: 'timed_out',
+      depositAddress: 'deposit-address',
+      status: 'PROCESSING',
+    });
+    expect(statuses.some((status) => status.stage === 'completed')).toBe(false);
+  });
+
+  it('rejects when the swap is refunded', async () => {
+    const stages: string[] = [];
+
+    await expect(
+      run(provider(true), fakeSwapApi({ statuses: ['PROCESSING', 'REFUNDED'] }), (status) =>
+        stages.push(status.stage)
+      )
+    ).rejects.toThrow('Swap refunded');
+    expect(stages.at(-1)).toBe('failed');
+  });
+
+  it('checks the balance against the fee-inclusive amount before quoting the swap', async () => {
+    const swapApi = fakeSwapApi();
+
+    const error = await run(provider(true, DEPOSIT_AMOUNT), swapApi).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(InsufficientShieldedBalance);
+    expect(error).toMatchObject({ required: DEPOSIT_AMOUNT + 1_000_000n });
+    expect(swapApi.getQuote).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, expect, it, vi } from 'vitest';
+import { OperationJournal } from '@privacy-router-sdk/private-routers-core';
+
+import { SWAP_OPERATION_KIND, createSwapResumer, swap } from '../src';
+import type { GetQuoteParams } from '../src';
+import { fakeSwapApi } from './fakeSwapApi';
+
+const quote: GetQuoteParams = {
+  dry: false,
+  senderAddress: 'refund',
+  recipientAddress: 'recipient',
+  originAsset: 'nep141:sol.omft.near',
+  destinationAsset: 'nep141:eth-usdc.omft.near',
+  amount: '1000000',
+  slippageTolerance: 100,
+};
+
+function stepNames(record: { steps: { name: string }[] } | undefined): string[] {
+  return record?.steps.map((step) => step.name) ?? [];
+}
+
+async function onlyOperation(journal: OperationJournal) {
+  const [operation] = await journal.list({ kind: SWAP_OPERATION_KIND });
+  if (!operation) throw new Error('No operation journaled');
+  return operation;
+}
+
+describe('swap journal', () => {
+  it('records each step and completes on success', async () => {
+    const journal = new OperationJournal();
+    const swapApi = fakeSwapApi({ statuses: ['PROCESSING', 'SUCCESS'] });
+
+    await swap({ swapApi, quote, sendDeposit: () => Promise.resolve('tx'), journal });
+
+    const operation = await onlyOperation(journal);
+    expect(operation.status).toBe('completed');
+    expect(stepNames(operation)).toEqual([
+      'begin',
+      'quote',
+      'deposit-started',
+      'deposit-sent',
+      'status',
+      'status',
+      'completed',
+    ]);
+    expect(operation.data).toMatchObject({ depositAddress: 'deposit-address', txHash: 'tx' });
+  });
+
+  it('fails the operation when interrupted before a deposit', async () => {
+    const journal = new OperationJournal();
+    const swapApi = fakeSwapApi();
+    swapApi.getQuote.mockRejectedValueOnce(new Error('quote failed'));
+
+    await expect(swap({ swapApi, quote, journal })).rejects.toThrow('quote failed');
+
+    const operation = await onlyOperation(journal);
+    expect(operation.status).toBe('failed');
+    expect(operation.error).toBe('quote failed');
+  });
+
+  it('keeps the operation pending once the deposit may have been sent', async () => {
+    const journal = new OperationJournal();
+
+    await expect(
+      swap({
+        swapApi: fakeSwapApi(),
+        quote,
+        sendDeposit: () => Promise.reject(new Error('page closed')),
+        journal,
+      })
+    ).rejects.toThrow('page closed');
+
+    expect((await onlyOperation(journal)).status).toBe('pending');
+  });
+});
+
+describe('createSwapResumer', () => {
+  it('polls a started deposit without sending it again', async () => {
+    const journal = new OperationJournal();
+    await swap({
+      swapApi: fakeSwapApi(),
+      quote,
+      sendDeposit: () => Promise.reject(new Error('page closed')),
+      journal,
+    }).catch(() => undefined);
+
+    const swapApi = fakeSwapApi({ statuses: ['SUCCESS'] });
+    const sendDeposit = vi.fn(() => Promise.resolve('second-tx'));
+    journal.registerResumer(SWAP_OPERATION_KIND, createSwapResumer({ swapApi, sendDeposit }));
+
+    const resumed = await journal.resume((await onlyOperation(journal)).id);
+
+    expect(resumed.status).toBe('completed');
+    expect(sendDeposit).not.toHaveBeenCalled();
+    expect(swapApi.pollStatus).toHaveBeenCalledWith(
+      expect.objectContaining({ depositAddress: 'deposit-address' })
+    );
+  });
+
+  it('sends the deposit of an automatic swap that never started it', async () => {
+    const journal = new OperationJournal();
+    const operation = await journal.begin(SWAP_OPERATION_KIND, {
+      amount: '1000000',
+      depositMode: 'auto',
+    });
+    await journal.record(operation.id, 'quote', { depositAddress: 'deposit-address' });
+
+    const swapApi = fakeSwapApi({ statuses: ['SUCCESS'] });
+    const sendDeposit = vi.fn(() => Promise.resolve('tx'));
+    journal.registerResumer(SWAP_OPERATION_KIND, createSwapResumer({ swapApi, sendDeposit }));
+
+    const resumed = await journal.resume(operation.id);
+
+    expect(sendDeposit).toHaveBeenCalledWith(
+      expect.objectContaining({ address: 'deposit-address', amount: '1000000' })
+    );
+    expect(swapApi.submitTxHash).toHaveBeenCalledWith({
+      transactionHash: 'tx',
+      depositAddress: 'deposit-address',
+    });
+    expect(resumed.status).toBe('completed');
+  });
+
+  it('does not send a deposit after the quote deadline', async () => {
+    const journal = new OperationJournal();
+    const operation = await journal.begin(SWAP_OPERATION_KIND, {
+      amount: '1000000',
+      depositMode: 'auto',
+    });
+    await journal.record(operation.id, 'quote', {
+      depositAddress: 'deposit-address',
+      deadline: '2000-01-01T00:00:00Z',
+    });
+    const sendDeposit = vi.fn(() => Promise.resolve('tx'));
+    journal.registerResumer(
+      SWAP_OPERATION_KIND,
+      createSwapResumer({ swapApi: fakeSwapApi(), sendDeposit })
+    );
+
+    await expect(journal.resume(operation.id)).rejects.toMatchObject({ code: 'QUOTE_EXPIRED' });
+
+    expect(sendDeposit).not.toHaveBeenCalled();
+    expect((await journal.get(operation.id))?.status).toBe('failed');
+  });
+
+  it('fails the operation when the resumed swap is refunded', async () => {
+    const journal = new OperationJournal();
+    const operation = await journal.begin(SWAP_OPERATION_KIND, {
+      amount: '1000000',
+      depositMode: 'manual',
+    });
+    await journal.record(operation.id, 'quote', { depositAddress: 'deposit-address' });
+    journal.registerResumer(
+      SWAP_OPERATION_KIND,
+      createSwapResumer({ swapApi: fakeSwapApi({ statuses: ['REFUNDED'] }) })
+    );
+
+    const resumed = await journal.resume(operation.id);
+
+    expect(resumed.status).toBe('failed');
+    expect(resumed.error).toBe('Swap refunded');
+  });
+
+  it('keeps a manual swap pending when aborted', async () => {
+    const journal = new OperationJournal();
+    const operation = await journal.begin(SWAP_OPERATION_KIND, {
+      amount: '1000000',
+      depositMode: 'manual',
+    });
+    await journal.record(operation.id, 'quote', { depositAddress: 'deposit-address' });
+    const controller = new AbortController();
+    const swapApi = fakeSwapApi();
+    swapApi.pollStatus.mockImplementationOnce(() => {
+      controller.abort();
+      return Promise.reject(new Error('aborted'));
+    });
+    journal.registerResumer(
+      SWAP_OPERATION_KIND,
+      createSwapResumer({ swapApi, signal: controller.signal })
+    );
+
+    await expect(journal.resume(operation.id)).rejects.toThrow('aborted');
+
+    // Funds may sit at a manual deposit address - resume again later
+    expect((await journal.get(operation.id))?.status).toBe('pending');
+  });
+
+  it('fails an operation interrupted before a quote was received', async () => {
+    const journal = new OperationJournal();
+    const operation = await journal.begin(SWAP_OPERATION_KIND, { amount: '1000000' });
+    journal.registerResumer(SWAP_OPERATION_KIND, createSwapResumer({ swapApi: fakeSwapApi() }));
+
+    const resumed = await journal.resume(operation.id);
+
+    expect(resumed.status).toBe('failed');
+    expect(resumed.error).toBe('Interrupted before a quote was received');
+  });
+});
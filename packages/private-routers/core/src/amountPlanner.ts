@@ -0,0 +1,348 @@
+import type { Account } from '@privacy-router-sdk/signers-core';
+
+import { findAssetCapability } from './capabilities';
+import { BelowProviderMinimum, throwIfAborted } from './errors';
+import type { FeeQuote, FundingStatus, PrivacyProvider, WithdrawStatus } from './types';
+
+/**
+ * How an amount is split
+ * - denominations: standard amounts (1, 2, 5 × 10^n) that blend with other users
+ * - random: a few randomized chunks
+ */
+export type SplitStrategy = 'denominations' | 'random';
+
+/**
+ * Operation a plan is for
+ */
+export type PlanOperation = 'fund' | 'withdraw';
+
+/**
+ * One chunk of a split plan
+ */
+export type PlannedChunk = {
+  /**
+   * Net amount arriving (base units)
+   */
+  amount: bigint;
+
+  /**
+   * Withdrawal destination (withdraw plans only)
+   */
+  destination?: string;
+
+  /**
+   * Fee quote for the chunk - quote.amountIn is what leaves the source
+   */
+  quote: FeeQuote;
+};
+
+/**
+ * Split plan for a fund or withdraw operation
+ */
+export type AmountPlan = {
+  operation: PlanOperation;
+  asset: string;
+
+  /**
+   * Provider the plan was quoted against
+   */
+  provider: string;
+
+  /**
+   * Chunks in execution order
+   */
+  chunks: PlannedChunk[];
+
+  /**
+   * Net total - equals the requested amount
+   */
+  amount: bigint;
+
+  /**
+   * Gross total leaving the source
+   */
+  totalIn: bigint;
+
+  /**
+   * Fees over all chunks (fixed fees are paid per chunk)
+   */
+  totalFee: bigint;
+};
+
+/**
+ * Aggregated progress while executing a plan
+ */
+export type PlanProgress = {
+  /**
+   * Index of the chunk the status belongs to
+   */
+  chunk: number;
+
+  totalChunks: number;
+
+  /**
+   * Chunks finished so far
+   */
+  completedChunks: number;
+
+  /**
+   * Net amount of finished chunks
+   */
+  completedAmount: bigint;
+
+  status: FundingStatus | WithdrawStatus;
+};
+
+/**
+ * Standard denominations as [value, decimal shift] (1-2-5 series, 0.01 to 1000 units)
+ */
+const DENOMINATION_SERIES: Array<[bigint, number]> = [
+  [1000n, 0], [500n, 0], [200n, 0], [100n, 0], [50n, 0],
+  [20n, 0], [10n, 0], [5n, 0], [2n, 0], [1n, 0],
+  [5n, 1], [2n, 1], [1n, 1],
+  [5n, 2], [2n, 2], [1n, 2],
+];
+
+const DEFAULT_MAX_CHUNKS = 8;
+const DEFAULT_RANDOM_CHUNKS = 3;
+
+/**
+ * Standard denominations for an asset, largest first (base units)
+ */
+export function standardDenominations(decimals: number): bigint[] {
+  return DENOMINATION_SERIES.filter(([, shift]) => shift <= decimals).map(
+    ([value, shift]) => value * 10n ** BigInt(decimals - shift)
+  );
+}
+
+/**
+ * Split an amount into chunks and quote each against the provider
+ * Chunks are shuffled and assigned to destinations round-robin
+ *
+ * denominations: greedy split into standard amounts, the remainder below the
+ * smallest denomination becomes its own chunk (or joins the smallest one when
+ * it is below the provider minimum). random: `chunks` randomized parts,
+ * reduced until every part meets the provider minimum.
+ */
+export async function planAmountSplit(params: {
+  provider: PrivacyProvider;
+  operation: PlanOperation;
+  asset: string;
+  /**
+   * Net amount that should arrive in total (base units)
+   */
+  amount: bigint;
+  strategy?: SplitStrategy;
+  /**
+   * Denominations in base units, largest first (default standardDenominations)
+   */
+  denominations?: bigint[];
+  /**
+   * Number of chunks for the random strategy (default 3)
+   */
+  chunks?: number;
+  /**
+   * Upper bound on chunks - smallest chunks are merged beyond it (default 8)
+   */
+  maxChunks?: number;
+  /**
+   * Withdrawal destinations (withdraw plans only)
+   */
+  destinations?: string[];
+  /**
+   * Random source in [0, 1) - inject for reproducible plans
+   */
+  random?: () => number;
+}): Promise<AmountPlan> {
+  const { provider, operation, asset, amount } = params;
+  const random = params.random ?? Math.random;
+
+  if (amount <= 0n) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+  if (operation === 'withdraw' && !params.destinations?.length) {
+    throw new Error('Withdraw plans need at least one destination');
+  }
+
+  const capability = findAssetCapability(provider.getCapabilities(), asset);
+  if (!capability) {
+    throw new Error(`Asset not supported: ${asset}`);
+  }
+  const minimum = capability.minimumAmount ?? 0n;
+  if (amount < minimum) {
+    throw new BelowProviderMinimum({ provider: provider.name, asset, amount, minimum });
+  }
+
+  const maxChunks = params.maxChunks ?? DEFAULT_MAX_CHUNKS;
+  const amounts =
+    params.strategy === 'random'
+      ? splitRandom(amount, params.chunks ?? DEFAULT_RANDOM_CHUNKS, minimum, random)
+      : splitDenominations(
+          amount,
+          params.denominations ?? standardDenominations(capability.decimals),
+          minimum,
+          maxChunks
+        );
+
+  const quote = (chunk: bigint) => {
+    const quoteParams = { asset, amount: chunk.toString(), mode: 'exactOut' as const };
+    return operation === 'fund' ? provider.quoteFund(quoteParams) : provider.quoteWithdraw(quoteParams);
+  };
+
+  const destinations = params.destinations ?? [];
+  const chunks: PlannedChunk[] = [];
+  for (const [index, chunk] of shuffle(amounts, random).entries()) {
+    chunks.push({
+      amount: chunk,
+      destination: destinations.length > 0 ? destinations[index % destinations.length] : undefined,
+      quote: await quote(chunk),
+    });
+  }
+
+  return {
+    operation,
+    asset,
+    provider: provider.name,
+    chunks,
+    amount,
+    totalIn: chunks.reduce((sum, c) => sum + c.quote.amountIn, 0n),
+    totalFee: chunks.reduce((sum, c) => sum + c.quote.totalFee, 0n),
+  };
+}
+
+/**
+ * Execute a plan chunk by chunk through a provider
+ * Stops at the first failing chunk and rethrows - earlier chunks stay done,
+ * the last progress update tells how far it got
+ */
+export async function executeAmountPlan(params: {
+  plan: AmountPlan;
+  provider: PrivacyProvider;
+  /**
+   * Funding source (fund plans only)
+   */
+  sourceAccount?: Account;
+  onProgress?: (progress: PlanProgress) => void;
+  signal?: AbortSignal;
+}): Promise<void> {
+  const { plan, provider, sourceAccount, onProgress, signal } = params;
+
+  if (plan.provider !== provider.name) {
+    throw new Error(`Plan was made for ${plan.provider}, not ${provider.name}`);
+  }
+  if (plan.operation === 'fund' && !sourceAccount) {
+    throw new Error('Fund plans need a sourceAccount');
+  }
+
+  let completedChunks = 0;
+  let completedAmount = 0n;
+
+  for (const [index, chunk] of plan.chunks.entries()) {
+    // Chunks before this one may have moved funds
+    throwIfAborted(signal, completedChunks > 0);
+
+    const onStatusChange = (status: FundingStatus | WithdrawStatus) =>
+      onProgress?.({
+        chunk: index,
+        totalChunks: plan.chunks.length,
+        completedChunks,
+        completedAmount,
+        status,
+      });
+
+    if (plan.operation === 'fund') {
+      await provider.fund({
+        sourceAccount: sourceAccount!,
+        asset: plan.asset,
+        amount: chunk.quote.amountIn.toString(),
+        onStatusChange,
+        signal,
+      });
+    } else {
+      await provider.withdraw({
+        destination: { address: chunk.destination! },
+        asset: plan.asset,
+        amount: chunk.quote.amountIn.toString(),
+        onStatusChange,
+        signal,
+      });
+    }
+
+    completedChunks++;
+    completedAmount += chunk.amount;
+  }
+}
+
+/**
+ * Greedy split into denominations, merging the smallest chunks beyond maxChunks
+ */
+function splitDenominations(
+  amount: bigint,
+  denominations: bigint[],
+  minimum: bigint,
+  maxChunks: number
+): bigint[] {
+  const chunks: bigint[] = [];
+  let rest = amount;
+  for (const denomination of denominations) {
+    // Denominations below the provider minimum cannot be sent on their own
+    if (denomination < minimum) continue;
+    while (rest >= denomination) {
+      chunks.push(denomination);
+      rest -= denomination;
+    }
+  }
+
+  if (rest > 0n) {
+    if (rest >= minimum || chunks.length === 0) {
+      chunks.push(rest);
+    } else {
+      chunks[chunks.length - 1]! += rest;
+    }
+  }
+
+  // chunks are largest first - fold the tail into the last kept chunk
+  while (chunks.length > Math.max(1, maxChunks)) {
+    const last = chunks.pop()!;
+    chunks[chunks.length - 1]! += last;
+  }
+
+  return chunks;
+}
+
+/**
+ * Split into `count` parts with weights between 0.5 and 1.5,
+ * fewer parts if they would fall below the minimum
+ */
+function splitRandom(
+  amount: bigint,
+  count: number,
+  minimum: bigint,
+  random: () => number
+): bigint[] {
+  for (let parts = Math.max(1, count); parts > 1; parts--) {
+    const weights = Array.from({ length: parts }, () => BigInt(500 + Math.floor(random() * 1000)));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0n);
+    const chunks = weights.map((w) => (amount * w) / totalWeight);
+
+    // Rounding leftovers go to the first chunk
+    chunks[0]! += amount - chunks.reduce((sum, c) => sum + c, 0n);
+
+    if (chunks.every((c) => c >= minimum && c > 0n)) {
+      return chunks;
+    }
+  }
+  return [amount];
+}
+
+/**
+ * Fisher-Yates shuffle (returns a copy)
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result;
+}
@@ -0,0 +1,41 @@
+import type {
+  AssetCapability,
+  ProviderCapabilities,
+  RouteRequest,
+} from './types';
+
+/**
+ * Find the capability entry for an asset (case-insensitive symbol match)
+ */
+export function findAssetCapability(
+  capabilities: ProviderCapabilities,
+  asset: string
+): AssetCapability | undefined {
+  const symbol = asset.toUpperCase();
+  return capabilities.assets.find((a) => a.symbol.toUpperCase() === symbol);
+}
+
+/**
+ * Check a routing request against provider capabilities
+ * Returns true if supported, otherwise the reason it is not
+ */
+export function checkCapabilities(
+  capabilities: ProviderCapabilities,
+  request: RouteRequest
+): true | string {
+  if (!capabilities.accountKinds.includes(request.accountKind)) {
+    return `Account kind not supported: ${request.accountKind}`;
+  }
+
+  const asset = findAssetCapability(capabilities, request.asset);
+  if (!asset) {
+    return `Asset not supported: ${request.asset}`;
+  }
+
+  const amount = BigInt(request.amount);
+  if (amount > 0n && asset.minimumAmount !== undefined && amount < asset.minimumAmount) {
+    return `Amount below minimum of ${asset.minimumAmount}`;
+  }
+
+  return true;
+}
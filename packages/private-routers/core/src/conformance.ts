@@ -0,0 +1,365 @@
+import type { Account } from '@privacy-router-sdk/signers-core';
+
+import { findAssetCapability } from './capabilities';
+import { AbortedError, getErrorCode } from './errors';
+import type { ErrorCode } from './errors';
+import type { PrivacyProvider, QuoteParams } from './types';
+
+/**
+ * Checks of the provider conformance suite
+ * - capabilities: asset listed, decimals and minimum sane
+ * - quotes: exactIn / exactOut quotes add up
+ * - fund / withdraw / transfer: status order and balance accounting
+ * - insufficient-balance: over-withdrawal fails with a typed error and a failed event
+ * - abort: a pre-aborted signal rejects with AbortedError and moves nothing
+ */
+export type ConformanceCheck =
+  | 'capabilities'
+  | 'quotes'
+  | 'fund'
+  | 'withdraw'
+  | 'transfer'
+  | 'insufficient-balance'
+  | 'abort';
+
+export type ConformanceResult = {
+  check: ConformanceCheck;
+  passed: boolean;
+
+  /**
+   * Check did not apply (e.g. transfer without privateTransfers)
+   */
+  skipped?: boolean;
+
+  error?: string;
+};
+
+/**
+ * What the suite runs against
+ * fund / withdraw / transfer move real funds on real providers - use devnet
+ * or restrict `checks`. fund adds `amount` and withdraw / transfer each take
+ * it out again, so start with a shielded balance of at least `amount`.
+ */
+export type ConformanceSetup = {
+  provider: PrivacyProvider;
+
+  /**
+   * Funded account for fund()
+   */
+  sourceAccount: Account;
+
+  asset: string;
+
+  /**
+   * Amount per operation in base units - must meet the provider minimum
+   */
+  amount: string;
+
+  /**
+   * Withdraw destination / transfer recipient
+   */
+  destination: string;
+};
+
+export type ConformanceOptions = {
+  /**
+   * Checks to run (default: all, in the order listed in ConformanceCheck)
+   */
+  checks?: ConformanceCheck[];
+
+  /**
+   * Allowed difference when comparing balances (base units, default 0)
+   * Real providers may need some slack for fee rounding
+   */
+  balanceTolerance?: bigint;
+
+  /**
+   * Wait before reading balances after an operation (ms, default 0)
+   * For providers whose indexer lags behind the chain
+   */
+  settleMs?: number;
+};
+
+const ALL_CHECKS: ConformanceCheck[] = [
+  'capabilities',
+  'quotes',
+  'fund',
+  'withdraw',
+  'transfer',
+  'insufficient-balance',
+  'abort',
+];
+
+/**
+ * Status order of each operation - stages may be skipped, never reordered
+ */
+const STAGE_ORDER: Record<'fund' | 'withdraw' | 'transfer', string[]> = {
+  fund: ['preparing', 'depositing', 'confirming', 'completed'],
+  withdraw: ['preparing', 'processing', 'confirming', 'completed'],
+  transfer: ['preparing', 'processing', 'completed'],
+};
+
+type StatusEvent = { stage: string; txHash?: string; code?: ErrorCode };
+
+/**
+ * Run the conformance suite against a PrivacyProvider implementation
+ * Framework-agnostic: returns one result per check, never throws for a
+ * failing check. Wrap with assertConformance() in a test runner.
+ */
+export async function runProviderConformance(
+  setup: ConformanceSetup,
+  options: ConformanceOptions = {}
+): Promise<ConformanceResult[]> {
+  const checks = options.checks ?? ALL_CHECKS;
+  const context: CheckContext = {
+    ...setup,
+    tolerance: options.balanceTolerance ?? 0n,
+    settle: () => sleep(options.settleMs ?? 0),
+  };
+
+  const results: ConformanceResult[] = [];
+  for (const check of ALL_CHECKS.filter((c) => checks.includes(c))) {
+    if (check === 'transfer' && !supportsTransfer(setup.provider)) {
+      results.push({ check, passed: true, skipped: true });
+      continue;
+    }
+
+    try {
+      await CHECKS[check](context);
+      results.push({ check, passed: true });
+    } catch (error) {
+      results.push({
+        check,
+        passed: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Throw if any conformance check failed, listing every failure
+ */
+export function assertConformance(results: ConformanceResult[]): void {
+  const failed = results.filter((r) => !r.passed);
+  if (failed.length > 0) {
+    throw new Error(
+      `Provider conformance failed:\n${failed.map((r) => `- ${r.check}: ${r.error}`).join('\n')}`
+    );
+  }
+}
+
+type CheckContext = ConformanceSetup & {
+  tolerance: bigint;
+  settle: () => Promise<void>;
+};
+
+const CHECKS: Record<ConformanceCheck, (context: CheckContext) => Promise<void>> = {
+  capabilities: async ({ provider, asset }) => {
+    const capabilities = provider.getCapabilities();
+    const capability = findAssetCapability(capabilities, asset);
+    expect(capability !== undefined, `asset ${asset} missing from capabilities`);
+    expect(
+      Number.isInteger(capability!.decimals) && capability!.decimals >= 0,
+      `invalid decimals: ${capability!.decimals}`
+    );
+    expect(
+      capability!.minimumAmount === undefined || capability!.minimumAmount >= 0n,
+      'negative minimumAmount'
+    );
+    expect(capabilities.accountKinds.length > 0, 'no account kinds');
+    expect(
+      typeof provider.transfer === 'function' || !capabilities.privateTransfers,
+      'privateTransfers is true but transfer() is missing'
+    );
+  },
+
+  quotes: async ({ provider, asset, amount }) => {
+    const quoters = [
+      (params: QuoteParams) => provider.quoteWithdraw(params),
+      (params: QuoteParams) => provider.quoteFund(params),
+    ];
+    if (provider.quoteTransfer) {
+      const quoteTransfer = provider.quoteTransfer.bind(provider);
+      quoters.push((params: QuoteParams) => quoteTransfer(params));
+    }
+    for (const quote of quoters) {
+      const exactIn = await quote({ asset, amount, mode: 'exactIn' });
+      expect(exactIn.amountIn === BigInt(amount), 'exactIn quote changed amountIn');
+      expect(
+        exactIn.amountOut + exactIn.totalFee === exactIn.amountIn || exactIn.amountOut === 0n,
+        'amountOut + totalFee != amountIn'
+      );
+      expect(
+        exactIn.totalFee === exactIn.fees.percentage + exactIn.fees.rent + exactIn.fees.network,
+        'totalFee != sum of fee components'
+      );
+
+      const exactOut = await quote({ asset, amount, mode: 'exactOut' });
+      expect(exactOut.amountOut >= BigInt(amount), 'exactOut quote does not cover amount');
+    }
+  },
+
+  fund: async (context) => {
+    const { provider, sourceAccount, asset, amount } = context;
+    const expected = (await provider.quoteFund({ asset, amount, mode: 'exactIn' })).amountOut;
+    const before = await provider.getPrivateBalance(asset);
+
+    const events: StatusEvent[] = [];
+    await provider.fund({ sourceAccount, asset, amount, onStatusChange: (s) => events.push(s) });
+    expectStages(events, STAGE_ORDER.fund, true);
+
+    await context.settle();
+    expectDelta(before, await provider.getPrivateBalance(asset), expected, context.tolerance);
+  },
+
+  withdraw: async (context) => {
+    const { provider, asset, amount, destination } = context;
+    const before = await provider.getPrivateBalance(asset);
+
+    const events: StatusEvent[] = [];
+    await provider.withdraw({
+      destination: { address: destination },
+      asset,
+      amount,
+      onStatusChange: (s) => events.push(s),
+    });
+    expectStages(events, STAGE_ORDER.withdraw, false);
+
+    await context.settle();
+    expectDelta(before, await provider.getPrivateBalance(asset), -BigInt(amount), context.tolerance);
+  },
+
+  transfer: async (context) => {
+    const { provider, asset, amount, destination } = context;
+    const before = await provider.getPrivateBalance(asset);
+
+    const events: StatusEvent[] = [];
+    const result = await provider.transfer!({
+      recipient: destination,
+      asset,
+      amount,
+      type: 'external',
+      onStatusChange: (s) => events.push(s),
+    });
+    expectStages(events, STAGE_ORDER.transfer, true);
+    expect(
+      result.txHash === events[events.length - 1]?.txHash,
+      'result txHash differs from completed event'
+    );
+
+    await context.settle();
+    expectDelta(before, await provider.getPrivateBalance(asset), -BigInt(amount), context.tolerance);
+  },
+
+  'insufficient-balance': async ({ provider, asset, destination }) => {
+    const balance = await provider.getPrivateBalance(asset);
+    const events: StatusEvent[] = [];
+
+    const error = await rejection(
+      provider.withdraw({
+        destination: { address: destination },
+        asset,
+        amount: (balance + 1n).toString(),
+        onStatusChange: (s) => events.push(s),
+      })
+    );
+
+    const last = events[events.length - 1];
+    expect(last?.stage === 'failed', `last event is ${last?.stage ?? 'missing'}, expected failed`);
+    expect(
+      getErrorCode(error) === 'INSUFFICIENT_SHIELDED_BALANCE',
+      `error code is ${getErrorCode(error) ?? 'missing'}, expected INSUFFICIENT_SHIELDED_BALANCE`
+    );
+    expect(last?.code === getErrorCode(error), 'failed event code differs from thrown error');
+    expect(
+      (await provider.getPrivateBalance(asset)) === balance,
+      'balance changed after a failed withdrawal'
+    );
+  },
+
+  abort: async ({ provider, asset, amount, destination }) => {
+    const balance = await provider.getPrivateBalance(asset);
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await rejection(
+      provider.withdraw({
+        destination: { address: destination },
+        asset,
+        amount,
+        signal: controller.signal,
+      })
+    );
+
+    expect(error instanceof AbortedError, `rejected with ${describe(error)}, expected AbortedError`);
+    expect(!(error as AbortedError).fundsMayHaveMoved, 'fundsMayHaveMoved is true before any submit');
+    expect(
+      (await provider.getPrivateBalance(asset)) === balance,
+      'balance changed after an aborted withdrawal'
+    );
+  },
+};
+
+function supportsTransfer(provider: PrivacyProvider): boolean {
+  return typeof provider.transfer === 'function' && provider.getCapabilities().privateTransfers;
+}
+
+/**
+ * Stages start with preparing, follow the given order and end with a single completed
+ */
+function expectStages(events: StatusEvent[], order: string[], txHashRequired: boolean): void {
+  const stages = events.map((e) => e.stage);
+  expect(stages[0] === 'preparing', `first stage is ${stages[0] ?? 'missing'}, expected preparing`);
+  expect(!stages.includes('failed'), 'failed event on a successful operation');
+
+  let rank = 0;
+  for (const stage of stages) {
+    const next = order.indexOf(stage);
+    expect(next >= 0, `unknown stage: ${stage}`);
+    expect(next >= rank, `stage ${stage} after ${order[rank]}`);
+    rank = next;
+  }
+
+  expect(stages.filter((s) => s === 'completed').length === 1, 'expected exactly one completed event');
+  expect(stages[stages.length - 1] === 'completed', 'events after completed');
+
+  const completed = events[events.length - 1]!;
+  expect(
+    !txHashRequired || (typeof completed.txHash === 'string' && completed.txHash.length > 0),
+    'completed event without txHash'
+  );
+}
+
+function expectDelta(before: bigint, after: bigint, expected: bigint, tolerance: bigint): void {
+  const delta = after - before;
+  const diff = delta > expected ? delta - expected : expected - delta;
+  expect(diff <= tolerance, `balance changed by ${delta}, expected ${expected}`);
+}
+
+function expect(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+/**
+ * Await a promise that must reject and return the rejection
+ */
+async function rejection(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error('operation resolved, expected it to reject');
+}
+
+function describe(value: unknown): string {
+  return value instanceof Error ? `${value.name}: ${value.message}` : String(value);
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
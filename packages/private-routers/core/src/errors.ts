@@ -0,0 +1,224 @@
+import type { SignerErrorCode } from '@privacy-router-sdk/signers-core';
+import { SignerError } from '@privacy-router-sdk/signers-core';
+
+/**
+ * Privacy routing error codes
+ */
+export type PrivacyRouterErrorCode =
+  | 'ABORTED'
+  | 'INSUFFICIENT_SHIELDED_BALANCE'
+  | 'BELOW_PROVIDER_MINIMUM'
+  | 'QUOTE_EXPIRED'
+  | 'TRANSACTION_FAILED_ON_CHAIN'
+  | 'PROVIDER_UNAVAILABLE'
+  | 'NO_PROVIDER_AVAILABLE';
+
+/**
+ * Any code a routing operation can fail with (routing + signer errors)
+ */
+export type ErrorCode = PrivacyRouterErrorCode | SignerErrorCode;
+
+/**
+ * Base class for privacy routing errors
+ */
+export class PrivacyRouterError extends Error {
+  readonly code: PrivacyRouterErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: PrivacyRouterErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'PrivacyRouterError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Operation cancelled through an AbortSignal
+ * Thrown at the next safe point after the signal fires
+ */
+export class AbortedError extends PrivacyRouterError {
+  /**
+   * Whether a transaction may already have been submitted
+   * When true the caller should check balances / status before retrying
+   */
+  readonly fundsMayHaveMoved: boolean;
+
+  constructor(fundsMayHaveMoved: boolean, message = 'Operation aborted') {
+    super('ABORTED', message);
+    this.name = 'AbortedError';
+    this.fundsMayHaveMoved = fundsMayHaveMoved;
+  }
+}
+
+/**
+ * Shielded balance does not cover the requested amount (base units)
+ * available is undefined when the provider cannot tell
+ */
+export class InsufficientShieldedBalance extends PrivacyRouterError {
+  readonly provider: string;
+  readonly asset: string;
+  readonly required: bigint;
+  readonly available?: bigint;
+
+  constructor(params: {
+    provider: string;
+    asset: string;
+    required: bigint;
+    available?: bigint;
+    cause?: unknown;
+  }) {
+    super(
+      'INSUFFICIENT_SHIELDED_BALANCE',
+      `Insufficient shielded ${params.asset} balance on ${params.provider}: ` +
+        `required ${params.required}` +
+        (params.available !== undefined ? `, available ${params.available}` : ''),
+      params.cause
+    );
+    this.name = 'InsufficientShieldedBalance';
+    this.provider = params.provider;
+    this.asset = params.asset;
+    this.required = params.required;
+    this.available = params.available;
+  }
+}
+
+/**
+ * Amount is below the provider's minimum for the asset (base units)
+ */
+export class BelowProviderMinimum extends PrivacyRouterError {
+  readonly provider: string;
+  readonly asset: string;
+  readonly amount: bigint;
+  readonly minimum: bigint;
+
+  constructor(params: {
+    provider: string;
+    asset: string;
+    amount: bigint;
+    minimum: bigint;
+    cause?: unknown;
+  }) {
+    super(
+      'BELOW_PROVIDER_MINIMUM',
+      `${params.asset} amount ${params.amount} is below the ${params.provider} minimum of ${params.minimum}`,
+      params.cause
+    );
+    this.name = 'BelowProviderMinimum';
+    this.provider = params.provider;
+    this.asset = params.asset;
+    this.amount = params.amount;
+    this.minimum = params.minimum;
+  }
+}
+
+/**
+ * Quote can no longer be used - request a new one
+ */
+export class QuoteExpired extends PrivacyRouterError {
+  /**
+   * ISO timestamp the quote was valid until (if known)
+   */
+  readonly deadline?: string;
+
+  constructor(params: { deadline?: string; cause?: unknown } = {}) {
+    super(
+      'QUOTE_EXPIRED',
+      params.deadline ? `Quote expired at ${params.deadline}` : 'Quote expired',
+      params.cause
+    );
+    this.name = 'QuoteExpired';
+    this.deadline = params.deadline;
+  }
+}
+
+/**
+ * Transaction landed on-chain but failed
+ */
+export class TransactionFailedOnChain extends PrivacyRouterError {
+  readonly txHash: string;
+  readonly reason: string;
+
+  constructor(params: { txHash: string; reason: string; cause?: unknown }) {
+    super('TRANSACTION_FAILED_ON_CHAIN', `Transaction failed: ${params.reason}`, params.cause);
+    this.name = 'TransactionFailedOnChain';
+    this.txHash = params.txHash;
+    this.reason = params.reason;
+  }
+}
+
+/**
+ * Provider backend (API, relayer, indexer) could not be reached or errored
+ * Usually transient - safe to retry later
+ */
+export class ProviderUnavailable extends PrivacyRouterError {
+  readonly provider: string;
+
+  /**
+   * HTTP status if the backend answered
+   */
+  readonly status?: number;
+
+  constructor(params: { provider: string; status?: number; detail?: string; cause?: unknown }) {
+    super(
+      'PROVIDER_UNAVAILABLE',
+      `${params.provider} is unavailable` +
+        (params.status !== undefined ? ` (${params.status})` : '') +
+        (params.detail ? `: ${params.detail}` : ''),
+      params.cause
+    );
+    this.name = 'ProviderUnavailable';
+    this.provider = params.provider;
+    this.status = params.status;
+  }
+}
+
+/**
+ * No registered provider can serve a routing request
+ * rejected lists every provider and why it was dropped
+ */
+export class NoProviderAvailable extends PrivacyRouterError {
+  readonly asset: string;
+  readonly amount: string;
+  readonly rejected: { name: string; reason: string }[];
+
+  constructor(params: {
+    asset: string;
+    amount: string;
+    accountKind: string;
+    rejected: { name: string; reason: string }[];
+  }) {
+    super(
+      'NO_PROVIDER_AVAILABLE',
+      `No privacy provider supports ${params.asset} (${params.amount}) for ${params.accountKind} accounts`
+    );
+    this.name = 'NoProviderAvailable';
+    this.asset = params.asset;
+    this.amount = params.amount;
+    this.rejected = params.rejected;
+  }
+}
+
+/**
+ * Throw AbortedError if the signal has fired
+ * @param fundsMayHaveMoved - Whether anything was submitted on-chain before this point
+ */
+export function throwIfAborted(
+  signal: AbortSignal | undefined,
+  fundsMayHaveMoved: boolean
+): void {
+  if (signal?.aborted) {
+    throw new AbortedError(fundsMayHaveMoved);
+  }
+}
+
+/**
+ * Get the typed code of an error, if it is one of ours
+ * Used to attach a code to `{ stage: 'failed' }` status updates
+ */
+export function getErrorCode(error: unknown): ErrorCode | undefined {
+  if (error instanceof PrivacyRouterError || error instanceof SignerError) {
+    return error.code;
+  }
+  return undefined;
+}
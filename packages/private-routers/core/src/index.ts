@@ -1,6 +1,118 @@
 export type {
   WithdrawDestination,
+  ProvingStep,
+  ProvingProgress,
   FundingStatus,
   WithdrawStatus,
+  TransferStatus,
+  TransferType,
+  TransferResult,
   PrivacyProvider,
+  QuoteMode,
+  QuoteParams,
+  FeeBreakdown,
+  FeeQuote,
+  FeeRate,
+  AccountKind,
+  SignerFeature,
+  AssetCapability,
+  ProviderCapabilities,
+  RouteRequest,
+  RouteOperation,
+  RouterProviderEntry,
+  RouteSelectionReason,
+  RouteRejection,
+  RouteSelection,
 } from './types';
+
+export { PrivacyRouter } from './privacyRouter';
+export type {
+  OperationStatus,
+  OperationData,
+  OperationStep,
+  OperationRecord,
+  JournalStorage,
+  OperationResumer,
+} from './operationJournal';
+export {
+  OperationJournal,
+  MemoryJournalStorage,
+  WebStorageJournalStorage,
+} from './operationJournal';
+export type {
+  SplitStrategy,
+  PlanOperation,
+  PlannedChunk,
+  AmountPlan,
+  PlanProgress,
+} from './amountPlanner';
+export {
+  planAmountSplit,
+  executeAmountPlan,
+  standardDenominations,
+} from './amountPlanner';
+export type {
+  Clock,
+  ScheduledWithdrawalStatus,
+  ScheduledWithdrawal,
+  WithdrawalTiming,
+  ScheduleStorage,
+} from './withdrawScheduler';
+export {
+  WithdrawScheduler,
+  MemoryScheduleStorage,
+  WebStorageScheduleStorage,
+  systemClock,
+} from './withdrawScheduler';
+export type {
+  AnalyzedOperation,
+  PrivacyFindingKind,
+  PrivacyFindingSeverity,
+  PrivacyFinding,
+  PrivacyReport,
+  PrivacyAnalyzerOptions,
+} from './privacyAnalyzer';
+export { analyzePrivacy } from './privacyAnalyzer';
+export type {
+  MockFeeModel,
+  MockOperation,
+  MockPrivacyProviderConfig,
+} from './mockPrivacyProvider';
+export { MockPrivacyProvider } from './mockPrivacyProvider';
+export type {
+  ConformanceCheck,
+  ConformanceResult,
+  ConformanceSetup,
+  ConformanceOptions,
+} from './conformance';
+export { runProviderConformance, assertConformance } from './conformance';
+export type { PrivacyRouterErrorCode, ErrorCode } from './errors';
+export {
+  PrivacyRouterError,
+  AbortedError,
+  InsufficientShieldedBalance,
+  BelowProviderMinimum,
+  QuoteExpired,
+  TransactionFailedOnChain,
+  ProviderUnavailable,
+  NoProviderAvailable,
+  throwIfAborted,
+  getErrorCode,
+} from './errors';
+
+// Signer errors live in signers-core so signers can throw them
+export type { SignerErrorCode, SignerAction } from '@privacy-router-sdk/signers-core';
+export {
+  SignerError,
+  UserRejected,
+  SignerCapabilityMissing,
+  isUserRejection,
+} from '@privacy-router-sdk/signers-core';
+export { checkCapabilities, findAssetCapability } from './capabilities';
+export {
+  feeRateFromDecimal,
+  decimalToBaseUnits,
+  applyFeeRate,
+  solveGrossAmount,
+  buildFeeQuote,
+} from './quotes';
@@ -0,0 +1,353 @@
+import type { Account } from '@privacy-router-sdk/signers-core';
+
+import { findAssetCapability } from './capabilities';
+import {
+  BelowProviderMinimum,
+  InsufficientShieldedBalance,
+  getErrorCode,
+  throwIfAborted,
+} from './errors';
+import { applyFeeRate, buildFeeQuote } from './quotes';
+import type {
+  AccountKind,
+  AssetCapability,
+  FeeQuote,
+  FeeRate,
+  FundingStatus,
+  PrivacyProvider,
+  ProviderCapabilities,
+  QuoteParams,
+  TransferResult,
+  TransferStatus,
+  TransferType,
+  WithdrawDestination,
+  WithdrawStatus,
+} from './types';
+
+/**
+ * Fee model of the mock - percentage plus fixed fee per operation
+ */
+export type MockFeeModel = {
+  fundRate?: FeeRate;
+  fundFixed?: bigint;
+  withdrawRate?: FeeRate;
+  withdrawFixed?: bigint;
+  transferRate?: FeeRate;
+  transferFixed?: bigint;
+};
+
+/**
+ * Operation a failure can be injected into
+ */
+export type MockOperation = 'fund' | 'withdraw' | 'transfer';
+
+/**
+ * Configuration for MockPrivacyProvider
+ */
+export interface MockPrivacyProviderConfig {
+  /**
+   * Provider name (default: 'mock')
+   */
+  name?: string;
+
+  /**
+   * Supported assets (default: SOL with 9 decimals, USDC with 6)
+   */
+  assets?: AssetCapability[];
+
+  /**
+   * Starting shielded balances in base units
+   */
+  balances?: Record<string, bigint>;
+
+  /**
+   * Fees (default: none)
+   */
+  fees?: MockFeeModel;
+
+  /**
+   * Delay between status updates in ms (default: 0)
+   */
+  latencyMs?: number;
+
+  /**
+   * Whether transfer() is available (default: true)
+   */
+  privateTransfers?: boolean;
+
+  accountKinds?: AccountKind[];
+}
+
+const DEFAULT_ASSETS: AssetCapability[] = [
+  { symbol: 'SOL', decimals: 9 },
+  { symbol: 'USDC', decimals: 6 },
+];
+
+const NO_FEE: FeeRate = { numerator: 0n, denominator: 1n };
+
+/**
+ * In-memory privacy provider
+ * For offline UI development and for running the conformance suite against
+ * the interface itself. Balances live in memory; nothing touches a chain.
+ */
+export class MockPrivacyProvider implements PrivacyProvider {
+  readonly name: string;
+
+  private readonly assets: AssetCapability[];
+  private readonly fees: Required<MockFeeModel>;
+  private readonly latencyMs: number;
+  private readonly privateTransfers: boolean;
+  private readonly accountKinds: AccountKind[];
+  private readonly balances = new Map<string, bigint>();
+  private readonly failures = new Map<MockOperation, Error[]>();
+  private txCounter = 0;
+
+  constructor(config: MockPrivacyProviderConfig = {}) {
+    this.name = config.name ?? 'mock';
+    this.assets = config.assets ?? DEFAULT_ASSETS;
+    this.fees = {
+      fundRate: config.fees?.fundRate ?? NO_FEE,
+      fundFixed: config.fees?.fundFixed ?? 0n,
+      withdrawRate: config.fees?.withdrawRate ?? NO_FEE,
+      withdrawFixed: config.fees?.withdrawFixed ?? 0n,
+      transferRate: config.fees?.transferRate ?? NO_FEE,
+      transferFixed: config.fees?.transferFixed ?? 0n,
+    };
+    this.latencyMs = config.latencyMs ?? 0;
+    this.privateTransfers = config.privateTransfers ?? true;
+    this.accountKinds = config.accountKinds ?? ['mnemonic', 'wallet-adapter', 'ledger'];
+
+    for (const [asset, balance] of Object.entries(config.balances ?? {})) {
+      this.balances.set(this.requireAsset(asset).symbol, balance);
+    }
+  }
+
+  /**
+   * Make the next call of an operation fail with this error
+   * Queued failures are used in order
+   */
+  failNext(operation: MockOperation, error: Error): void {
+    this.failures.set(operation, [...(this.failures.get(operation) ?? []), error]);
+  }
+
+  /**
+   * Overwrite a shielded balance (base units)
+   */
+  setBalance(asset: string, amount: bigint): void {
+    this.balances.set(this.requireAsset(asset).symbol, amount);
+  }
+
+  async fund(params: {
+    sourceAccount: Account;
+    asset: string;
+    amount: string;
+    onStatusChange?: (status: FundingStatus) => void;
+    signal?: AbortSignal;
+  }): Promise<void> {
+    const { onStatusChange, signal } = params;
+
+    try {
+      onStatusChange?.({ stage: 'preparing' });
+      const { symbol } = this.validate(params.asset, params.amount);
+      throwIfAborted(signal, false);
+      this.takeFailure('fund');
+
+      onStatusChange?.({ stage: 'depositing' });
+      await this.wait();
+      throwIfAborted(signal, false);
+
+      const txHash = this.nextTxHash();
+      const quote = await this.quoteFund({ asset: symbol, amount: params.amount, mode: 'exactIn' });
+      this.balances.set(symbol, this.balanceOf(symbol) + quote.amountOut);
+
+      onStatusChange?.({ stage: 'confirming', txHash });
+      await this.wait();
+
+      onStatusChange?.({ stage: 'completed', txHash });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      onStatusChange?.({ stage: 'failed', error: errorMessage, code: getErrorCode(error) });
+      throw error;
+    }
+  }
+
+  async withdraw(params: {
+    destination: WithdrawDestination;
+    asset: string;
+    amount: string;
+    onStatusChange?: (status: WithdrawStatus) => void;
+    signal?: AbortSignal;
+  }): Promise<void> {
+    const { onStatusChange, signal } = params;
+
+    try {
+      onStatusChange?.({ stage: 'preparing' });
+      const txHash = await this.debit('withdraw', params.asset, params.amount, signal, () =>
+        onStatusChange?.({ stage: 'processing' })
+      );
+
+      onStatusChange?.({ stage: 'confirming', txHash });
+      await this.wait();
+
+      onStatusChange?.({ stage: 'completed', txHash });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      onStatusChange?.({ stage: 'failed', error: errorMessage, code: getErrorCode(error) });
+      throw error;
+    }
+  }
+
+  async transfer(params: {
+    recipient: string;
+    asset: string;
+    amount: string;
+    type?: TransferType;
+    onStatusChange?: (status: TransferStatus) => void;
+    signal?: AbortSignal;
+  }): Promise<TransferResult> {
+    const { onStatusChange, signal } = params;
+
+    try {
+      if (!this.privateTransfers) {
+        throw new Error('Private transfers not supported');
+      }
+
+      onStatusChange?.({ stage: 'preparing' });
+      const txHash = await this.debit('transfer', params.asset, params.amount, signal, () =>
+        onStatusChange?.({ stage: 'processing' })
+      );
+
+      onStatusChange?.({ stage: 'completed', txHash });
+      return { txHash, amountHidden: false };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      onStatusChange?.({ stage: 'failed', error: errorMessage, code: getErrorCode(error) });
+      throw error;
+    }
+  }
+
+  async getPrivateBalance(asset: string): Promise<bigint> {
+    return this.balanceOf(this.requireAsset(asset).symbol);
+  }
+
+  async getPrivateBalances(): Promise<Record<string, bigint>> {
+    return Object.fromEntries(this.assets.map((a) => [a.symbol, this.balanceOf(a.symbol)]));
+  }
+
+  async quoteWithdraw(params: QuoteParams): Promise<FeeQuote> {
+    this.requireAsset(params.asset);
+    return buildFeeQuote(params, (gross) => ({
+      percentage: applyFeeRate(gross, this.fees.withdrawRate),
+      rent: this.fees.withdrawFixed,
+      network: 0n,
+    }));
+  }
+
+  async quoteTransfer(params: QuoteParams): Promise<FeeQuote> {
+    this.requireAsset(params.asset);
+    return buildFeeQuote(params, (gross) => ({
+      percentage: applyFeeRate(gross, this.fees.transferRate),
+      rent: this.fees.transferFixed,
+      network: 0n,
+    }));
+  }
+
+  async quoteFund(params: QuoteParams): Promise<FeeQuote> {
+    this.requireAsset(params.asset);
+    return buildFeeQuote(params, (gross) => ({
+      percentage: applyFeeRate(gross, this.fees.fundRate),
+      rent: this.fees.fundFixed,
+      network: 0n,
+    }));
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      assets: this.assets,
+      amountsHidden: false,
+      privateTransfers: this.privateTransfers,
+      requiredSignerFeatures: [],
+      accountKinds: this.accountKinds,
+    };
+  }
+
+  /**
+   * Shared withdraw / transfer path - validates and takes the amount out of the pool
+   */
+  private async debit(
+    operation: MockOperation,
+    asset: string,
+    rawAmount: string,
+    signal: AbortSignal | undefined,
+    onProcessing: () => void
+  ): Promise<string> {
+    const { symbol, amount } = this.validate(asset, rawAmount);
+    throwIfAborted(signal, false);
+
+    const available = this.balanceOf(symbol);
+    if (available < amount) {
+      throw new InsufficientShieldedBalance({
+        provider: this.name,
+        asset: symbol,
+        required: amount,
+        available,
+      });
+    }
+    this.takeFailure(operation);
+
+    onProcessing();
+    await this.wait();
+    throwIfAborted(signal, false);
+
+    this.balances.set(symbol, available - amount);
+    return this.nextTxHash();
+  }
+
+  private validate(asset: string, rawAmount: string): { symbol: string; amount: bigint } {
+    const capability = this.requireAsset(asset);
+    const amount = BigInt(rawAmount);
+    if (amount <= 0n) {
+      throw new Error(`Invalid amount: ${rawAmount}`);
+    }
+    if (capability.minimumAmount !== undefined && amount < capability.minimumAmount) {
+      throw new BelowProviderMinimum({
+        provider: this.name,
+        asset: capability.symbol,
+        amount,
+        minimum: capability.minimumAmount,
+      });
+    }
+    return { symbol: capability.symbol, amount };
+  }
+
+  private requireAsset(asset: string): AssetCapability {
+    const capability = findAssetCapability(this.getCapabilities(), asset);
+    if (!capability) {
+      throw new Error(`Unsupported asset: ${asset}`);
+    }
+    return capability;
+  }
+
+  private balanceOf(symbol: string): bigint {
+    return this.balances.get(symbol) ?? 0n;
+  }
+
+  private takeFailure(operation: MockOperation): void {
+    const [next, ...rest] = this.failures.get(operation) ?? [];
+    if (next) {
+      this.failures.set(operation, rest);
+      throw next;
+    }
+  }
+
+  private nextTxHash(): string {
+    this.txCounter++;
+    return `mock-tx-${this.txCounter}`;
+  }
+
+  private async wait(): Promise<void> {
+    if (this.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+    }
+  }
+}
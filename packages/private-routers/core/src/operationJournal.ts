@@ -0,0 +1,295 @@
+/**
+ * Lifecycle of a journaled operation
+ */
+export type OperationStatus = 'pending' | 'completed' | 'failed';
+
+/**
+ * Step data - strings only so records survive JSON storage
+ * (amounts in base units as string, like the rest of the SDK)
+ */
+export type OperationData = Record<string, string>;
+
+/**
+ * One recorded step of an operation
+ */
+export type OperationStep = {
+  /**
+   * Step name (e.g. 'quote', 'deposit-sent', 'status')
+   */
+  name: string;
+
+  /**
+   * Unix time (ms) the step was recorded
+   */
+  at: number;
+
+  data: OperationData;
+};
+
+/**
+ * Journaled multi-step operation
+ */
+export type OperationRecord = {
+  id: string;
+
+  /**
+   * Operation kind - selects the resumer (e.g. 'near-intents-swap')
+   */
+  kind: string;
+
+  status: OperationStatus;
+  createdAt: number;
+  updatedAt: number;
+  steps: OperationStep[];
+
+  /**
+   * All step data merged, later steps win
+   * Resumers read their state from here (depositAddress, txHash, ...)
+   */
+  data: OperationData;
+
+  error?: string;
+};
+
+/**
+ * Storage backend for the journal
+ * Async so IndexedDB / remote stores fit as well as localStorage
+ */
+export interface JournalStorage {
+  get(id: string): Promise<OperationRecord | undefined>;
+  set(record: OperationRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<OperationRecord[]>;
+}
+
+/**
+ * Continues an interrupted operation
+ * Records its own steps and completes / fails the operation through the journal -
+ * an operation it throws on stays as the resumer left it
+ */
+export type OperationResumer = (
+  operation: OperationRecord,
+  journal: OperationJournal
+) => Promise<void>;
+
+/**
+ * In-memory journal storage (lost on reload - for tests and Node scripts)
+ */
+export class MemoryJournalStorage implements JournalStorage {
+  private records = new Map<string, OperationRecord>();
+
+  async get(id: string): Promise<OperationRecord | undefined> {
+    const record = this.records.get(id);
+    return record ? cloneRecord(record) : undefined;
+  }
+
+  async set(record: OperationRecord): Promise<void> {
+    this.records.set(record.id, cloneRecord(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async list(): Promise<OperationRecord[]> {
+    return [...this.records.values()].map(cloneRecord);
+  }
+}
+
+/**
+ * Journal storage on a Web Storage object (localStorage / sessionStorage)
+ */
+export class WebStorageJournalStorage implements JournalStorage {
+  constructor(
+    private readonly storage: Storage,
+    private readonly prefix = 'privacy-router:operation:'
+  ) {}
+
+  async get(id: string): Promise<OperationRecord | undefined> {
+    const raw = this.storage.getItem(this.prefix + id);
+    return raw ? (JSON.parse(raw) as OperationRecord) : undefined;
+  }
+
+  async set(record: OperationRecord): Promise<void> {
+    this.storage.setItem(this.prefix + record.id, JSON.stringify(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.storage.removeItem(this.prefix + id);
+  }
+
+  async list(): Promise<OperationRecord[]> {
+    const records: OperationRecord[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (!key?.startsWith(this.prefix)) continue;
+      const raw = this.storage.getItem(key);
+      if (raw) records.push(JSON.parse(raw) as OperationRecord);
+    }
+    return records;
+  }
+}
+
+/**
+ * Operation Journal
+ * Durable record of multi-step flows (quote → pool withdraw → deposit → poll)
+ * so they can be resumed after a crash or page reload
+ *
+ * Flows call begin() / record() / complete() / fail() as they go;
+ * after a restart, list({ status: 'pending' }) and resume(id) pick them up
+ * through the resumer registered for the operation kind
+ */
+export class OperationJournal {
+  private readonly storage: JournalStorage;
+  private readonly now: () => number;
+  private readonly resumers = new Map<string, OperationResumer>();
+
+  constructor(options: { storage?: JournalStorage; now?: () => number } = {}) {
+    this.storage = options.storage ?? new MemoryJournalStorage();
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  /**
+   * Register how to continue operations of a kind
+   */
+  registerResumer(kind: string, resumer: OperationResumer): void {
+    this.resumers.set(kind, resumer);
+  }
+
+  /**
+   * Start journaling a new operation
+   */
+  async begin(kind: string, data: OperationData = {}): Promise<OperationRecord> {
+    const at = this.now();
+    const record: OperationRecord = {
+      id: generateOperationId(),
+      kind,
+      status: 'pending',
+      createdAt: at,
+      updatedAt: at,
+      steps: [{ name: 'begin', at, data }],
+      data: { ...data },
+    };
+    await this.storage.set(record);
+    return record;
+  }
+
+  /**
+   * Record a step and merge its data into the operation
+   */
+  async record(id: string, step: string, data: OperationData = {}): Promise<OperationRecord> {
+    return this.update(id, (record, at) => ({
+      ...record,
+      steps: [...record.steps, { name: step, at, data }],
+      data: { ...record.data, ...data },
+    }));
+  }
+
+  /**
+   * Mark the operation as finished
+   */
+  async complete(id: string, data: OperationData = {}): Promise<OperationRecord> {
+    return this.update(id, (record, at) => ({
+      ...record,
+      status: 'completed',
+      steps: [...record.steps, { name: 'completed', at, data }],
+      data: { ...record.data, ...data },
+    }));
+  }
+
+  /**
+   * Mark the operation as failed
+   */
+  async fail(id: string, error: string, data: OperationData = {}): Promise<OperationRecord> {
+    return this.update(id, (record, at) => ({
+      ...record,
+      status: 'failed',
+      error,
+      steps: [...record.steps, { name: 'failed', at, data: { ...data, error } }],
+      data: { ...record.data, ...data },
+    }));
+  }
+
+  /**
+   * Get an operation
+   */
+  async get(id: string): Promise<OperationRecord | undefined> {
+    return this.storage.get(id);
+  }
+
+  /**
+   * List operations, oldest first
+   */
+  async list(filter: { kind?: string; status?: OperationStatus } = {}): Promise<OperationRecord[]> {
+    const records = await this.storage.list();
+    return records
+      .filter((r) => filter.kind === undefined || r.kind === filter.kind)
+      .filter((r) => filter.status === undefined || r.status === filter.status)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Forget an operation
+   */
+  async remove(id: string): Promise<void> {
+    await this.storage.delete(id);
+  }
+
+  /**
+   * Continue a pending operation with the resumer registered for its kind
+   * Returns the operation as it stands when the resumer finishes. Errors are
+   * rethrown without touching the operation - the resumer decides whether a
+   * failure is final, e.g. not while funds may be in flight.
+   */
+  async resume(id: string): Promise<OperationRecord> {
+    const record = await this.requireRecord(id);
+    if (record.status !== 'pending') {
+      return record;
+    }
+
+    const resumer = this.resumers.get(record.kind);
+    if (!resumer) {
+      throw new Error(`No resumer registered for operation kind: ${record.kind}`);
+    }
+
+    await this.record(id, 'resumed');
+    await resumer(await this.requireRecord(id), this);
+    return this.requireRecord(id);
+  }
+
+  private async update(
+    id: string,
+    apply: (record: OperationRecord, at: number) => OperationRecord
+  ): Promise<OperationRecord> {
+    const record = await this.requireRecord(id);
+    const at = this.now();
+    const next = { ...apply(record, at), updatedAt: at };
+    await this.storage.set(next);
+    return next;
+  }
+
+  private async requireRecord(id: string): Promise<OperationRecord> {
+    const record = await this.storage.get(id);
+    if (!record) {
+      throw new Error(`Unknown operation: ${id}`);
+    }
+    return record;
+  }
+}
+
+/**
+ * Random operation id (crypto.randomUUID when available)
+ */
+function generateOperationId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Copy a record so callers cannot mutate stored state
+ */
+function cloneRecord(record: OperationRecord): OperationRecord {
+  return JSON.parse(JSON.stringify(record)) as OperationRecord;
+}
@@ -0,0 +1,237 @@
+import type { RouteOperation } from './types';
+
+/**
+ * Operation as seen by the analyzer - planned or already executed
+ */
+export type AnalyzedOperation = {
+  kind: RouteOperation;
+
+  /**
+   * Provider name (operations on different providers are still compared)
+   */
+  provider?: string;
+
+  asset: string;
+
+  /**
+   * Amount in base units
+   */
+  amount: bigint;
+
+  /**
+   * Unix time (ms) the operation runs / ran at
+   */
+  at: number;
+
+  /**
+   * Address the funds came from (fund)
+   */
+  from?: string;
+
+  /**
+   * Address the funds go to (withdraw / transfer)
+   */
+  to?: string;
+};
+
+/**
+ * Linkability pattern a finding reports
+ * - matching-amount: outflow matches an inflow amount
+ * - short-time-gap: outflow follows an inflow of the same asset quickly
+ * - self-withdrawal: outflow goes back to an address that funded the pool
+ * - reused-destination: outflow goes to an address used before
+ */
+export type PrivacyFindingKind =
+  | 'matching-amount'
+  | 'short-time-gap'
+  | 'self-withdrawal'
+  | 'reused-destination';
+
+export type PrivacyFindingSeverity = 'low' | 'medium' | 'high';
+
+/**
+ * One linkability risk
+ */
+export type PrivacyFinding = {
+  kind: PrivacyFindingKind;
+  severity: PrivacyFindingSeverity;
+
+  /**
+   * Risk score 0-100
+   */
+  score: number;
+
+  message: string;
+
+  /**
+   * Index of the planned operation the finding is about
+   */
+  operation: number;
+
+  /**
+   * Operation it links to
+   */
+  related?: { source: 'planned' | 'history'; index: number };
+};
+
+/**
+ * Result of analyzePrivacy()
+ */
+export type PrivacyReport = {
+  /**
+   * Combined risk 0-100 (0 when there are no findings)
+   */
+  score: number;
+
+  severity: PrivacyFindingSeverity | 'none';
+
+  /**
+   * Findings, highest score first
+   */
+  findings: PrivacyFinding[];
+};
+
+export type PrivacyAnalyzerOptions = {
+  /**
+   * Relative difference (basis points) under which amounts count as matching
+   * Default 100 (1%) - enough to cover typical pool fees
+   */
+  amountToleranceBps?: number;
+
+  /**
+   * Gaps below this count as short (default 24 hours)
+   */
+  minTimeGapMs?: number;
+};
+
+const DEFAULT_AMOUNT_TOLERANCE_BPS = 100;
+const DEFAULT_MIN_TIME_GAP_MS = 24 * 60 * 60 * 1000;
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Check planned operations for linkability before running them
+ * Each outflow (withdraw / transfer) is compared with the inflows and
+ * outflows that came before it, in the history and earlier in the plan.
+ * Nothing is blocked - the UI decides what to show and whether to confirm.
+ */
+export function analyzePrivacy(
+  plannedOps: AnalyzedOperation[],
+  history: AnalyzedOperation[] = [],
+  options: PrivacyAnalyzerOptions = {}
+): PrivacyReport {
+  const toleranceBps = BigInt(options.amountToleranceBps ?? DEFAULT_AMOUNT_TOLERANCE_BPS);
+  const minTimeGapMs = options.minTimeGapMs ?? DEFAULT_MIN_TIME_GAP_MS;
+
+  const findings: PrivacyFinding[] = [];
+
+  plannedOps.forEach((op, index) => {
+    if (op.kind === 'fund') return;
+
+    const earlier = [
+      ...history.map((prior, i) => ({ prior, related: { source: 'history' as const, index: i } })),
+      ...plannedOps
+        .slice(0, index)
+        .map((prior, i) => ({ prior, related: { source: 'planned' as const, index: i } })),
+    ].filter(({ prior }) => prior.at <= op.at);
+
+    const inflows = earlier.filter(({ prior }) => prior.kind === 'fund' && prior.asset === op.asset);
+    const outflows = earlier.filter(({ prior }) => prior.kind !== 'fund');
+
+    // Closest amount match
+    const match = inflows
+      .map((entry) => ({ ...entry, diff: relativeDiffBps(op.amount, entry.prior.amount) }))
+      .filter((entry) => entry.diff <= toleranceBps)
+      .sort((a, b) => (a.diff < b.diff ? -1 : a.diff > b.diff ? 1 : 0))[0];
+    if (match) {
+      const exact = match.diff === 0n;
+      findings.push({
+        kind: 'matching-amount',
+        ...scored(exact ? 80 : 60),
+        message: exact
+          ? `Amount equals an earlier deposit of ${op.asset}`
+          : `Amount is within ${formatBps(toleranceBps)} of an earlier deposit of ${op.asset}`,
+        operation: index,
+        related: match.related,
+      });
+    }
+
+    // Most recent inflow of the same asset
+    const latest = inflows.sort((a, b) => b.prior.at - a.prior.at)[0];
+    if (latest && op.at - latest.prior.at < minTimeGapMs) {
+      const gapMs = op.at - latest.prior.at;
+      findings.push({
+        kind: 'short-time-gap',
+        ...scored(gapMs < ONE_HOUR_MS ? 70 : 40),
+        message: `Runs ${formatDuration(gapMs)} after a deposit of ${op.asset}`,
+        operation: index,
+        related: latest.related,
+      });
+    }
+
+    if (op.to) {
+      const funder = earlier.find(({ prior }) => prior.kind === 'fund' && prior.from === op.to);
+      if (funder) {
+        findings.push({
+          kind: 'self-withdrawal',
+          ...scored(90),
+          message: 'Destination is an address that funded the pool',
+          operation: index,
+          related: funder.related,
+        });
+      }
+
+      const reused = outflows.find(({ prior }) => prior.to === op.to);
+      if (reused) {
+        findings.push({
+          kind: 'reused-destination',
+          ...scored(50),
+          message: 'Destination was already used by an earlier withdrawal',
+          operation: index,
+          related: reused.related,
+        });
+      }
+    }
+  });
+
+  findings.sort((a, b) => b.score - a.score);
+
+  // Independent risks combine like probabilities: 1 - Π(1 - s)
+  const safe = findings.reduce((product, f) => product * (1 - f.score / 100), 1);
+  const score = Math.round((1 - safe) * 100);
+
+  return {
+    score,
+    severity: findings.length === 0 ? 'none' : severityOf(score),
+    findings,
+  };
+}
+
+function scored(score: number): { score: number; severity: PrivacyFindingSeverity } {
+  return { score, severity: severityOf(score) };
+}
+
+function severityOf(score: number): PrivacyFindingSeverity {
+  if (score >= 70) return 'high';
+  if (score >= 40) return 'medium';
+  return 'low';
+}
+
+/**
+ * |a - b| relative to the larger amount, in basis points
+ */
+function relativeDiffBps(a: bigint, b: bigint): bigint {
+  const larger = a > b ? a : b;
+  if (larger === 0n) return 0n;
+  const diff = a > b ? a - b : b - a;
+  return (diff * 10_000n) / larger;
+}
+
+function formatBps(bps: bigint): string {
+  return `${Number(bps) / 100}%`;
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 60_000) return `${Math.round(ms / 1000)}s`;
+  if (ms < ONE_HOUR_MS) return `${Math.round(ms / 60_000)}min`;
+  return `${Math.round(ms / ONE_HOUR_MS)}h`;
+}
@@ -0,0 +1,333 @@
+import type { Account } from '@privacy-router-sdk/signers-core';
+import type {
+  AccountKind,
+  FeeQuote,
+  FundingStatus,
+  PrivacyProvider,
+  QuoteParams,
+  RouteOperation,
+  RouteRejection,
+  RouteRequest,
+  RouteSelection,
+  RouterProviderEntry,
+  TransferResult,
+  TransferStatus,
+  TransferType,
+  WithdrawDestination,
+  WithdrawStatus,
+} from './types';
+import { checkCapabilities } from './capabilities';
+import { NoProviderAvailable, throwIfAborted } from './errors';
+
+/**
+ * Privacy Router
+ * Picks the best registered PrivacyProvider for a request and delegates to it
+ *
+ * Selection:
+ * 1. Drop providers that do not support the asset / amount / account kind
+ * 2. For transfers, drop providers without private transfer support
+ * 3. For withdrawals and transfers, drop providers whose private balance does
+ *    not cover the amount (gross - fees are taken out of it)
+ * 4. Pick the provider with the lowest quoted fee
+ *    (falls back to registration order when no fees can be estimated)
+ */
+export class PrivacyRouter {
+  private entries: RouterProviderEntry[] = [];
+
+  constructor(entries: RouterProviderEntry[] = []) {
+    entries.forEach((entry) => this.register(entry));
+  }
+
+  /**
+   * Register a provider
+   * Registration order is used as tie-breaker
+   */
+  register(entry: RouterProviderEntry): void {
+    if (this.entries.some((e) => e.provider.name === entry.provider.name)) {
+      throw new Error(`Provider already registered: ${entry.provider.name}`);
+    }
+    this.entries.push(entry);
+  }
+
+  /**
+   * Get all registered providers
+   */
+  getProviders(): PrivacyProvider[] {
+    return this.entries.map((entry) => entry.provider);
+  }
+
+  /**
+   * Select the provider for a request without executing anything
+   */
+  async selectProvider(
+    request: RouteRequest,
+    operation: RouteOperation = 'fund'
+  ): Promise<RouteSelection> {
+    const rejected: RouteRejection[] = [];
+    let candidates: RouterProviderEntry[] = [];
+
+    for (const entry of this.entries) {
+      const supported =
+        operation === 'transfer' && !this.supportsTransfer(entry)
+          ? 'Private transfers not supported'
+          : this.supports(entry, request);
+      if (supported === true) {
+        candidates.push(entry);
+      } else {
+        rejected.push({ name: entry.provider.name, reason: supported });
+      }
+    }
+
+    if (operation !== 'fund') {
+      candidates = await this.filterByBalance(candidates, request, operation, rejected);
+    }
+
+    const [only] = candidates;
+    if (!only) {
+      throw new NoProviderAvailable({ ...request, rejected });
+    }
+
+    if (candidates.length === 1) {
+      return { provider: only.provider, reason: { type: 'only-supported' }, rejected };
+    }
+
+    const estimates = await Promise.all(
+      candidates.map(async (entry) => {
+        try {
+          return { entry, fee: await this.estimateFee(entry, request, operation), error: null };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          return { entry, fee: null, error: `Fee estimation failed: ${message}` };
+        }
+      })
+    );
+
+    let best: { entry: RouterProviderEntry; fee: bigint } | null = null;
+    for (const estimate of estimates) {
+      if (estimate.fee !== null && (best === null || estimate.fee < best.fee)) {
+        best = { entry: estimate.entry, fee: estimate.fee };
+      }
+    }
+
+    if (!best) {
+      // No fee estimates - keep registration order
+      candidates.slice(1).forEach((entry) => {
+        rejected.push({ name: entry.provider.name, reason: 'Registered after preferred provider' });
+      });
+      return { provider: only.provider, reason: { type: 'first-supported' }, rejected };
+    }
+
+    for (const estimate of estimates) {
+      if (estimate.entry === best.entry) continue;
+      rejected.push({
+        name: estimate.entry.provider.name,
+        reason: estimate.error ?? 'Higher fee',
+        ...(estimate.fee !== null ? { fee: estimate.fee } : {}),
+      });
+    }
+
+    return {
+      provider: best.entry.provider,
+      reason: { type: 'lowest-fee', fee: best.fee },
+      rejected,
+    };
+  }
+
+  /**
+   * Fund the privacy pool through the selected provider
+   * Returns the selection so callers can show why a provider was used
+   */
+  async fund(params: RouteRequest & {
+    sourceAccount: Account;
+    onRouteSelected?: (selection: RouteSelection) => void;
+    onStatusChange?: (status: FundingStatus) => void;
+    signal?: AbortSignal;
+  }): Promise<RouteSelection> {
+    const { sourceAccount, asset, amount, onRouteSelected, onStatusChange, signal } = params;
+    const selection = await this.selectProvider(params);
+    throwIfAborted(signal, false);
+    onRouteSelected?.(selection);
+
+    await selection.provider.fund({ sourceAccount, asset, amount, onStatusChange, signal });
+    return selection;
+  }
+
+  /**
+   * Withdraw through the cheapest provider holding enough private balance
+   */
+  async withdraw(params: RouteRequest & {
+    destination: WithdrawDestination;
+    onRouteSelected?: (selection: RouteSelection) => void;
+    onStatusChange?: (status: WithdrawStatus) => void;
+    signal?: AbortSignal;
+    strict?: boolean;
+  }): Promise<RouteSelection> {
+    const { destination, asset, amount, onRouteSelected, onStatusChange, signal, strict } = params;
+    const selection = await this.selectProvider(params, 'withdraw');
+    throwIfAborted(signal, false);
+    onRouteSelected?.(selection);
+
+    await selection.provider.withdraw({
+      destination,
+      asset,
+      amount,
+      onStatusChange,
+      signal,
+      strict,
+    });
+    return selection;
+  }
+
+  /**
+   * Send privately through the cheapest provider supporting pool-to-pool transfers
+   */
+  async transfer(params: RouteRequest & {
+    recipient: string;
+    type?: TransferType;
+    onRouteSelected?: (selection: RouteSelection) => void;
+    onStatusChange?: (status: TransferStatus) => void;
+    signal?: AbortSignal;
+  }): Promise<RouteSelection & { result: TransferResult }> {
+    const { recipient, asset, amount, type, onRouteSelected, onStatusChange, signal } = params;
+    const selection = await this.selectProvider(params, 'transfer');
+    throwIfAborted(signal, false);
+    onRouteSelected?.(selection);
+
+    const { provider } = selection;
+    if (!provider.transfer) {
+      throw new Error(`${provider.name} does not support private transfers`);
+    }
+
+    const result = await provider.transfer({
+      recipient,
+      asset,
+      amount,
+      type,
+      onStatusChange,
+      signal,
+    });
+    return { ...selection, result };
+  }
+
+  /**
+   * Get private balances of every provider supporting the asset / account kind
+   */
+  async getPrivateBalances(request: {
+    asset: string;
+    accountKind: AccountKind;
+  }): Promise<{ name: string; balance: bigint }[]> {
+    const supported = this.entries.filter(
+      (entry) => this.supports(entry, { ...request, amount: '0' }) === true
+    );
+
+    return Promise.all(
+      supported.map(async (entry) => ({
+        name: entry.provider.name,
+        balance: await entry.provider.getPrivateBalance(request.asset),
+      }))
+    );
+  }
+
+  /**
+   * Check support via the entry hook, falling back to provider capabilities
+   */
+  private supports(entry: RouterProviderEntry, request: RouteRequest): true | string {
+    if (entry.supports) {
+      return entry.supports(request);
+    }
+    return checkCapabilities(entry.provider.getCapabilities(), request);
+  }
+
+  /**
+   * Check the provider implements transfer and advertises it
+   */
+  private supportsTransfer(entry: RouterProviderEntry): boolean {
+    return (
+      typeof entry.provider.transfer === 'function' &&
+      entry.provider.getCapabilities().privateTransfers
+    );
+  }
+
+  /**
+   * Estimate via the entry hook, falling back to provider quotes
+   */
+  private async estimateFee(
+    entry: RouterProviderEntry,
+    request: RouteRequest,
+    operation: RouteOperation
+  ): Promise<bigint> {
+    if (entry.estimateFee) {
+      return entry.estimateFee(request, operation);
+    }
+
+    const params = { asset: request.asset, amount: request.amount, mode: 'exactIn' as const };
+    const quote =
+      operation === 'fund'
+        ? await entry.provider.quoteFund(params)
+        : await this.quoteFromPool(entry.provider, operation, params);
+    return quote.totalFee;
+  }
+
+  /**
+   * Quote an operation leaving the pool - transfers have their own fee when
+   * the provider quotes them
+   */
+  private quoteFromPool(
+    provider: PrivacyProvider,
+    operation: RouteOperation,
+    params: QuoteParams
+  ): Promise<FeeQuote> {
+    return operation === 'transfer' && provider.quoteTransfer
+      ? provider.quoteTransfer(params)
+      : provider.quoteWithdraw(params);
+  }
+
+  /**
+   * Keep only candidates whose private balance covers the amount
+   * Amounts leaving the pool are gross - fees come out of them - so the
+   * required balance is the amountIn of the same exactIn quote estimateFee uses
+   */
+  private async filterByBalance(
+    candidates: RouterProviderEntry[],
+    request: RouteRequest,
+    operation: RouteOperation,
+    rejected: RouteRejection[]
+  ): Promise<RouterProviderEntry[]> {
+    const checks = await Promise.all(
+      candidates.map(async (entry) => {
+        try {
+          const [balance, quote] = await Promise.all([
+            entry.provider.getPrivateBalance(request.asset),
+            this.quoteFromPool(entry.provider, operation, {
+              asset: request.asset,
+              amount: request.amount,
+              mode: 'exactIn',
+            }),
+          ]);
+          return { balance, required: quote.amountIn };
+        } catch {
+          return null;
+        }
+      })
+    );
+
+    return candidates.filter((entry, i) => {
+      const check = checks[i];
+      if (!check) {
+        rejected.push({
+          name: entry.provider.name,
+          reason: 'Failed to fetch private balance or quote',
+        });
+        return false;
+      }
+      if (check.balance < check.required) {
+        rejected.push({
+          name: entry.provider.name,
+          reason: `Insufficient private balance (${check.balance}, required ${check.required})`,
+        });
+        return false;
+      }
+      return true;
+    });
+  }
+}
@@ -0,0 +1,112 @@
+import type { FeeBreakdown, FeeQuote, FeeRate, QuoteParams } from './types';
+
+/**
+ * Convert a decimal fee rate (e.g. 0.0035) to an exact fraction
+ * Uses the decimal representation, so 0.0035 becomes 35 / 10000
+ */
+export function feeRateFromDecimal(rate: number): FeeRate {
+  if (!Number.isFinite(rate) || rate < 0 || rate >= 1) {
+    throw new Error(`Invalid fee rate: ${rate}`);
+  }
+
+  const [whole = '0', fraction = ''] = rate.toFixed(12).replace(/0+$/, '').split('.');
+  const denominator = 10n ** BigInt(fraction.length);
+
+  return {
+    numerator: BigInt(whole + fraction),
+    denominator,
+  };
+}
+
+/**
+ * Convert a decimal token amount (e.g. 0.006 SOL) to base units
+ * Rounds to the nearest base unit
+ */
+export function decimalToBaseUnits(amount: number, decimals: number): bigint {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  const [whole = '0', fraction = ''] = amount.toFixed(Math.min(decimals, 20)).split('.');
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+/**
+ * Percentage fee of an amount
+ * Rounds down by default (SDK formulas floor), 'ceil' for conservative estimates
+ */
+export function applyFeeRate(
+  amount: bigint,
+  rate: FeeRate,
+  rounding: 'floor' | 'ceil' = 'floor'
+): bigint {
+  const product = amount * rate.numerator;
+  const fee = product / rate.denominator;
+  return rounding === 'ceil' && product % rate.denominator !== 0n ? fee + 1n : fee;
+}
+
+/**
+ * Find the minimal gross amount whose net (gross - fee) covers the target
+ * Requires gross - fee(gross) to be non-decreasing, which holds for any
+ * rate below 100% with a fixed component
+ */
+export function solveGrossAmount(net: bigint, feeOf: (gross: bigint) => bigint): bigint {
+  const netOf = (gross: bigint) => gross - feeOf(gross);
+
+  let low = net;
+  if (netOf(low) >= net) {
+    return low;
+  }
+
+  // Grow the upper bound until it covers the target
+  let high = net + feeOf(net) + 1n;
+  while (netOf(high) < net) {
+    low = high;
+    high *= 2n;
+  }
+
+  // Invariant: netOf(low) < net <= netOf(high)
+  while (high - low > 1n) {
+    const mid = (low + high) / 2n;
+    if (netOf(mid) >= net) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  return high;
+}
+
+/**
+ * Build a FeeQuote from a fee model
+ * feesOf returns the fee components charged on a gross amount
+ */
+export function buildFeeQuote(
+  params: QuoteParams,
+  feesOf: (gross: bigint) => FeeBreakdown
+): FeeQuote {
+  const total = (fees: FeeBreakdown) => fees.percentage + fees.rent + fees.network;
+  const amount = BigInt(params.amount);
+
+  if (amount < 0n) {
+    throw new Error(`Invalid amount: ${params.amount}`);
+  }
+
+  const amountIn =
+    params.mode === 'exactIn'
+      ? amount
+      : solveGrossAmount(amount, (gross) => total(feesOf(gross)));
+  const fees = feesOf(amountIn);
+  const totalFee = total(fees);
+  const amountOut = amountIn > totalFee ? amountIn - totalFee : 0n;
+
+  return {
+    asset: params.asset,
+    mode: params.mode,
+    amountIn,
+    amountOut,
+    fees,
+    totalFee,
+  };
+}
@@ -1,4 +1,5 @@
 import type { Account } from '@privacy-router-sdk/signers-core';
+import type { ErrorCode } from './errors';
 
 /**
  * Withdrawal destination - address to receive funds
@@ -7,25 +8,75 @@ export type WithdrawDestination = {
   address: string;
 };
 
+/**
+ * Steps of a zero-knowledge operation, in order
+ * - loading-circuit: downloading the proving circuit
+ * - fetching-utxos: syncing and decrypting the wallet's notes
+ * - proving: generating the proof
+ * - relaying: submitting the transaction and waiting for it to land
+ */
+export type ProvingStep = 'loading-circuit' | 'fetching-utxos' | 'proving' | 'relaying';
+
+/**
+ * Progress within a depositing / processing stage
+ * Providers that generate proofs repeat the stage event as steps advance
+ */
+export type ProvingProgress = {
+  step: ProvingStep;
+
+  /**
+   * Progress of the whole stage, 0-100 - never decreases
+   */
+  percent: number;
+};
+
 /**
  * Funding status updates
  */
 export type FundingStatus =
   | { stage: 'preparing' }
-  | { stage: 'depositing'; txHash?: string }
+  | { stage: 'depositing'; txHash?: string; progress?: ProvingProgress }
   | { stage: 'confirming'; txHash: string }
   | { stage: 'completed'; txHash: string }
-  | { stage: 'failed'; error: string };
+  | { stage: 'failed'; error: string; code?: ErrorCode };
 
 /**
  * Withdrawal status updates
  */
 export type WithdrawStatus =
   | { stage: 'preparing' }
-  | { stage: 'processing' }
+  | { stage: 'processing'; progress?: ProvingProgress }
   | { stage: 'confirming'; txHash?: string }
   | { stage: 'completed'; txHash?: string }
-  | { stage: 'failed'; error: string };
+  | { stage: 'failed'; error: string; code?: ErrorCode };
+
+/**
+ * Private transfer status updates
+ */
+export type TransferStatus =
+  | { stage: 'preparing' }
+  | { stage: 'processing' }
+  | { stage: 'completed'; txHash: string }
+  | { stage: 'failed'; error: string; code?: ErrorCode };
+
+/**
+ * Private transfer kind
+ * - internal: recipient receives into their shielded balance
+ * - external: recipient receives on-chain, sender stays anonymous
+ */
+export type TransferType = 'internal' | 'external';
+
+/**
+ * Result of a private transfer
+ */
+export type TransferResult = {
+  txHash: string;
+
+  /**
+   * Whether the amount is hidden on-chain
+   */
+  amountHidden: boolean;
+};
 
 /**
  * Privacy provider interface
@@ -36,24 +87,296 @@ export interface PrivacyProvider {
 
   /**
    * Fund the privacy pool with crypto
+   * @param asset - Asset symbol (e.g. 'SOL', 'USDC')
+   * @param amount - Amount in base units as string
+   * @param signal - Rejects with AbortedError at the next safe point once aborted
    */
   fund(params: {
     sourceAccount: Account;
+    asset: string;
     amount: string;
     onStatusChange?: (status: FundingStatus) => void;
+    signal?: AbortSignal;
   }): Promise<void>;
 
   /**
    * Withdraw from the privacy pool
+   * @param asset - Asset symbol (e.g. 'SOL', 'USDC')
+   * @param amount - Amount in base units as string
+   * @param signal - Rejects with AbortedError at the next safe point once aborted
+   * @param strict - Reject with InsufficientShieldedBalance instead of withdrawing
+   *   less than amount (providers that never withdraw partially ignore it)
    */
   withdraw(params: {
     destination: WithdrawDestination;
+    asset: string;
     amount: string;
     onStatusChange?: (status: WithdrawStatus) => void;
+    signal?: AbortSignal;
+    strict?: boolean;
   }): Promise<void>;
 
   /**
-   * Get current balance in the privacy pool
+   * Send from the privacy pool to another user without withdrawing first
+   * Only present when capabilities.privateTransfers is true
+   * @param asset - Asset symbol (e.g. 'SOL', 'USDC')
+   * @param amount - Amount in base units as string
+   * @param signal - Rejects with AbortedError at the next safe point once aborted
+   */
+  transfer?(params: {
+    recipient: string;
+    asset: string;
+    amount: string;
+    type?: TransferType;
+    onStatusChange?: (status: TransferStatus) => void;
+    signal?: AbortSignal;
+  }): Promise<TransferResult>;
+
+  /**
+   * Get current balance of an asset in the privacy pool (base units)
    */
-  getPrivateBalance(): Promise<bigint>;
+  getPrivateBalance(asset: string): Promise<bigint>;
+
+  /**
+   * Get all shielded balances, keyed by asset symbol (base units)
+   */
+  getPrivateBalances(): Promise<Record<string, bigint>>;
+
+  /**
+   * Quote fees for a withdrawal
+   * - exactIn: amount is what leaves the pool
+   * - exactOut: amount is what must arrive at the destination
+   */
+  quoteWithdraw(params: QuoteParams): Promise<FeeQuote>;
+
+  /**
+   * Quote fees for a private transfer
+   * Only present alongside transfer() - quoted like quoteWithdraw, with
+   * amountOut what the recipient receives
+   */
+  quoteTransfer?(params: QuoteParams): Promise<FeeQuote>;
+
+  /**
+   * Quote fees for funding the pool
+   * - exactIn: amount is what leaves the source account
+   * - exactOut: amount is what must land in the pool
+   */
+  quoteFund(params: QuoteParams): Promise<FeeQuote>;
+
+  /**
+   * Describe what this provider can do
+   * Lets routers and UIs decide without inspecting concrete classes
+   */
+  getCapabilities(): ProviderCapabilities;
 }
+
+/**
+ * Which side of an operation the quoted amount is fixed on
+ */
+export type QuoteMode = 'exactIn' | 'exactOut';
+
+/**
+ * Quote request
+ */
+export type QuoteParams = {
+  /**
+   * Asset symbol (e.g. 'SOL', 'USDC')
+   */
+  asset: string;
+
+  /**
+   * Amount in base units as string
+   */
+  amount: string;
+
+  mode: QuoteMode;
+};
+
+/**
+ * Fee components in base units of the quoted asset
+ */
+export type FeeBreakdown = {
+  /**
+   * Fee proportional to the amount
+   */
+  percentage: bigint;
+
+  /**
+   * Fixed fee (account rent, relayer fee)
+   */
+  rent: bigint;
+
+  /**
+   * Network (transaction) fee charged in the quoted asset
+   */
+  network: bigint;
+};
+
+/**
+ * Fee quote - comparable across providers
+ * All amounts in base units of the quoted asset
+ */
+export type FeeQuote = {
+  asset: string;
+  mode: QuoteMode;
+
+  /**
+   * Gross amount leaving the source
+   */
+  amountIn: bigint;
+
+  /**
+   * Net amount arriving at the destination
+   */
+  amountOut: bigint;
+
+  fees: FeeBreakdown;
+
+  /**
+   * Sum of all fee components (amountIn - amountOut)
+   */
+  totalFee: bigint;
+};
+
+/**
+ * Fee rate as a fraction, so fee math stays in bigint
+ */
+export type FeeRate = {
+  numerator: bigint;
+  denominator: bigint;
+};
+
+/**
+ * Kind of account a request originates from
+ * - mnemonic: keypair derived from a seed phrase
+ * - wallet-adapter: browser extension wallet
+ * - ledger: hardware wallet
+ */
+export type AccountKind = 'mnemonic' | 'wallet-adapter' | 'ledger';
+
+/**
+ * Signer feature a provider needs from the account
+ */
+export type SignerFeature = 'signMessage' | 'signTransaction';
+
+/**
+ * Asset supported by a provider
+ */
+export type AssetCapability = {
+  /**
+   * Asset symbol (e.g. 'SOL', 'USDC')
+   */
+  symbol: string;
+
+  /**
+   * Decimals of the asset
+   */
+  decimals: number;
+
+  /**
+   * Minimum amount per operation in base units (if any)
+   */
+  minimumAmount?: bigint;
+};
+
+/**
+ * Capability descriptor of a privacy provider
+ */
+export type ProviderCapabilities = {
+  /**
+   * Assets the provider can shield
+   */
+  assets: AssetCapability[];
+
+  /**
+   * Whether amounts are hidden on-chain (e.g. via range proofs)
+   */
+  amountsHidden: boolean;
+
+  /**
+   * Whether shielded pool-to-pool transfers are available
+   */
+  privateTransfers: boolean;
+
+  /**
+   * Signer features the source account must provide
+   */
+  requiredSignerFeatures: SignerFeature[];
+
+  /**
+   * Account kinds the provider works with
+   */
+  accountKinds: AccountKind[];
+};
+
+/**
+ * Routing request - what the caller wants to move through a privacy pool
+ */
+export type RouteRequest = {
+  /**
+   * Asset symbol (e.g. 'SOL', 'USDC')
+   */
+  asset: string;
+
+  /**
+   * Amount in base units as string
+   */
+  amount: string;
+
+  /**
+   * Kind of account that will sign
+   */
+  accountKind: AccountKind;
+};
+
+/**
+ * Operation the router selects a provider for
+ */
+export type RouteOperation = 'fund' | 'withdraw' | 'transfer';
+
+/**
+ * Provider registration for the router
+ */
+export type RouterProviderEntry = {
+  provider: PrivacyProvider;
+
+  /**
+   * Whether the provider can serve the request
+   * Return a string to reject with a reason, true to accept
+   * Defaults to checking the provider's capabilities
+   */
+  supports?: (request: RouteRequest) => true | string;
+
+  /**
+   * Estimate the total fee (base units) for the request
+   * Defaults to the provider's quoteFund / quoteWithdraw (exactIn)
+   * Transfers use quoteTransfer, or are quoted as withdrawals without one
+   */
+  estimateFee?: (request: RouteRequest, operation: RouteOperation) => Promise<bigint>;
+};
+
+/**
+ * Why the router picked a provider
+ */
+export type RouteSelectionReason =
+  | { type: 'only-supported' }
+  | { type: 'lowest-fee'; fee: bigint }
+  | { type: 'first-supported' };
+
+/**
+ * Provider the router did not pick, and why
+ */
+export type RouteRejection = {
+  name: string;
+  reason: string;
+  fee?: bigint;
+};
+
+/**
+ * Result of provider selection
+ */
+export type RouteSelection = {
+  provider: PrivacyProvider;
+  reason: RouteSelectionReason;
+  rejected: RouteRejection[];
+};
@@ -0,0 +1,421 @@
+import { getErrorCode } from './errors';
+import type { ErrorCode } from './errors';
+import type { PrivacyProvider, WithdrawDestination } from './types';
+
+/**
+ * Time source - swap in a fake one to drive the scheduler in tests
+ */
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Clock backed by Date.now and the global timers
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Lifecycle of a scheduled withdrawal
+ * - executing: withdraw() was called and has not returned yet
+ */
+export type ScheduledWithdrawalStatus =
+  | 'pending'
+  | 'executing'
+  | 'executed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Withdrawal queued for later execution
+ */
+export type ScheduledWithdrawal = {
+  id: string;
+
+  /**
+   * Provider name the withdrawal runs through
+   */
+  provider: string;
+
+  asset: string;
+
+  /**
+   * Amount in base units as string
+   */
+  amount: string;
+
+  destination: WithdrawDestination;
+
+  /**
+   * Unix time (ms) the withdrawal runs at
+   */
+  executeAt: number;
+
+  createdAt: number;
+  status: ScheduledWithdrawalStatus;
+
+  /**
+   * Unix time (ms) the withdrawal finished (executed or failed)
+   */
+  finishedAt?: number;
+
+  txHash?: string;
+  error?: string;
+  code?: ErrorCode;
+};
+
+/**
+ * When a withdrawal should run
+ * - delay: after minMs, or at a random point between minMs and maxMs from now
+ * - window: at a random point between two Unix times (ms)
+ */
+export type WithdrawalTiming =
+  | { delay: { minMs: number; maxMs?: number } }
+  | { window: { start: number; end: number } };
+
+/**
+ * Storage backend for scheduled withdrawals
+ */
+export interface ScheduleStorage {
+  get(id: string): Promise<ScheduledWithdrawal | undefined>;
+  set(job: ScheduledWithdrawal): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<ScheduledWithdrawal[]>;
+}
+
+/**
+ * In-memory schedule storage (lost on reload)
+ */
+export class MemoryScheduleStorage implements ScheduleStorage {
+  private jobs = new Map<string, ScheduledWithdrawal>();
+
+  async get(id: string): Promise<ScheduledWithdrawal | undefined> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : undefined;
+  }
+
+  async set(job: ScheduledWithdrawal): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+
+  async list(): Promise<ScheduledWithdrawal[]> {
+    return [...this.jobs.values()].map((job) => ({ ...job }));
+  }
+}
+
+/**
+ * Schedule storage on a Web Storage object (localStorage / sessionStorage)
+ */
+export class WebStorageScheduleStorage implements ScheduleStorage {
+  constructor(
+    private readonly storage: Storage,
+    private readonly prefix = 'privacy-router:scheduled-withdrawal:'
+  ) {}
+
+  async get(id: string): Promise<ScheduledWithdrawal | undefined> {
+    const raw = this.storage.getItem(this.prefix + id);
+    return raw ? (JSON.parse(raw) as ScheduledWithdrawal) : undefined;
+  }
+
+  async set(job: ScheduledWithdrawal): Promise<void> {
+    this.storage.setItem(this.prefix + job.id, JSON.stringify(job));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.storage.removeItem(this.prefix + id);
+  }
+
+  async list(): Promise<ScheduledWithdrawal[]> {
+    const jobs: ScheduledWithdrawal[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (!key?.startsWith(this.prefix)) continue;
+      const raw = this.storage.getItem(key);
+      if (raw) jobs.push(JSON.parse(raw) as ScheduledWithdrawal);
+    }
+    return jobs;
+  }
+}
+
+/**
+ * setTimeout overflows above ~24.8 days - longer waits are re-armed
+ */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Withdraw Scheduler
+ * Queues withdrawals to run after a delay or at a random time in a window,
+ * so funding and withdrawing are not seconds apart
+ *
+ * Jobs persist in the storage backend; call start() after a reload to re-arm
+ * pending jobs. A job found 'executing' on start() was interrupted mid-flight
+ * and is marked failed - check the balance before scheduling it again.
+ */
+export class WithdrawScheduler {
+  private readonly providers: Map<string, PrivacyProvider>;
+  private readonly storage: ScheduleStorage;
+  private readonly clock: Clock;
+  private readonly random: () => number;
+  private readonly onJobChange?: (job: ScheduledWithdrawal) => void;
+  private readonly timers = new Map<string, unknown>();
+  private runQueue: Promise<unknown> = Promise.resolve();
+  private running = false;
+
+  constructor(options: {
+    providers: PrivacyProvider[];
+    storage?: ScheduleStorage;
+    clock?: Clock;
+    /**
+     * Random source in [0, 1) - inject for reproducible timing
+     */
+    random?: () => number;
+    onJobChange?: (job: ScheduledWithdrawal) => void;
+  }) {
+    this.providers = new Map(options.providers.map((p) => [p.name, p]));
+    this.storage = options.storage ?? new MemoryScheduleStorage();
+    this.clock = options.clock ?? systemClock;
+    this.random = options.random ?? Math.random;
+    this.onJobChange = options.onJobChange;
+  }
+
+  /**
+   * Load jobs from storage and arm timers for pending ones
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    for (const job of await this.storage.list()) {
+      if (job.status === 'executing') {
+        await this.save({
+          ...job,
+          status: 'failed',
+          finishedAt: this.clock.now(),
+          error: 'Interrupted while executing - funds may have moved',
+        });
+      } else if (job.status === 'pending') {
+        this.arm(job);
+      }
+    }
+  }
+
+  /**
+   * Clear all timers - pending jobs stay pending in storage
+   */
+  stop(): void {
+    this.running = false;
+    for (const handle of this.timers.values()) {
+      this.clock.clearTimeout(handle);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Queue a withdrawal
+   */
+  async schedule(params: {
+    provider: string;
+    asset: string;
+    amount: string;
+    destination: WithdrawDestination;
+    timing: WithdrawalTiming;
+  }): Promise<ScheduledWithdrawal> {
+    if (!this.providers.has(params.provider)) {
+      throw new Error(`Unknown provider: ${params.provider}`);
+    }
+
+    const now = this.clock.now();
+    const job: ScheduledWithdrawal = {
+      id: generateJobId(),
+      provider: params.provider,
+      asset: params.asset,
+      amount: params.amount,
+      destination: params.destination,
+      executeAt: this.resolveExecuteAt(params.timing, now),
+      createdAt: now,
+      status: 'pending',
+    };
+
+    await this.save(job);
+    if (this.running) {
+      this.arm(job);
+    }
+    return job;
+  }
+
+  /**
+   * Cancel a pending withdrawal
+   * Returns false if it already ran (or is running)
+   */
+  async cancel(id: string): Promise<boolean> {
+    const job = await this.storage.get(id);
+    if (!job || job.status !== 'pending') {
+      return false;
+    }
+
+    this.disarm(id);
+    await this.save({ ...job, status: 'cancelled', finishedAt: this.clock.now() });
+    return true;
+  }
+
+  /**
+   * Get a job
+   */
+  async get(id: string): Promise<ScheduledWithdrawal | undefined> {
+    return this.storage.get(id);
+  }
+
+  /**
+   * List jobs, earliest execution first
+   */
+  async list(filter: { status?: ScheduledWithdrawalStatus } = {}): Promise<ScheduledWithdrawal[]> {
+    const jobs = await this.storage.list();
+    return jobs
+      .filter((job) => filter.status === undefined || job.status === filter.status)
+      .sort((a, b) => a.executeAt - b.executeAt);
+  }
+
+  /**
+   * Forget a finished job
+   */
+  async remove(id: string): Promise<void> {
+    this.disarm(id);
+    await this.storage.delete(id);
+  }
+
+  /**
+   * Run every pending job that is due now
+   * Timers call this; also usable without start() (e.g. from a cron)
+   */
+  async runDue(): Promise<ScheduledWithdrawal[]> {
+    // Runs are chained so two withdrawals never race for the same UTXOs
+    const run = this.runQueue.then(() => this.runDueNow());
+    this.runQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async runDueNow(): Promise<ScheduledWithdrawal[]> {
+    const now = this.clock.now();
+    const due = await this.list({ status: 'pending' });
+    const results: ScheduledWithdrawal[] = [];
+
+    for (const job of due.filter((j) => j.executeAt <= now)) {
+      const result = await this.execute(job.id);
+      if (result) {
+        results.push(result);
+      }
+    }
+    return results;
+  }
+
+  private async execute(id: string): Promise<ScheduledWithdrawal | undefined> {
+    this.disarm(id);
+
+    // Re-read - the job may have been cancelled or removed since it was listed
+    const job = await this.storage.get(id);
+    if (!job || job.status !== 'pending') {
+      return undefined;
+    }
+
+    const provider = this.providers.get(job.provider);
+    if (!provider) {
+      return this.save({
+        ...job,
+        status: 'failed',
+        finishedAt: this.clock.now(),
+        error: `Unknown provider: ${job.provider}`,
+      });
+    }
+
+    await this.save({ ...job, status: 'executing' });
+
+    let txHash: string | undefined;
+    try {
+      await provider.withdraw({
+        destination: job.destination,
+        asset: job.asset,
+        amount: job.amount,
+        onStatusChange: (status) => {
+          if (status.stage === 'completed') {
+            txHash = status.txHash;
+          }
+        },
+      });
+      return await this.save({ ...job, status: 'executed', finishedAt: this.clock.now(), txHash });
+    } catch (error) {
+      return this.save({
+        ...job,
+        status: 'failed',
+        finishedAt: this.clock.now(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: getErrorCode(error),
+      });
+    }
+  }
+
+  private arm(job: ScheduledWithdrawal): void {
+    this.disarm(job.id);
+    const wait = Math.max(0, job.executeAt - this.clock.now());
+
+    const handle = this.clock.setTimeout(
+      () => {
+        this.timers.delete(job.id);
+        if (job.executeAt > this.clock.now()) {
+          this.arm(job);
+          return;
+        }
+        void this.runDue();
+      },
+      Math.min(wait, MAX_TIMER_MS)
+    );
+    this.timers.set(job.id, handle);
+  }
+
+  private disarm(id: string): void {
+    const handle = this.timers.get(id);
+    if (handle !== undefined) {
+      this.clock.clearTimeout(handle);
+      this.timers.delete(id);
+    }
+  }
+
+  private resolveExecuteAt(timing: WithdrawalTiming, now: number): number {
+    if ('delay' in timing) {
+      const { minMs, maxMs = minMs } = timing.delay;
+      if (minMs < 0 || maxMs < minMs) {
+        throw new Error(`Invalid delay: ${minMs}-${maxMs}ms`);
+      }
+      return now + minMs + Math.floor(this.random() * (maxMs - minMs));
+    }
+
+    const { start, end } = timing.window;
+    if (end < start || end < now) {
+      throw new Error('Invalid window: end must be after start and in the future');
+    }
+    const from = Math.max(start, now);
+    return from + Math.floor(this.random() * (end - from));
+  }
+
+  private async save(job: ScheduledWithdrawal): Promise<ScheduledWithdrawal> {
+    await this.storage.set(job);
+    this.onJobChange?.(job);
+    return job;
+  }
+}
+
+/**
+ * Random job id (crypto.randomUUID when available)
+ */
+function generateJobId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,254 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  BelowProviderMinimum,
+  MockPrivacyProvider,
+  executeAmountPlan,
+  planAmountSplit,
+  standardDenominations,
+} from '../src';
+import type { PlanProgress } from '../src';
+
+const SOL = 1_000_000_000n;
+
+function provider(options: { minimumAmount?: bigint; balance?: bigint; withdrawFixed?: bigint } = {}) {
+  return new MockPrivacyProvider({
+    assets: [{ symbol: 'SOL', decimals: 9, minimumAmount: options.minimumAmount }],
+    balances: { SOL: options.balance ?? 100n * SOL },
+    fees: { withdrawFixed: options.withdrawFixed ?? 0n },
+  });
+}
+
+/**
+ * Deterministic stand-in for Math.random
+ */
+function sequence(...values: number[]): () => number {
+  let i = 0;
+  return () => values[i++ % values.length]!;
+}
+
+function sorted(amounts: bigint[]): bigint[] {
+  return [...amounts].sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+}
+
+function amountsOf(plan: { chunks: { amount: bigint }[] }): bigint[] {
+  return sorted(plan.chunks.map((chunk) => chunk.amount));
+}
+
+describe('standardDenominations', () => {
+  it('lists the 1-2-5 series down to the asset precision', () => {
+    expect(standardDenominations(2).slice(-4)).toEqual([10n, 5n, 2n, 1n]);
+    expect(standardDenominations(0).at(-1)).toBe(1n);
+  });
+});
+
+describe('planAmountSplit', () => {
+  it('splits into standard denominations', async () => {
+    const plan = await planAmountSplit({
+      provider: provider(),
+      operation: 'fund',
+      asset: 'SOL',
+      amount: 3_700_000_000n,
+    });
+
+    expect(amountsOf(plan)).toEqual([2n * SOL, SOL, SOL / 2n, SOL / 5n]);
+    expect(plan.amount).toBe(3_700_000_000n);
+  });
+
+  it('keeps a remainder at or above the minimum as its own chunk', async () => {
+    const plan = await planAmountSplit({
+      provider: provider(),
+      operation: 'fund',
+      asset: 'SOL',
+      amount: 123n,
+      denominations: [100n, 10n],
+    });
+
+    expect(amountsOf(plan)).toEqual([100n, 10n, 10n, 3n]);
+  });
+
+  it('folds a remainder below the minimum into the smallest chunk', async () => {
+    const plan = await planAmountSplit({
+      provider: provider({ minimumAmount: 10n }),
+      operation: 'fund',
+      asset: 'SOL',
+      amount: 123n,
+      denominations: [100n, 10n],
+    });
+
+    expect(amountsOf(plan)).toEqual([100n, 13n, 10n]);
+  });
+
+  it('skips denominations below the minimum', async () => {
+    const plan = await planAmountSplit({
+      provider: provider({ minimumAmount: 50n }),
+      operation: 'fund',
+      asset: 'SOL',
+      amount: 180n,
+      denominations: [100n, 50n, 10n],
+    });
+
+    expect(amountsOf(plan)).toEqual([100n, 80n]);
+  });
+
+  it('folds the smallest chunks beyond maxChunks', async () => {
+    const plan = await planAmountSplit({
+      provider: provider(),
+      operation: 'fund',
+      asset: 'SOL',
+      amount: 123n,
+      denominations: [100n, 10n],
+      maxChunks: 2,
+    });
+
+    expect(amountsOf(plan)).toEqual([100n, 23n]);
+  });
+
+  it('treats maxChunks below one as one chunk', async () => {
+    const plan = await planAmountSplit({
+      provider: provider(),
+      operation: 'fund',
+      asset: 'SOL',
+      amount: 123n,
+      denominations: [100n, 10n],
+      maxChunks: 0,
+    });
+
+    expect(amountsOf(plan)).toEqual([123n]);
+  });
+
+  it('rejects amounts below the provider minimum', async () => {
+    await expect(
+      planAmountSplit({
+        provider: provider({ minimumAmount: 10n }),
+        operation: 'fund',
+        asset: 'SOL',
+        amount: 9n,
+      })
+    ).rejects.toBeInstanceOf(BelowProviderMinimum);
+  });
+
+  it('splits randomly into parts that add up', async () => {
+    const plan = await planAmountSplit({
+      provider: provider(),
+      operation: 'fund',
+      asset: 'SOL',
+      amount: 1_000n,
+      strategy: 'random',
+      chunks: 3,
+      random: sequence(0, 0.5, 0.999),
+    });
+
+    expect(plan.chunks).toHaveLength(3);
+    expect(plan.chunks.reduce((sum, chunk) => sum + chunk.amount, 0n)).toBe(1_000n);
+  });
+
+  it('uses fewer random parts when they would fall below the minimum', async () => {
+    const plan = await planAmountSplit({
+      provider: provider({ minimumAmount: 400n }),
+      operation: 'fund',
+      asset: 'SOL',
+      amount: 1_000n,
+      strategy: 'random',
+      chunks: 3,
+      random: sequence(0.5),
+    });
+
+    expect(amountsOf(plan)).toEqual([500n, 500n]);
+  });
+
+  it('quotes every chunk and pays fixed fees per chunk', async () => {
+    const plan = await planAmountSplit({
+      provider: provider({ withdrawFixed: 7n }),
+      operation: 'withdraw',
+      asset: 'SOL',
+      amount: 123n,
+      denominations: [100n, 10n],
+      destinations: ['a', 'b'],
+      random: sequence(0),
+    });
+
+    expect(plan.totalFee).toBe(28n);
+    expect(plan.totalIn).toBe(123n + 28n);
+    expect(plan.chunks.map((chunk) => chunk.quote.amountIn - chunk.amount)).toEqual([7n, 7n, 7n, 7n]);
+    expect(plan.chunks.map((chunk) => chunk.destination)).toEqual(['a', 'b', 'a', 'b']);
+  });
+
+  it('needs a destination for withdraw plans', async () => {
+    await expect(
+      planAmountSplit({ provider: provider(), operation: 'withdraw', asset: 'SOL', amount: 1n })
+    ).rejects.toThrow('Withdraw plans need at least one destination');
+  });
+});
+
+describe('executeAmountPlan', () => {
+  async function withdrawPlan(pool: MockPrivacyProvider) {
+    return planAmountSplit({
+      provider: pool,
+      operation: 'withdraw',
+      asset: 'SOL',
+      amount: 120n,
+      denominations: [100n, 10n],
+      destinations: ['recipient'],
+    });
+  }
+
+  it('withdraws each chunk gross of fees and reports progress', async () => {
+    const pool = provider({ balance: 1_000n, withdrawFixed: 5n });
+    const plan = await withdrawPlan(pool);
+    const progress: PlanProgress[] = [];
+
+    await executeAmountPlan({ plan, provider: pool, onProgress: (p) => progress.push(p) });
+
+    expect(await pool.getPrivateBalance('SOL')).toBe(1_000n - plan.totalIn);
+    expect(progress.at(-1)).toMatchObject({ chunk: 2, totalChunks: 3, completedChunks: 2 });
+  });
+
+  it('stops at the first failing chunk', async () => {
+    const pool = provider({ balance: 1_000n });
+    const plan = await withdrawPlan(pool);
+    const progress: PlanProgress[] = [];
+
+    await expect(
+      executeAmountPlan({
+        plan,
+        provider: pool,
+        onProgress: (p) => {
+          progress.push(p);
+          // Fail the second chunk
+          if (p.chunk === 0 && p.status.stage === 'completed') {
+            pool.failNext('withdraw', new Error('relayer down'));
+          }
+        },
+      })
+    ).rejects.toThrow('relayer down');
+    expect(await pool.getPrivateBalance('SOL')).toBe(1_000n - plan.chunks[0]!.amount);
+    expect(progress.at(-1)).toMatchObject({ chunk: 1, completedChunks: 1 });
+    expect(progress.some((p) => p.chunk === 2)).toBe(false);
+  });
+
+  it('marks an abort after the first chunk as possibly moving funds', async () => {
+    const pool = provider({ balance: 1_000n });
+    const plan = await withdrawPlan(pool);
+    const controller = new AbortController();
+
+    await expect(
+      executeAmountPlan({
+        plan,
+        provider: pool,
+        signal: controller.signal,
+        onProgress: (p) => {
+          if (p.status.stage === 'completed') controller.abort();
+        },
+      })
+    ).rejects.toMatchObject({ code: 'ABORTED', fundsMayHaveMoved: true });
+  });
+
+  it('refuses a plan made for another provider', async () => {
+    const plan = await withdrawPlan(provider());
+
+    await expect(
+      executeAmountPlan({ plan, provider: new MockPrivacyProvider({ name: 'other' }) })
+    ).rejects.toThrow('Plan was made for mock, not other');
+  });
+});
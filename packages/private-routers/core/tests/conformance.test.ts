@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import type { Account } from '@privacy-router-sdk/signers-core';
+
+import { MockPrivacyProvider, assertConformance, runProviderConformance } from '../src';
+import type { ConformanceCheck, ConformanceResult, PrivacyProvider, QuoteParams } from '../src';
+
+const sourceAccount = {} as unknown as Account;
+
+function setup(provider: PrivacyProvider) {
+  return { provider, sourceAccount, asset: 'SOL', amount: '1000000', destination: 'recipient' };
+}
+
+function result(results: ConformanceResult[], check: ConformanceCheck): ConformanceResult {
+  const found = results.find((r) => r.check === check);
+  if (!found) throw new Error(`no result for ${check}`);
+  return found;
+}
+
+describe('runProviderConformance', () => {
+  it('passes every check against MockPrivacyProvider', async () => {
+    const provider = new MockPrivacyProvider({ balances: { SOL: 5_000_000n } });
+
+    const results = await runProviderConformance(setup(provider));
+
+    expect(results.map((r) => r.check)).toEqual([
+      'capabilities',
+      'quotes',
+      'fund',
+      'withdraw',
+      'transfer',
+      'insufficient-balance',
+      'abort',
+    ]);
+    expect(results.filter((r) => !r.passed)).toEqual([]);
+    expect(() => assertConformance(results)).not.toThrow();
+  });
+
+  it('passes with fees', async () => {
+    const provider = new MockPrivacyProvider({
+      balances: { SOL: 5_000_000n },
+      fees: {
+        fundRate: { numerator: 1n, denominator: 1000n },
+        withdrawRate: { numerator: 35n, denominator: 10_000n },
+        withdrawFixed: 6_000n,
+      },
+    });
+
+    assertConformance(await runProviderConformance(setup(provider)));
+  });
+
+  it('skips transfer without privateTransfers', async () => {
+    const provider = new MockPrivacyProvider({
+      balances: { SOL: 5_000_000n },
+      privateTransfers: false,
+    });
+
+    const results = await runProviderConformance(setup(provider), { checks: ['transfer'] });
+    expect(results).toEqual([{ check: 'transfer', passed: true, skipped: true }]);
+  });
+});
+
+describe('runProviderConformance against broken providers', () => {
+  it('fails capabilities for an unlisted asset', async () => {
+    const provider = new MockPrivacyProvider({ assets: [{ symbol: 'USDC', decimals: 6 }] });
+
+    const results = await runProviderConformance(setup(provider), { checks: ['capabilities'] });
+    expect(result(results, 'capabilities')).toMatchObject({
+      passed: false,
+      error: 'asset SOL missing from capabilities',
+    });
+  });
+
+  it('fails quotes whose fees do not add up', async () => {
+    class MiscountingQuotes extends MockPrivacyProvider {
+      async quoteWithdraw(params: QuoteParams) {
+        const quote = await super.quoteWithdraw(params);
+        return { ...quote, totalFee: quote.totalFee + 1n };
+      }
+    }
+
+    const results = await runProviderConformance(setup(new MiscountingQuotes()), {
+      checks: ['quotes'],
+    });
+    expect(result(results, 'quotes')).toMatchObject({
+      passed: false,
+      error: 'amountOut + totalFee != amountIn',
+    });
+  });
+
+  it('fails fund when the balance moves by a different amount', async () => {
+    class SkimmingFund extends MockPrivacyProvider {
+      async fund(params: Parameters<MockPrivacyProvider['fund']>[0]) {
+        await super.fund(params);
+        this.setBalance(params.asset, (await this.getPrivateBalance(params.asset)) - 1n);
+      }
+    }
+
+    const results = await runProviderConformance(setup(new SkimmingFund()), { checks: ['fund'] });
+    expect(result(results, 'fund')).toMatchObject({
+      passed: false,
+      error: 'balance changed by 999999, expected 1000000',
+    });
+  });
+
+  it('fails withdraw when stages are reported out of order', async () => {
+    class ReorderedStages extends MockPrivacyProvider {
+      async withdraw(params: Parameters<MockPrivacyProvider['withdraw']>[0]) {
+        await super.withdraw({ ...params, onStatusChange: undefined });
+        params.onStatusChange?.({ stage: 'preparing' });
+        params.onStatusChange?.({ stage: 'confirming', txHash: 'tx' });
+        params.onStatusChange?.({ stage: 'processing' });
+        params.onStatusChange?.({ stage: 'completed', txHash: 'tx' });
+      }
+    }
+
+    const provider = new ReorderedStages({ balances: { SOL: 5_000_000n } });
+    const results = await runProviderConformance(setup(provider), { checks: ['withdraw'] });
+    expect(result(results, 'withdraw')).toMatchObject({
+      passed: false,
+      error: 'stage processing after confirming',
+    });
+  });
+
+  it('fails insufficient-balance on an untyped error', async () => {
+    class UntypedErrors extends MockPrivacyProvider {
+      async withdraw(params: Parameters<MockPrivacyProvider['withdraw']>[0]) {
+        try {
+          await super.withdraw({ ...params, onStatusChange: undefined });
+        } catch {
+          params.onStatusChange?.({ stage: 'failed', error: 'not enough funds' });
+          throw new Error('not enough funds');
+        }
+      }
+    }
+
+    const results = await runProviderConformance(setup(new UntypedErrors()), {
+      checks: ['insufficient-balance'],
+    });
+    expect(result(results, 'insufficient-balance')).toMatchObject({
+      passed: false,
+      error: 'error code is missing, expected INSUFFICIENT_SHIELDED_BALANCE',
+    });
+  });
+
+  it('fails abort when the signal is ignored', async () => {
+    class IgnoresAbort extends MockPrivacyProvider {
+      async withdraw(params: Parameters<MockPrivacyProvider['withdraw']>[0]) {
+        await super.withdraw({ ...params, signal: undefined });
+      }
+    }
+
+    const provider = new IgnoresAbort({ balances: { SOL: 5_000_000n } });
+    const results = await runProviderConformance(setup(provider), { checks: ['abort'] });
+    expect(result(results, 'abort')).toMatchObject({
+      passed: false,
+      error: 'operation resolved, expected it to reject',
+    });
+  });
+
+  it('assertConformance lists every failed check', async () => {
+    class IgnoresAbort extends MockPrivacyProvider {
+      async withdraw(params: Parameters<MockPrivacyProvider['withdraw']>[0]) {
+        await super.withdraw({ ...params, signal: undefined });
+      }
+    }
+
+    const provider = new IgnoresAbort({ assets: [{ symbol: 'USDC', decimals: 6 }] });
+    const results = await runProviderConformance(setup(provider), {
+      checks: ['capabilities', 'abort'],
+    });
+
+    expect(() => assertConformance(results)).toThrow(
+      'Provider conformance failed:\n- capabilities: asset SOL missing from capabilities\n- abort: '
+    );
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+
+import { OperationJournal, WebStorageJournalStorage } from '../src';
+
+/**
+ * Web Storage backed by a Map, standing in for localStorage
+ */
+class MapStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+describe('OperationJournal', () => {
+  it('resumes pending operations from a new journal on the same storage', async () => {
+    const storage = new MapStorage();
+    const before = new OperationJournal({ storage: new WebStorageJournalStorage(storage) });
+    const done = await before.begin('swap');
+    await before.complete(done.id);
+    const interrupted = await before.begin('swap', { depositAddress: 'deposit' });
+    await before.record(interrupted.id, 'deposit-started');
+
+    // After a reload
+    const after = new OperationJournal({ storage: new WebStorageJournalStorage(storage) });
+    after.registerResumer('swap', async (operation, journal) => {
+      await journal.complete(operation.id, { resumedFrom: operation.steps.at(-2)?.name ?? '' });
+    });
+    const pending = await after.list({ status: 'pending' });
+
+    expect(pending.map((operation) => operation.id)).toEqual([interrupted.id]);
+    const resumed = await after.resume(interrupted.id);
+    expect(resumed.status).toBe('completed');
+    expect(resumed.data).toEqual({ depositAddress: 'deposit', resumedFrom: 'deposit-started' });
+  });
+
+  it('keeps other keys and journals apart', async () => {
+    const storage = new MapStorage();
+    storage.setItem('unrelated', '{}');
+    const fund = new OperationJournal({
+      storage: new WebStorageJournalStorage(storage, 'fund:'),
+    });
+    const transfer = new OperationJournal({
+      storage: new WebStorageJournalStorage(storage, 'transfer:'),
+    });
+
+    await fund.begin('swap');
+
+    expect(await fund.list()).toHaveLength(1);
+    expect(await transfer.list()).toEqual([]);
+  });
+
+  it('leaves an operation untouched when its resumer throws', async () => {
+    const journal = new OperationJournal();
+    const operation = await journal.begin('swap');
+    journal.registerResumer('swap', () => Promise.reject(new Error('rpc down')));
+
+    await expect(journal.resume(operation.id)).rejects.toThrow('rpc down');
+
+    expect((await journal.get(operation.id))?.status).toBe('pending');
+  });
+
+  it('returns settled operations without resuming them', async () => {
+    const journal = new OperationJournal();
+    const operation = await journal.begin('swap');
+    await journal.fail(operation.id, 'refunded');
+
+    expect((await journal.resume(operation.id)).status).toBe('failed');
+  });
+
+  it('needs a resumer for the operation kind', async () => {
+    const journal = new OperationJournal();
+    const operation = await journal.begin('unknown');
+
+    await expect(journal.resume(operation.id)).rejects.toThrow(
+      'No resumer registered for operation kind: unknown'
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+
+import { analyzePrivacy } from '../src';
+import type { AnalyzedOperation } from '../src';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+function fund(amount: bigint, at: number, from = 'wallet'): AnalyzedOperation {
+  return { kind: 'fund', asset: 'SOL', amount, at, from };
+}
+
+function withdraw(amount: bigint, at: number, to = 'fresh'): AnalyzedOperation {
+  return { kind: 'withdraw', asset: 'SOL', amount, at, to };
+}
+
+describe('analyzePrivacy', () => {
+  it('reports nothing for an unrelated withdrawal', () => {
+    const report = analyzePrivacy([withdraw(3_000n, 10 * DAY)], [fund(10_000n, 0)]);
+
+    expect(report).toEqual({ score: 0, severity: 'none', findings: [] });
+  });
+
+  it('scores an exact amount match higher than a near one', () => {
+    const history = [fund(10_000n, 0)];
+
+    const exact = analyzePrivacy([withdraw(10_000n, 10 * DAY)], history);
+    const near = analyzePrivacy([withdraw(9_950n, 10 * DAY)], history);
+    const outside = analyzePrivacy([withdraw(9_800n, 10 * DAY)], history);
+
+    expect(exact.findings).toEqual([
+      expect.objectContaining({ kind: 'matching-amount', score: 80, severity: 'high' }),
+    ]);
+    expect(near.findings).toEqual([
+      expect.objectContaining({
+        kind: 'matching-amount',
+        score: 60,
+        severity: 'medium',
+        message: 'Amount is within 1% of an earlier deposit of SOL',
+      }),
+    ]);
+    expect(outside.findings).toEqual([]);
+  });
+
+  it('links the closest matching deposit', () => {
+    const report = analyzePrivacy(
+      [withdraw(10_000n, 10 * DAY)],
+      [fund(9_950n, 0), fund(10_000n, 1), fund(9_990n, 2)]
+    );
+
+    expect(report.findings[0]?.related).toEqual({ source: 'history', index: 1 });
+  });
+
+  it('scores short gaps by how short they are', () => {
+    const history = [fund(10_000n, 0)];
+
+    const minutes = analyzePrivacy([withdraw(1n, 30 * 60 * 1000)], history);
+    const hours = analyzePrivacy([withdraw(1n, 5 * HOUR)], history);
+    const days = analyzePrivacy([withdraw(1n, 2 * DAY)], history);
+
+    expect(minutes.findings).toEqual([
+      expect.objectContaining({ kind: 'short-time-gap', score: 70, message: 'Runs 30min after a deposit of SOL' }),
+    ]);
+    expect(hours.findings).toEqual([
+      expect.objectContaining({ kind: 'short-time-gap', score: 40, message: 'Runs 5h after a deposit of SOL' }),
+    ]);
+    expect(days.findings).toEqual([]);
+  });
+
+  it('honours custom tolerance and gap options', () => {
+    const report = analyzePrivacy([withdraw(9_800n, 2 * DAY)], [fund(10_000n, 0)], {
+      amountToleranceBps: 500,
+      minTimeGapMs: 3 * DAY,
+    });
+
+    expect(report.findings.map((f) => f.kind).sort()).toEqual(['matching-amount', 'short-time-gap']);
+  });
+
+  it('flags withdrawals back to a funding address and reused destinations', () => {
+    const report = analyzePrivacy(
+      [withdraw(1n, 10 * DAY, 'wallet'), withdraw(2n, 11 * DAY, 'wallet')],
+      [fund(10_000n, 0, 'wallet')]
+    );
+
+    expect(report.findings.map((f) => [f.kind, f.operation])).toEqual([
+      ['self-withdrawal', 0],
+      ['self-withdrawal', 1],
+      ['reused-destination', 1],
+    ]);
+    expect(report.findings[2]?.related).toEqual({ source: 'planned', index: 0 });
+  });
+
+  it('only compares with operations that come before', () => {
+    const report = analyzePrivacy([withdraw(10_000n, DAY)], [fund(10_000n, 2 * DAY)]);
+
+    expect(report.findings).toEqual([]);
+  });
+
+  it('ignores deposits of other assets and planned deposits themselves', () => {
+    const report = analyzePrivacy(
+      [{ ...fund(10_000n, 0), asset: 'USDC' }, fund(5n, 1), withdraw(10_000n, 10 * DAY)],
+      []
+    );
+
+    expect(report.findings).toEqual([]);
+  });
+
+  it('combines findings like independent probabilities', () => {
+    // 90 (self-withdrawal), 80 (exact amount), 70 (minutes after): 1 - 0.1 * 0.2 * 0.3
+    const report = analyzePrivacy([withdraw(10_000n, 60_000, 'wallet')], [fund(10_000n, 0, 'wallet')]);
+
+    expect(report.findings.map((f) => f.score)).toEqual([90, 80, 70]);
+    expect(report.score).toBe(99);
+    expect(report.severity).toBe('high');
+  });
+
+  it('rates a combined score of 40 as medium', () => {
+    const report = analyzePrivacy([withdraw(1n, 5 * HOUR)], [fund(10_000n, 0)]);
+
+    expect(report.score).toBe(40);
+    expect(report.severity).toBe('medium');
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+
+import { MockPrivacyProvider, NoProviderAvailable, PrivacyRouter, getErrorCode } from '../src';
+import type { RouteRequest } from '../src';
+
+const request: RouteRequest = { asset: 'SOL', amount: '1000000', accountKind: 'mnemonic' };
+
+function provider(name: string, withdrawFixed: bigint, balance = 10_000_000n) {
+  return new MockPrivacyProvider({ name, balances: { SOL: balance }, fees: { withdrawFixed } });
+}
+
+describe('PrivacyRouter.selectProvider', () => {
+  it('picks the provider with the lowest fee', async () => {
+    const router = new PrivacyRouter([
+      { provider: provider('expensive', 5_000n) },
+      { provider: provider('cheap', 1_000n) },
+    ]);
+
+    const selection = await router.selectProvider(request, 'withdraw');
+
+    expect(selection.provider.name).toBe('cheap');
+    expect(selection.reason).toEqual({ type: 'lowest-fee', fee: 1_000n });
+    expect(selection.rejected).toEqual([{ name: 'expensive', reason: 'Higher fee', fee: 5_000n }]);
+  });
+
+  it('reports the only supporting provider', async () => {
+    const router = new PrivacyRouter([
+      { provider: provider('sol', 0n) },
+      {
+        provider: new MockPrivacyProvider({
+          name: 'usdc',
+          assets: [{ symbol: 'USDC', decimals: 6 }],
+        }),
+      },
+    ]);
+
+    const selection = await router.selectProvider(request);
+
+    expect(selection.provider.name).toBe('sol');
+    expect(selection.reason).toEqual({ type: 'only-supported' });
+    expect(selection.rejected.map((r) => r.name)).toEqual(['usdc']);
+  });
+
+  it('falls over to the next provider when fee estimation fails', async () => {
+    const router = new PrivacyRouter([
+      {
+        provider: provider('broken', 0n),
+        estimateFee: () => Promise.reject(new Error('relayer down')),
+      },
+      { provider: provider('working', 5_000n) },
+    ]);
+
+    const selection = await router.selectProvider(request, 'withdraw');
+
+    expect(selection.provider.name).toBe('working');
+    expect(selection.rejected).toEqual([
+      { name: 'broken', reason: 'Fee estimation failed: relayer down' },
+    ]);
+  });
+
+  it('keeps registration order when no fee can be estimated', async () => {
+    const failing = () => Promise.reject(new Error('down'));
+    const router = new PrivacyRouter([
+      { provider: provider('first', 0n), estimateFee: failing },
+      { provider: provider('second', 0n), estimateFee: failing },
+    ]);
+
+    const selection = await router.selectProvider(request);
+
+    expect(selection.provider.name).toBe('first');
+    expect(selection.reason).toEqual({ type: 'first-supported' });
+  });
+
+  it('drops providers whose balance does not cover the amount', async () => {
+    // The amount is gross - the 1000 fee comes out of it, not on top
+    const exact = provider('exact', 1_000n, 1_000_000n);
+    const router = new PrivacyRouter([
+      { provider: provider('short', 1_000n, 999_999n) },
+      { provider: exact },
+    ]);
+
+    const selection = await router.selectProvider(request, 'withdraw');
+
+    expect(selection.provider.name).toBe('exact');
+    expect(selection.rejected).toEqual([
+      { name: 'short', reason: 'Insufficient private balance (999999, required 1000000)' },
+    ]);
+    await router.withdraw({ ...request, destination: { address: 'recipient' } });
+    expect(await exact.getPrivateBalance('SOL')).toBe(0n);
+  });
+
+  it('does not check balances when funding', async () => {
+    const router = new PrivacyRouter([{ provider: provider('empty', 0n, 0n) }]);
+
+    const selection = await router.selectProvider(request, 'fund');
+
+    expect(selection.provider.name).toBe('empty');
+  });
+
+  it('only considers providers with private transfers for transfers', async () => {
+    const router = new PrivacyRouter([
+      {
+        provider: new MockPrivacyProvider({
+          name: 'no-transfers',
+          balances: { SOL: 10_000_000n },
+          privateTransfers: false,
+        }),
+      },
+      { provider: provider('transfers', 0n) },
+    ]);
+
+    const selection = await router.selectProvider(request, 'transfer');
+
+    expect(selection.provider.name).toBe('transfers');
+    expect(selection.rejected).toEqual([
+      { name: 'no-transfers', reason: 'Private transfers not supported' },
+    ]);
+  });
+
+  it('quotes transfers with the transfer fee', async () => {
+    const transferring = (name: string, transferFixed: bigint, balance: bigint) =>
+      new MockPrivacyProvider({
+        name,
+        balances: { SOL: balance },
+        fees: { withdrawFixed: 1n, transferFixed },
+      });
+    const router = new PrivacyRouter([
+      { provider: transferring('short', 500n, 999_000n) },
+      { provider: transferring('pricey', 3_000n, 2_000_000n) },
+      { provider: transferring('cheap', 2_000n, 2_000_000n) },
+    ]);
+
+    const selection = await router.selectProvider(request, 'transfer');
+
+    expect(selection.provider.name).toBe('cheap');
+    expect(selection.reason).toEqual({ type: 'lowest-fee', fee: 2_000n });
+    expect(selection.rejected).toContainEqual({
+      name: 'short',
+      reason: 'Insufficient private balance (999000, required 1000000)',
+    });
+  });
+
+  it('throws a typed error when no provider fits', async () => {
+    const router = new PrivacyRouter([{ provider: provider('poor', 0n, 10n) }]);
+
+    const error = await router.selectProvider(request, 'withdraw').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(NoProviderAvailable);
+    expect(getErrorCode(error)).toBe('NO_PROVIDER_AVAILABLE');
+    expect((error as NoProviderAvailable).rejected).toEqual([
+      { name: 'poor', reason: 'Insufficient private balance (10, required 1000000)' },
+    ]);
+  });
+
+  it('refuses duplicate provider names', () => {
+    const router = new PrivacyRouter([{ provider: provider('same', 0n) }]);
+
+    expect(() => router.register({ provider: provider('same', 0n) })).toThrow(
+      'Provider already registered: same'
+    );
+  });
+});
+
+describe('PrivacyRouter operations', () => {
+  it('withdraws through the selected provider and forwards strict', async () => {
+    class RecordingProvider extends MockPrivacyProvider {
+      strict: boolean | undefined;
+
+      async withdraw(params: Parameters<MockPrivacyProvider['withdraw']>[0] & { strict?: boolean }) {
+        this.strict = params.strict;
+        return super.withdraw(params);
+      }
+    }
+    const recording = new RecordingProvider({ name: 'recording', balances: { SOL: 5_000_000n } });
+    const router = new PrivacyRouter([{ provider: recording }]);
+
+    await router.withdraw({ ...request, destination: { address: 'recipient' }, strict: true });
+
+    expect(recording.strict).toBe(true);
+    expect(await recording.getPrivateBalance('SOL')).toBe(4_000_000n);
+  });
+
+  it('funds through the selected provider and reports the selection', async () => {
+    const cheap = provider('cheap', 0n, 0n);
+    const router = new PrivacyRouter([{ provider: cheap }]);
+    const selected: string[] = [];
+
+    await router.fund({
+      ...request,
+      sourceAccount: {} as never,
+      onRouteSelected: (selection) => selected.push(selection.provider.name),
+    });
+
+    expect(selected).toEqual(['cheap']);
+    expect(await cheap.getPrivateBalance('SOL')).toBe(1_000_000n);
+  });
+
+  it('does not execute when aborted during selection', async () => {
+    const idle = provider('idle', 0n);
+    const router = new PrivacyRouter([{ provider: idle }]);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      router.withdraw({
+        ...request,
+        destination: { address: 'recipient' },
+        signal: controller.signal,
+      })
+    ).rejects.toMatchObject({ code: 'ABORTED', fundsMayHaveMoved: false });
+    expect(await idle.getPrivateBalance('SOL')).toBe(10_000_000n);
+  });
+
+  it('lists balances of supporting providers', async () => {
+    const router = new PrivacyRouter([
+      { provider: provider('a', 0n, 1n) },
+      { provider: provider('b', 0n, 2n) },
+    ]);
+
+    expect(await router.getPrivateBalances({ asset: 'SOL', accountKind: 'mnemonic' })).toEqual([
+      { name: 'a', balance: 1n },
+      { name: 'b', balance: 2n },
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  applyFeeRate,
+  buildFeeQuote,
+  decimalToBaseUnits,
+  feeRateFromDecimal,
+  solveGrossAmount,
+} from '../src';
+import type { FeeBreakdown } from '../src';
+
+const rate = { numerator: 35n, denominator: 10_000n };
+
+function feesOf(gross: bigint): FeeBreakdown {
+  return { percentage: applyFeeRate(gross, rate), rent: 6_000_000n, network: 0n };
+}
+
+describe('feeRateFromDecimal', () => {
+  it('keeps the decimal digits exactly', () => {
+    expect(feeRateFromDecimal(0.0035)).toEqual({ numerator: 35n, denominator: 10_000n });
+    expect(feeRateFromDecimal(0.1)).toEqual({ numerator: 1n, denominator: 10n });
+    expect(feeRateFromDecimal(0)).toEqual({ numerator: 0n, denominator: 1n });
+  });
+
+  it('rejects rates outside [0, 1)', () => {
+    expect(() => feeRateFromDecimal(1)).toThrow('Invalid fee rate: 1');
+    expect(() => feeRateFromDecimal(-0.1)).toThrow('Invalid fee rate: -0.1');
+    expect(() => feeRateFromDecimal(Number.NaN)).toThrow('Invalid fee rate');
+  });
+});
+
+describe('decimalToBaseUnits', () => {
+  it('converts whole-token amounts', () => {
+    expect(decimalToBaseUnits(0.006, 9)).toBe(6_000_000n);
+    expect(decimalToBaseUnits(0.85, 6)).toBe(850_000n);
+    expect(decimalToBaseUnits(12, 2)).toBe(1_200n);
+  });
+
+  it('rounds to the nearest base unit', () => {
+    expect(decimalToBaseUnits(0.0000015, 6)).toBe(2n);
+  });
+});
+
+describe('applyFeeRate', () => {
+  it('floors by default and ceils on request', () => {
+    expect(applyFeeRate(1_001n, rate)).toBe(3n);
+    expect(applyFeeRate(1_001n, rate, 'ceil')).toBe(4n);
+    expect(applyFeeRate(2_000n, rate, 'ceil')).toBe(7n);
+  });
+});
+
+describe('solveGrossAmount', () => {
+  it('returns the smallest gross whose net covers the target', () => {
+    const feeOf = (gross: bigint) => applyFeeRate(gross, rate) + 6_000_000n;
+    const net = 1_000_000_000n;
+
+    const gross = solveGrossAmount(net, feeOf);
+
+    expect(gross - feeOf(gross)).toBeGreaterThanOrEqual(net);
+    expect(gross - 1n - feeOf(gross - 1n)).toBeLessThan(net);
+  });
+
+  it('returns the net itself when there is no fee', () => {
+    expect(solveGrossAmount(42n, () => 0n)).toBe(42n);
+  });
+});
+
+describe('buildFeeQuote', () => {
+  it('quotes exactIn on the given amount', () => {
+    const quote = buildFeeQuote({ asset: 'SOL', amount: '1000000000', mode: 'exactIn' }, feesOf);
+
+    expect(quote).toEqual({
+      asset: 'SOL',
+      mode: 'exactIn',
+      amountIn: 1_000_000_000n,
+      amountOut: 990_500_000n,
+      fees: { percentage: 3_500_000n, rent: 6_000_000n, network: 0n },
+      totalFee: 9_500_000n,
+    });
+  });
+
+  it('quotes exactOut so the amount arrives', () => {
+    const quote = buildFeeQuote({ asset: 'SOL', amount: '990500000', mode: 'exactOut' }, feesOf);
+
+    expect(quote.amountOut).toBeGreaterThanOrEqual(990_500_000n);
+    expect(quote.amountIn).toBe(999_999_999n);
+    expect(quote.amountIn - quote.amountOut).toBe(quote.totalFee);
+  });
+
+  it('never quotes a negative amountOut', () => {
+    const quote = buildFeeQuote({ asset: 'SOL', amount: '1000', mode: 'exactIn' }, feesOf);
+
+    expect(quote.amountOut).toBe(0n);
+    expect(quote.totalFee).toBe(6_000_003n);
+  });
+
+  it('rejects negative amounts', () => {
+    expect(() => buildFeeQuote({ asset: 'SOL', amount: '-1', mode: 'exactIn' }, feesOf)).toThrow(
+      'Invalid amount: -1'
+    );
+  });
+});
@@ -0,0 +1,284 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  MemoryScheduleStorage,
+  MockPrivacyProvider,
+  WithdrawScheduler,
+  getErrorCode,
+} from '../src';
+import type { Clock, ScheduledWithdrawal } from '../src';
+
+/**
+ * Manually advanced clock
+ */
+class FakeClock implements Clock {
+  time = 1_000_000;
+  private timers: { at: number; callback: () => void; handle: number }[] = [];
+  private nextHandle = 0;
+
+  /**
+   * Delays the scheduler asked for, in order
+   */
+  readonly requested: number[] = [];
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const handle = this.nextHandle++;
+    this.requested.push(ms);
+    this.timers.push({ at: this.time + ms, callback, handle });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers = this.timers.filter((timer) => timer.handle !== handle);
+  }
+
+  get pending(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Move time forward, firing timers that come due
+   */
+  advance(ms: number): void {
+    this.time += ms;
+    const due = this.timers.filter((timer) => timer.at <= this.time);
+    this.timers = this.timers.filter((timer) => timer.at > this.time);
+    due.forEach((timer) => timer.callback());
+  }
+}
+
+const destination = { address: 'recipient' };
+
+function setup(options: { storage?: MemoryScheduleStorage; random?: () => number } = {}) {
+  const clock = new FakeClock();
+  const provider = new MockPrivacyProvider({ balances: { SOL: 10_000n } });
+  const changes: ScheduledWithdrawal[] = [];
+  const scheduler = new WithdrawScheduler({
+    providers: [provider],
+    storage: options.storage,
+    clock,
+    random: options.random ?? (() => 0.5),
+    onJobChange: (job) => changes.push(job),
+  });
+  return { clock, provider, scheduler, changes };
+}
+
+describe('WithdrawScheduler timing', () => {
+  it('picks a point inside the delay range', async () => {
+    const { clock, scheduler } = setup({ random: () => 0.25 });
+
+    const job = await scheduler.schedule({
+      provider: 'mock',
+      asset: 'SOL',
+      amount: '100',
+      destination,
+      timing: { delay: { minMs: 1_000, maxMs: 5_000 } },
+    });
+
+    expect(job.executeAt).toBe(clock.time + 2_000);
+    expect(job.status).toBe('pending');
+  });
+
+  it('picks a point inside the window, from now when it already started', async () => {
+    const { clock, scheduler } = setup({ random: () => 0.5 });
+
+    const job = await scheduler.schedule({
+      provider: 'mock',
+      asset: 'SOL',
+      amount: '100',
+      destination,
+      timing: { window: { start: clock.time - 10_000, end: clock.time + 10_000 } },
+    });
+
+    expect(job.executeAt).toBe(clock.time + 5_000);
+  });
+
+  it('rejects invalid timings and unknown providers', async () => {
+    const { clock, scheduler } = setup();
+    const schedule = (provider: string, timing: Parameters<typeof scheduler.schedule>[0]['timing']) =>
+      scheduler.schedule({ provider, asset: 'SOL', amount: '100', destination, timing });
+
+    await expect(schedule('mock', { delay: { minMs: 5, maxMs: 1 } })).rejects.toThrow(
+      'Invalid delay: 5-1ms'
+    );
+    await expect(
+      schedule('mock', { window: { start: 0, end: clock.time - 1 } })
+    ).rejects.toThrow('Invalid window');
+    await expect(schedule('other', { delay: { minMs: 0 } })).rejects.toThrow(
+      'Unknown provider: other'
+    );
+  });
+});
+
+describe('WithdrawScheduler execution', () => {
+  it('withdraws once the timer comes due', async () => {
+    const { clock, provider, scheduler } = setup();
+    await scheduler.start();
+    const job = await scheduler.schedule({
+      provider: 'mock',
+      asset: 'SOL',
+      amount: '100',
+      destination,
+      timing: { delay: { minMs: 60_000 } },
+    });
+
+    clock.advance(59_999);
+    await scheduler.runDue();
+    expect((await scheduler.get(job.id))?.status).toBe('pending');
+
+    clock.advance(1);
+    await scheduler.runDue();
+    const executed = await scheduler.get(job.id);
+    expect(executed?.status).toBe('executed');
+    expect(executed?.txHash).toMatch(/^mock-tx-/);
+    expect(await provider.getPrivateBalance('SOL')).toBe(9_900n);
+  });
+
+  it('records failures with their error code', async () => {
+    const { clock, provider, scheduler } = setup();
+    provider.setBalance('SOL', 0n);
+    const job = await scheduler.schedule({
+      provider: 'mock',
+      asset: 'SOL',
+      amount: '100',
+      destination,
+      timing: { delay: { minMs: 0 } },
+    });
+
+    clock.advance(0);
+    await scheduler.runDue();
+
+    const failed = await scheduler.get(job.id);
+    expect(failed?.status).toBe('failed');
+    expect(failed?.code).toBe('INSUFFICIENT_SHIELDED_BALANCE');
+  });
+
+  it('does not run cancelled jobs', async () => {
+    const { clock, provider, scheduler } = setup();
+    await scheduler.start();
+    const job = await scheduler.schedule({
+      provider: 'mock',
+      asset: 'SOL',
+      amount: '100',
+      destination,
+      timing: { delay: { minMs: 1_000 } },
+    });
+
+    expect(await scheduler.cancel(job.id)).toBe(true);
+    clock.advance(1_000);
+    await scheduler.runDue();
+
+    expect((await scheduler.get(job.id))?.status).toBe('cancelled');
+    expect(await scheduler.cancel(job.id)).toBe(false);
+    expect(await provider.getPrivateBalance('SOL')).toBe(10_000n);
+  });
+
+  it('runs due jobs one at a time', async () => {
+    const { clock, provider, scheduler } = setup();
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const withdraw = provider.withdraw.bind(provider);
+    provider.withdraw = async (params) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      try {
+        await withdraw(params);
+      } finally {
+        inFlight--;
+      }
+    };
+    for (let i = 0; i < 3; i++) {
+      await scheduler.schedule({
+        provider: 'mock',
+        asset: 'SOL',
+        amount: '100',
+        destination,
+        timing: { delay: { minMs: 0 } },
+      });
+    }
+
+    const results = await Promise.all([scheduler.runDue(), scheduler.runDue()]);
+
+    expect(results.flat()).toHaveLength(3);
+    expect(maxInFlight).toBe(1);
+    expect(clock.pending).toBe(0);
+  });
+
+  it('re-arms waits longer than a timer can hold', async () => {
+    const { clock, scheduler } = setup();
+    await scheduler.start();
+    const job = await scheduler.schedule({
+      provider: 'mock',
+      asset: 'SOL',
+      amount: '100',
+      destination,
+      timing: { delay: { minMs: 2 ** 31 + 1_000 } },
+    });
+
+    clock.advance(2 ** 31 - 1);
+    await scheduler.runDue();
+
+    expect(clock.requested).toEqual([2 ** 31 - 1, 1_001]);
+    expect((await scheduler.get(job.id))?.status).toBe('pending');
+  });
+});
+
+describe('WithdrawScheduler restart', () => {
+  it('fails jobs interrupted while executing and re-arms pending ones', async () => {
+    const storage = new MemoryScheduleStorage();
+    const before = setup({ storage });
+    const interrupted = await before.scheduler.schedule({
+      provider: 'mock',
+      asset: 'SOL',
+      amount: '100',
+      destination,
+      timing: { delay: { minMs: 0 } },
+    });
+    await storage.set({ ...interrupted, status: 'executing' });
+    const waiting = await before.scheduler.schedule({
+      provider: 'mock',
+      asset: 'SOL',
+      amount: '200',
+      destination,
+      timing: { delay: { minMs: 1_000 } },
+    });
+
+    // After a reload - same storage, new scheduler
+    const after = setup({ storage });
+    after.clock.time = before.clock.time;
+    await after.scheduler.start();
+
+    const failed = await after.scheduler.get(interrupted.id);
+    expect(failed?.status).toBe('failed');
+    expect(failed?.error).toBe('Interrupted while executing - funds may have moved');
+    expect(getErrorCode(failed)).toBeUndefined();
+
+    after.clock.advance(1_000);
+    await after.scheduler.runDue();
+
+    expect((await after.scheduler.get(waiting.id))?.status).toBe('executed');
+    // Only the re-armed job withdrew - the interrupted one is never retried
+    expect(await after.provider.getPrivateBalance('SOL')).toBe(9_800n);
+  });
+
+  it('leaves pending jobs in storage when stopped', async () => {
+    const { clock, scheduler } = setup();
+    await scheduler.start();
+    const job = await scheduler.schedule({
+      provider: 'mock',
+      asset: 'SOL',
+      amount: '100',
+      destination,
+      timing: { delay: { minMs: 1_000 } },
+    });
+
+    scheduler.stop();
+    clock.advance(1_000);
+
+    expect(clock.pending).toBe(0);
+    expect((await scheduler.get(job.id))?.status).toBe('pending');
+  });
+});
@@ -0,0 +1,152 @@
+import { PublicKey } from '@solana/web3.js';
+import { tokens } from 'privacycash/utils';
+
+/**
+ * Solana cluster an asset (mint) lives on
+ */
+export type PrivacyCashCluster = 'mainnet-beta' | 'devnet' | 'localnet';
+
+/**
+ * Asset the Privacy Cash provider can shield
+ */
+export type PrivacyCashAssetInfo = {
+  symbol: string;
+
+  /**
+   * SPL mint address (base58) - omitted for native SOL
+   */
+  mint?: string;
+
+  decimals: number;
+  cluster: PrivacyCashCluster;
+};
+
+/**
+ * Registered asset, matched against the SDK token list
+ */
+export type ResolvedPrivacyCashAsset = PrivacyCashAssetInfo & {
+  /**
+   * Token name in the Privacy Cash SDK (keys the relayer fee config, e.g. rent_fees)
+   */
+  sdkName: string;
+};
+
+/**
+ * Assets registered by default (mainnet)
+ */
+export const DEFAULT_PRIVACY_CASH_ASSETS: PrivacyCashAssetInfo[] = [
+  { symbol: 'SOL', decimals: 9, cluster: 'mainnet-beta' },
+  {
+    symbol: 'USDC',
+    mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    decimals: 6,
+    cluster: 'mainnet-beta',
+  },
+  {
+    symbol: 'USDT',
+    mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+    decimals: 6,
+    cluster: 'mainnet-beta',
+  },
+];
+
+const CLUSTERS: PrivacyCashCluster[] = ['mainnet-beta', 'devnet', 'localnet'];
+
+/**
+ * Asset registry for the Privacy Cash provider
+ * Entries are validated when registered: the mint must be a valid public key
+ * known to the Privacy Cash SDK, with matching decimals. The SDK reads its
+ * non-mainnet mints from NEXT_PUBLIC_<TOKEN>_MINT env vars at import time.
+ */
+export class PrivacyCashAssetRegistry {
+  private readonly assets = new Map<string, ResolvedPrivacyCashAsset>();
+
+  constructor(assets: PrivacyCashAssetInfo[] = DEFAULT_PRIVACY_CASH_ASSETS) {
+    for (const asset of assets) {
+      this.register(asset);
+    }
+  }
+
+  /**
+   * Add an asset
+   * Throws if it is invalid or its symbol is already registered on the cluster
+   */
+  register(asset: PrivacyCashAssetInfo): ResolvedPrivacyCashAsset {
+    const resolved = validateAsset(asset);
+    const key = registryKey(resolved.symbol, resolved.cluster);
+    if (this.assets.has(key)) {
+      throw new Error(
+        `Privacy Cash asset already registered: ${resolved.symbol} on ${resolved.cluster}`
+      );
+    }
+    this.assets.set(key, resolved);
+    return resolved;
+  }
+
+  /**
+   * Look up an asset by symbol (case-insensitive)
+   */
+  get(symbol: string, cluster: PrivacyCashCluster): ResolvedPrivacyCashAsset | undefined {
+    return this.assets.get(registryKey(symbol.toUpperCase(), cluster));
+  }
+
+  /**
+   * Look up an asset, throwing if it is not registered
+   */
+  resolve(symbol: string, cluster: PrivacyCashCluster): ResolvedPrivacyCashAsset {
+    const asset = this.get(symbol, cluster);
+    if (!asset) {
+      throw new Error(`Unsupported Privacy Cash asset: ${symbol} on ${cluster}`);
+    }
+    return asset;
+  }
+
+  /**
+   * Assets of a cluster in registration order
+   */
+  list(cluster: PrivacyCashCluster): ResolvedPrivacyCashAsset[] {
+    return [...this.assets.values()].filter((a) => a.cluster === cluster);
+  }
+}
+
+function validateAsset(asset: PrivacyCashAssetInfo): ResolvedPrivacyCashAsset {
+  const symbol = asset.symbol.trim().toUpperCase();
+  if (!symbol) {
+    throw new Error('Privacy Cash asset symbol is empty');
+  }
+  if (!CLUSTERS.includes(asset.cluster)) {
+    throw new Error(`Invalid cluster for ${symbol}: ${String(asset.cluster)}`);
+  }
+  if (!Number.isInteger(asset.decimals) || asset.decimals < 0) {
+    throw new Error(`Invalid decimals for ${symbol}: ${asset.decimals}`);
+  }
+
+  let token: (typeof tokens)[number] | undefined;
+  if (asset.mint === undefined) {
+    if (symbol !== 'SOL') {
+      throw new Error(`Privacy Cash asset ${symbol} needs a mint - only SOL is native`);
+    }
+    token = tokens.find((t) => t.name === 'sol');
+  } else {
+    let mint: PublicKey;
+    try {
+      mint = new PublicKey(asset.mint);
+    } catch {
+      throw new Error(`Invalid mint for ${symbol}: ${asset.mint}`);
+    }
+    token = tokens.find((t) => t.name !== 'sol' && t.pubkey.equals(mint));
+    if (!token) {
+      throw new Error(`Mint ${asset.mint} (${symbol}) is not supported by the Privacy Cash SDK`);
+    }
+  }
+
+  if (!token || 10 ** asset.decimals !== token.units_per_token) {
+    throw new Error(`Decimals for ${symbol} do not match the Privacy Cash SDK`);
+  }
+
+  return { ...asset, symbol, sdkName: token.name };
+}
+
+function registryKey(symbol: string, cluster: PrivacyCashCluster): string {
+  return `${cluster}:${symbol}`;
+}
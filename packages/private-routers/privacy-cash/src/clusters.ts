@@ -0,0 +1,150 @@
+import { DEFAULT_PRIVACY_CASH_ASSETS } from './assetRegistry';
+import type { PrivacyCashAssetInfo, PrivacyCashCluster } from './assetRegistry';
+
+/**
+ * Where Privacy Cash runs on a cluster
+ */
+export type PrivacyCashClusterConfig = {
+  cluster: PrivacyCashCluster;
+
+  /**
+   * Default RPC endpoint when the provider gets no rpcUrl
+   */
+  rpcUrl?: string;
+
+  /**
+   * Privacy Cash program id
+   */
+  programId: string;
+
+  /**
+   * Address lookup table used by the program's transactions
+   */
+  altAddress: string;
+
+  /**
+   * Relayer / indexer API
+   */
+  relayerUrl: string;
+
+  /**
+   * Base path of the transaction2 circuit files (.wasm / .zkey), wallet signer mode
+   */
+  keyBasePath: string;
+
+  /**
+   * Assets registered when the provider gets no assets option
+   */
+  assets: PrivacyCashAssetInfo[];
+};
+
+/**
+ * Mainnet deployment (the Privacy Cash SDK defaults)
+ */
+export const PRIVACY_CASH_MAINNET: PrivacyCashClusterConfig = {
+  cluster: 'mainnet-beta',
+  programId: '9fhQBbumKEFuXtMBDw8AaQyAjCorLGJQiS3skWZdQyQD',
+  altAddress: 'HEN49U2ySJ85Vc78qprSW9y6mFDhs1NczRxyppNHjofe',
+  relayerUrl: 'https://api3.privacycash.org',
+  keyBasePath: '/circuit2/transaction2',
+  assets: DEFAULT_PRIVACY_CASH_ASSETS,
+};
+
+const DEFAULT_RPC_URLS: Record<'devnet' | 'localnet', string> = {
+  devnet: 'https://api.devnet.solana.com',
+  localnet: 'http://127.0.0.1:8899',
+};
+
+/**
+ * Cluster config for a devnet or local validator deployment
+ * Addresses come from the deployment; the RPC URL defaults to the public
+ * devnet endpoint / solana-test-validator, assets to SOL only.
+ */
+export function privacyCashCluster(
+  cluster: 'devnet' | 'localnet',
+  deployment: {
+    programId: string;
+    altAddress: string;
+    relayerUrl: string;
+    rpcUrl?: string;
+    keyBasePath?: string;
+    assets?: Array<Omit<PrivacyCashAssetInfo, 'cluster'>>;
+  }
+): PrivacyCashClusterConfig {
+  return {
+    cluster,
+    rpcUrl: deployment.rpcUrl ?? DEFAULT_RPC_URLS[cluster],
+    programId: deployment.programId,
+    altAddress: deployment.altAddress,
+    relayerUrl: deployment.relayerUrl,
+    keyBasePath: deployment.keyBasePath ?? PRIVACY_CASH_MAINNET.keyBasePath,
+    assets: (deployment.assets ?? [{ symbol: 'SOL', decimals: 9 }]).map((asset) => ({
+      ...asset,
+      cluster,
+    })),
+  };
+}
+
+/**
+ * Environment variables that point the Privacy Cash SDK at a deployment
+ * The SDK reads them once when it is imported - set them before that, e.g.
+ * with a Node preload script or the bundler's define option.
+ */
+export function privacyCashEnv(config: PrivacyCashClusterConfig): Record<string, string> {
+  const env: Record<string, string> = {
+    NEXT_PUBLIC_PROGRAM_ID: config.programId,
+    NEXT_PUBLIC_ALT_ADDRESS: config.altAddress,
+    NEXT_PUBLIC_RELAYER_API_URL: config.relayerUrl,
+  };
+  for (const asset of config.assets) {
+    if (asset.mint !== undefined) {
+      env[`NEXT_PUBLIC_${asset.symbol.toUpperCase()}_MINT`] = asset.mint;
+    }
+  }
+  return env;
+}
+
+/**
+ * Throw if the loaded SDK targets another deployment than the cluster config
+ * Without process.env the SDK runs on its mainnet defaults, so only
+ * mainnet-beta is accepted there - bundles for other clusters must define
+ * process.env (e.g. with the bundler's define option)
+ */
+export function assertSdkDeployment(config: PrivacyCashClusterConfig): void {
+  const env = readProcessEnv();
+  if (!env) {
+    if (config.cluster !== 'mainnet-beta') {
+      throw new Error(
+        `Privacy Cash SDK deployment cannot be verified without process.env - ` +
+          `cluster ${config.cluster} needs ${Object.keys(privacyCashEnv(config)).join(', ')} defined`
+      );
+    }
+    return;
+  }
+
+  const defaults = privacyCashEnv(PRIVACY_CASH_MAINNET);
+  for (const [name, expected] of Object.entries(privacyCashEnv(config))) {
+    // Mints are checked by the asset registry
+    if (name.endsWith('_MINT')) continue;
+
+    const actual = env[name] ?? defaults[name];
+    if (actual !== expected) {
+      throw new Error(
+        `Privacy Cash SDK is configured with ${name}=${actual ?? '(unset)'}, ` +
+          `cluster ${config.cluster} needs ${expected} - set it before the SDK is imported`
+      );
+    }
+  }
+}
+
+/**
+ * process.env as the SDK sees it, or null where there is none
+ * Read directly - bundlers replace process.env without defining process
+ */
+function readProcessEnv(): Record<string, string | undefined> | null {
+  try {
+    return process.env ?? null;
+  } catch {
+    return null;
+  }
+}
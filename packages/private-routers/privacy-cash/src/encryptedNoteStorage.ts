@@ -0,0 +1,280 @@
+import type { NoteStorage } from './storage';
+
+/**
+ * Key material for EncryptedNoteStorage and note backups
+ * - passphrase: stretched with PBKDF2 (salt kept next to the entries / in the backup)
+ * - secret: high-entropy bytes, e.g. the wallet signature the note keys are derived from
+ */
+export type NoteKeySource = { passphrase: string } | { secret: Uint8Array };
+
+type StorageMeta = {
+  version: 1;
+  salt: string;
+
+  /**
+   * Known plaintext encrypted with the key - tells a wrong key from corrupt entries
+   */
+  check: string;
+};
+
+export type DerivedKeys = { cipher: CryptoKey; mac: CryptoKey };
+
+const META_KEY = 'meta';
+const ENTRY_PREFIX = 'note:';
+const CHECK_PLAINTEXT = 'privacy-cash-notes';
+const PBKDF2_ITERATIONS = 310_000;
+
+const encoder = new TextEncoder();
+
+/**
+ * Encrypt-at-rest wrapper around another NoteStorage
+ * Values are sealed with AES-GCM and key names replaced by an HMAC, so the
+ * backend reveals neither the wallet address nor the cached notes.
+ *
+ * Entries that fail to decrypt are treated as missing - the SDK downloads
+ * them again. Not safe to use from two instances at the same time.
+ */
+export class EncryptedNoteStorage implements NoteStorage {
+  private derived: Promise<DerivedKeys> | null = null;
+
+  constructor(
+    private readonly backend: NoteStorage,
+    private source: NoteKeySource
+  ) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const derived = await this.unlock();
+    const id = await entryId(derived, key);
+    const raw = await this.backend.getItem(id);
+    if (raw === null) return null;
+
+    const entry = await openEntry(derived, id, raw);
+    return entry?.[0] === key ? entry[1] : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const derived = await this.unlock();
+    const id = await entryId(derived, key);
+    await this.backend.setItem(id, await seal(derived.cipher, id, JSON.stringify([key, value])));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const derived = await this.unlock();
+    await this.backend.removeItem(await entryId(derived, key));
+  }
+
+  async keys(): Promise<string[]> {
+    const entries = await this.readAll(await this.unlock());
+    return entries.map((e) => e.key);
+  }
+
+  /**
+   * Re-encrypt every entry under a new key
+   * New entries are written before the old ones are removed, so an
+   * interrupted rotation loses nothing the old key could still read.
+   */
+  async rotateKey(next: NoteKeySource): Promise<void> {
+    const entries = await this.readAll(await this.unlock());
+
+    const { meta, derived } = await createMeta(next);
+    const written = new Set<string>();
+    for (const { key, value } of entries) {
+      const id = await entryId(derived, key);
+      await this.backend.setItem(id, await seal(derived.cipher, id, JSON.stringify([key, value])));
+      written.add(id);
+    }
+    await this.backend.setItem(META_KEY, JSON.stringify(meta));
+
+    for (const { id } of entries) {
+      if (!written.has(id)) await this.backend.removeItem(id);
+    }
+
+    this.source = next;
+    this.derived = Promise.resolve(derived);
+  }
+
+  /**
+   * Remove all entries and the key metadata
+   * The next write starts a fresh store under the current key source
+   */
+  async wipe(): Promise<void> {
+    for (const id of await this.backend.keys()) {
+      if (id === META_KEY || id.startsWith(ENTRY_PREFIX)) {
+        await this.backend.removeItem(id);
+      }
+    }
+    this.derived = null;
+  }
+
+  /**
+   * Derive the keys from the stored metadata (or create it on first use)
+   */
+  private unlock(): Promise<DerivedKeys> {
+    if (!this.derived) {
+      this.derived = this.loadKeys();
+      // Allow a retry, e.g. with another passphrase
+      this.derived.catch(() => {
+        this.derived = null;
+      });
+    }
+    return this.derived;
+  }
+
+  private async loadKeys(): Promise<DerivedKeys> {
+    const raw = await this.backend.getItem(META_KEY);
+    if (raw === null) {
+      const { meta, derived } = await createMeta(this.source);
+      await this.backend.setItem(META_KEY, JSON.stringify(meta));
+      return derived;
+    }
+
+    const meta = JSON.parse(raw) as StorageMeta;
+    if (meta.version !== 1) {
+      throw new Error(`Unsupported note storage version: ${String(meta.version)}`);
+    }
+    const derived = await deriveKeys(this.source, fromBase64(meta.salt));
+    if ((await open(derived.cipher, META_KEY, meta.check)) !== CHECK_PLAINTEXT) {
+      throw new Error('Note storage key does not match - wrong passphrase or wallet');
+    }
+    return derived;
+  }
+
+  private async readAll(
+    derived: DerivedKeys
+  ): Promise<Array<{ id: string; key: string; value: string }>> {
+    const entries: Array<{ id: string; key: string; value: string }> = [];
+    for (const id of await this.backend.keys()) {
+      if (!id.startsWith(ENTRY_PREFIX)) continue;
+      const raw = await this.backend.getItem(id);
+      const entry = raw === null ? null : await openEntry(derived, id, raw);
+      if (entry) entries.push({ id, key: entry[0], value: entry[1] });
+    }
+    return entries;
+  }
+}
+
+async function createMeta(
+  source: NoteKeySource
+): Promise<{ meta: StorageMeta; derived: DerivedKeys }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const derived = await deriveKeys(source, salt);
+  return {
+    meta: {
+      version: 1,
+      salt: toBase64(salt),
+      check: await seal(derived.cipher, META_KEY, CHECK_PLAINTEXT),
+    },
+    derived,
+  };
+}
+
+/**
+ * Passphrase -> PBKDF2 -> HKDF, secret -> HKDF; one AES-GCM and one HMAC key
+ */
+export async function deriveKeys(
+  source: NoteKeySource,
+  salt: Uint8Array<ArrayBuffer>
+): Promise<DerivedKeys> {
+  const { subtle } = crypto;
+
+  let material: ArrayBuffer | Uint8Array<ArrayBuffer>;
+  if ('passphrase' in source) {
+    const passphrase = await subtle.importKey(
+      'raw',
+      encoder.encode(source.passphrase),
+      'PBKDF2',
+      false,
+      ['deriveBits']
+    );
+    material = await subtle.deriveBits(
+      { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+      passphrase,
+      256
+    );
+  } else {
+    material = new Uint8Array(source.secret);
+  }
+
+  const hkdf = await subtle.importKey('raw', material, 'HKDF', false, ['deriveKey']);
+  const params = (info: string) => ({
+    name: 'HKDF',
+    hash: 'SHA-256',
+    salt,
+    info: encoder.encode(info),
+  });
+
+  return {
+    cipher: await subtle.deriveKey(
+      params('privacy-cash-notes:cipher'),
+      hkdf,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    ),
+    mac: await subtle.deriveKey(
+      params('privacy-cash-notes:mac'),
+      hkdf,
+      { name: 'HMAC', hash: 'SHA-256', length: 256 },
+      false,
+      ['sign']
+    ),
+  };
+}
+
+async function entryId(derived: DerivedKeys, key: string): Promise<string> {
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', derived.mac, encoder.encode(key)));
+  return ENTRY_PREFIX + Array.from(mac, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * AES-GCM with the storage id as associated data, so entries cannot be swapped
+ * Output: base64(iv || ciphertext)
+ */
+export async function seal(key: CryptoKey, id: string, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(id) },
+    key,
+    encoder.encode(plaintext)
+  );
+  const sealed = new Uint8Array(iv.length + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), iv.length);
+  return toBase64(sealed);
+}
+
+/**
+ * Inverse of seal() - null when the key is wrong or the data was tampered with
+ */
+export async function open(key: CryptoKey, id: string, sealed: string): Promise<string | null> {
+  try {
+    const bytes = fromBase64(sealed);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.slice(0, 12), additionalData: encoder.encode(id) },
+      key,
+      bytes.slice(12)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    return null;
+  }
+}
+
+async function openEntry(
+  derived: DerivedKeys,
+  id: string,
+  sealed: string
+): Promise<[string, string] | null> {
+  const plaintext = await open(derived.cipher, id, sealed);
+  return plaintext === null ? null : (JSON.parse(plaintext) as [string, string]);
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
@@ -0,0 +1,78 @@
+/**
+ * Relayer fee configuration (rates and rents in whole tokens, as served)
+ */
+export type PrivacyCashFeeConfig = {
+  withdrawFeeRate: number;
+  withdrawRentFee: number;
+
+  /**
+   * SPL withdraw rent fees keyed by SDK token name
+   */
+  rentFees: Record<string, number>;
+};
+
+/**
+ * How long fetched fee config is reused (ms)
+ */
+export const DEFAULT_FEE_CONFIG_TTL_MS = 60_000;
+
+/**
+ * Fee config read from the relayer's /config endpoint, reused for ttlMs
+ * Concurrent reads share one request; a failed request is not cached.
+ * The SDK keeps its own copy, read once per page / process, and charges
+ * withdrawals with that.
+ */
+export class FeeConfigCache {
+  private cached: { config: Promise<PrivacyCashFeeConfig>; fetchedAt: number } | null = null;
+
+  constructor(
+    private readonly relayerUrl: string,
+    private readonly ttlMs = DEFAULT_FEE_CONFIG_TTL_MS
+  ) {}
+
+  /**
+   * Cached config, fetched again once older than ttlMs
+   */
+  get(): Promise<PrivacyCashFeeConfig> {
+    if (this.cached && Date.now() - this.cached.fetchedAt < this.ttlMs) {
+      return this.cached.config;
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Fetch the config now, replacing the cached one
+   */
+  refresh(): Promise<PrivacyCashFeeConfig> {
+    const entry = { config: this.fetchConfig(), fetchedAt: Date.now() };
+    this.cached = entry;
+    entry.config.catch(() => {
+      if (this.cached === entry) this.cached = null;
+    });
+    return entry.config;
+  }
+
+  private async fetchConfig(): Promise<PrivacyCashFeeConfig> {
+    const url = `${this.relayerUrl}/config`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Privacy Cash fee config from ${url}: ${response.status}`);
+    }
+    const config = (await response.json()) as Record<string, unknown>;
+
+    const read = <T>(key: string, valid: (value: unknown) => boolean): T => {
+      if (!valid(config[key])) {
+        throw new Error(`can not get ${key} from ${url}`);
+      }
+      return config[key] as T;
+    };
+    return {
+      withdrawFeeRate: read<number>('withdraw_fee_rate', (v) => typeof v === 'number'),
+      withdrawRentFee: read<number>('withdraw_rent_fee', (v) => typeof v === 'number'),
+      rentFees: read<Record<string, number>>(
+        'rent_fees',
+        (v) => typeof v === 'object' && v !== null
+      ),
+    };
+  }
+}
@@ -3,12 +3,52 @@ export type {
   PrivacyCashConfig,
   PrivacyCashConfigPrivateKey,
   PrivacyCashConfigWalletSigner,
+  PrivacyCashConfigAccount,
   PrivacyCashAsset,
   WalletSigner,
 } from './types';
 export {
   SPL_MINTS,
   PRIVACY_CASH_SIGN_MESSAGE,
+  PRIVACY_CASH_SDK_SIGN_MESSAGE,
   isPrivateKeyConfig,
   isWalletSignerConfig,
+  isAccountConfig,
 } from './types';
+export type { NoteStorage, MaybePromise } from './storage';
+export {
+  MemoryNoteStorage,
+  WebStorageNoteStorage,
+  IndexedDbNoteStorage,
+  FileSystemNoteStorage,
+} from './storage';
+export { EncryptedNoteStorage } from './encryptedNoteStorage';
+export type { NoteKeySource } from './encryptedNoteStorage';
+export {
+  PrivacyCashAssetRegistry,
+  DEFAULT_PRIVACY_CASH_ASSETS,
+} from './assetRegistry';
+export type {
+  PrivacyCashAssetInfo,
+  PrivacyCashCluster,
+  ResolvedPrivacyCashAsset,
+} from './assetRegistry';
+export { exposePrivacyCashProver } from './proverWorker';
+export type {
+  ProverWorker,
+  WebProverWorker,
+  NodeProverWorker,
+  ProverParentPort,
+} from './proverWorker';
+export { PRIVACY_CASH_MAINNET, privacyCashCluster, privacyCashEnv } from './clusters';
+export type { PrivacyCashClusterConfig } from './clusters';
+export { CONSOLIDATION_DEPOSIT } from './utxos';
+export type {
+  PrivacyCashUtxo,
+  ConsolidateOptions,
+  ConsolidateResult,
+  ConsolidationPreview,
+  ConsolidationProgress,
+} from './utxos';
+export { DEFAULT_FEE_CONFIG_TTL_MS } from './feeConfig';
+export type { PrivacyCashFeeConfig } from './feeConfig';
@@ -0,0 +1,110 @@
+import type { PrivacyCashCluster } from './assetRegistry';
+import { deriveKeys, fromBase64, open, seal, toBase64 } from './encryptedNoteStorage';
+import type { NoteKeySource } from './encryptedNoteStorage';
+
+const BACKUP_FORMAT = 'privacy-cash-note-backup';
+const BACKUP_VERSION = 1;
+
+/**
+ * What the backed up notes were derived with - checked on import, since
+ * notes only decrypt under the same wallet, deployment and sign-in message
+ */
+export type NoteBackupMetadata = {
+  address: string;
+  cluster: PrivacyCashCluster;
+  programId: string;
+  keyDerivationMessage: string;
+};
+
+/**
+ * Backup file - everything but the header is encrypted
+ */
+type NoteBackupFile = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  salt: string;
+
+  /**
+   * Sealed NoteBackupPayload, authenticated together with the header
+   */
+  data: string;
+};
+
+export type NoteBackupPayload = NoteBackupMetadata & {
+  entries: Array<[string, string]>;
+};
+
+/**
+ * Seal note cache entries into a versioned JSON backup
+ * AES-GCM under a fresh salt; the header is the associated data, so any
+ * change to the file fails the import.
+ */
+export async function createNoteBackup(
+  payload: NoteBackupPayload,
+  key: NoteKeySource
+): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const header = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    salt: toBase64(salt),
+  } as const;
+
+  const { cipher } = await deriveKeys(key, salt);
+  const file: NoteBackupFile = {
+    ...header,
+    data: await seal(cipher, associatedData(header), JSON.stringify(payload)),
+  };
+  return JSON.stringify(file);
+}
+
+/**
+ * Decrypt and check a backup made by createNoteBackup()
+ */
+export async function openNoteBackup(
+  backup: string,
+  key: NoteKeySource
+): Promise<NoteBackupPayload> {
+  let file: Partial<NoteBackupFile>;
+  try {
+    file = JSON.parse(backup) as Partial<NoteBackupFile>;
+  } catch {
+    throw new Error('Not a Privacy Cash note backup: invalid JSON');
+  }
+  if (file?.format !== BACKUP_FORMAT) {
+    throw new Error('Not a Privacy Cash note backup');
+  }
+  if (file.version !== BACKUP_VERSION) {
+    throw new Error(`Unsupported note backup version: ${String(file.version)}`);
+  }
+  if (typeof file.salt !== 'string' || typeof file.data !== 'string') {
+    throw new Error('Note backup is incomplete');
+  }
+
+  const { cipher } = await deriveKeys(key, fromBase64(file.salt));
+  const plaintext = await open(
+    cipher,
+    associatedData({
+      format: file.format,
+      version: file.version,
+      createdAt: String(file.createdAt),
+      salt: file.salt,
+    }),
+    file.data
+  );
+  if (plaintext === null) {
+    throw new Error('Note backup does not decrypt - wrong key, or the file was modified');
+  }
+
+  const payload = JSON.parse(plaintext) as NoteBackupPayload;
+  if (!Array.isArray(payload.entries)) {
+    throw new Error('Note backup has no note entries');
+  }
+  return payload;
+}
+
+function associatedData(header: Omit<NoteBackupFile, 'data'>): string {
+  return [header.format, header.version, header.createdAt, header.salt].join(':');
+}
@@ -1,8 +1,27 @@
 import type {
   PrivacyProvider,
+  ProviderCapabilities,
+  FeeQuote,
+  FeeRate,
+  QuoteParams,
   FundingStatus,
   WithdrawStatus,
   WithdrawDestination,
+  ProvingProgress,
+} from '@privacy-router-sdk/private-routers-core';
+import {
+  applyFeeRate,
+  buildFeeQuote,
+  decimalToBaseUnits,
+  feeRateFromDecimal,
+  getErrorCode,
+  solveGrossAmount,
+  throwIfAborted,
+  AbortedError,
+  BelowProviderMinimum,
+  InsufficientShieldedBalance,
+  ProviderUnavailable,
+  SignerCapabilityMissing,
 } from '@privacy-router-sdk/private-routers-core';
 import type { Account } from '@privacy-router-sdk/signers-core';
 import { Connection, Keypair, PublicKey, VersionedTransaction } from '@solana/web3.js';
@@ -12,25 +31,56 @@ import type { LightWasm } from '@lightprotocol/hasher.rs';
 import { PrivacyCash } from 'privacycash';
 // Low-level functions for browser wallet support (direct signing, no middleman)
 import {
-  deposit as privacyCashDeposit,
-  withdraw as privacyCashWithdraw,
   getUtxos,
   getBalanceFromUtxos,
   EncryptionService,
-  depositSPL as privacyCashDepositSPL,
-  withdrawSPL as privacyCashWithdrawSPL,
   getUtxosSPL,
   getBalanceFromUtxosSPL,
-  getConfig,
 } from 'privacycash/utils';
 import type {
   PrivacyCashConfig,
-  PrivacyCashAsset,
+  PrivacyCashConfigAccount,
+  PrivacyCashConfigWalletSigner,
   WalletSigner,
 } from './types';
+import { PrivacyCashAssetRegistry } from './assetRegistry';
+import type { PrivacyCashCluster, ResolvedPrivacyCashAsset } from './assetRegistry';
+import { PRIVACY_CASH_MAINNET, assertSdkDeployment } from './clusters';
+import type { PrivacyCashClusterConfig } from './clusters';
+import { EncryptedNoteStorage } from './encryptedNoteStorage';
+import { FeeConfigCache } from './feeConfig';
+import { createNoteBackup, openNoteBackup } from './noteBackup';
+import type { NoteBackupMetadata } from './noteBackup';
+import type { PrivacyCashFeeConfig } from './feeConfig';
+import type { NoteKeySource } from './encryptedNoteStorage';
+import { ProverWorkerClient } from './proverWorker';
+import { createProgressTracker, loadCircuit, runSdkCall } from './provingProgress';
+import { PARTIAL_WITHDRAWAL_REFUSED, runShieldedOperation } from './shieldedOperation';
+import type { ShieldedOperation } from './shieldedOperation';
+import {
+  defaultNoteStorage,
+  encryptLegacyNotes,
+  loadNoteCache,
+  wipeNoteStorage,
+  WebStorageNoteStorage,
+} from './storage';
+import type { NoteCache, NoteStorage } from './storage';
+import {
+  CONSOLIDATION_DEPOSIT,
+  describeUtxos,
+  planConsolidation,
+  spendableInOneWithdrawal,
+} from './utxos';
+import type {
+  ConsolidateOptions,
+  ConsolidateResult,
+  ConsolidationPreview,
+  PrivacyCashUtxo,
+  SdkUtxo,
+} from './utxos';
 import {
-  SPL_MINTS,
   PRIVACY_CASH_SIGN_MESSAGE,
+  isAccountConfig,
   isPrivateKeyConfig,
   isWalletSignerConfig,
 } from './types';
@@ -50,85 +100,136 @@ type PrivacyCashClient = {
   }): Promise<TxResult>;
   getPrivateBalance(): Promise<BalanceResult>;
   getPrivateBalanceSpl(mintAddress: string): Promise<SplBalanceResult>;
+  clearCache(): Promise<unknown>;
 };
 
-// Constants
-const KEY_BASE_PATH = '/circuit2/transaction2';
+/**
+ * Base units as the number the Privacy Cash SDK takes
+ * Throws instead of silently rounding amounts beyond 2^53
+ */
+function toSdkAmount(baseUnits: bigint): number {
+  if (baseUnits < 0n || baseUnits > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error(`Amount out of range for Privacy Cash: ${baseUnits}`);
+  }
+  return Number(baseUnits);
+}
+
+type SigningAccount = Account & Required<Pick<Account, 'signMessage' | 'signTransaction'>>;
 
 /**
- * Get browser storage (localStorage in browser, mock for Node)
+ * Throw unless the account signs messages (key derivation) and transactions (deposits)
  */
-function getStorage(): Storage {
-  if (typeof window !== 'undefined' && window.localStorage) {
-    return window.localStorage;
+function assertSigningAccount(account: Account): asserts account is SigningAccount {
+  if (!account.signMessage) {
+    throw new SignerCapabilityMissing({ capability: 'signMessage' });
   }
-  // For Node.js environments, use a simple in-memory storage
-  const store: Record<string, string> = {};
+  if (!account.signTransaction) {
+    throw new SignerCapabilityMissing({ capability: 'signTransaction' });
+  }
+}
+
+/**
+ * Wallet signer backed by a signers-core Account
+ * Only signatures leave the account, never the keys
+ */
+async function accountWalletSigner(account: Account): Promise<WalletSigner> {
+  assertSigningAccount(account);
+  const { signMessage, signTransaction } = account;
+
   return {
-    getItem: (key: string) => store[key] || null,
-    setItem: (key: string, value: string) => { store[key] = value; },
-    removeItem: (key: string) => { delete store[key]; },
-    clear: () => { Object.keys(store).forEach(k => delete store[k]); },
-    key: (index: number) => Object.keys(store)[index] || null,
-    length: Object.keys(store).length,
-  } as Storage;
+    publicKey: new PublicKey(await account.getAddress()),
+    signMessage: (message) => signMessage(message),
+    signTransaction: (tx) => signTransaction(tx),
+  };
 }
 
 /**
  * Privacy Cash Provider
  * Implements PrivacyProvider using Privacy Cash on Solana
  *
- * Supports two modes:
- * 1. Private key mode: Uses PrivacyCash class directly (for mnemonic wallets)
+ * One instance serves all registered assets - the asset is passed per call,
+ * so switching assets never requires a new signature
+ *
+ * Supports three modes:
+ * 1. Private key mode: Uses PrivacyCash class directly (secret key handed to the SDK)
  * 2. Wallet signer mode: Uses low-level functions with transactionSigner (for browser extension wallets)
  *    - NO intermediate keypair holding SOL
  *    - Wallet signs deposit transaction directly
  *    - Only signature needed to derive encryption key for notes
+ * 3. Account mode: wallet signer mode on top of any signers-core Account
+ *    (mnemonic, wallet adapter, Ledger) - the secret key never leaves the account
  */
 export class PrivacyCashProvider implements PrivacyProvider {
   readonly name = 'privacy-cash';
 
+  /**
+   * Supported assets - register more at runtime
+   */
+  readonly assets: PrivacyCashAssetRegistry;
+
+  private readonly clusterConfig: PrivacyCashClusterConfig;
+  private readonly cluster: PrivacyCashCluster;
+
   // For private key mode (mnemonic wallets)
   private client: PrivacyCashClient | null = null;
   private ownerKeypair: Keypair | null = null;
 
-  // For wallet signer mode (browser wallets) - NO middleman keypair
+  // For wallet signer and account mode - NO middleman keypair
+  private signerConfig: PrivacyCashConfigWalletSigner | PrivacyCashConfigAccount | null = null;
   private walletSigner: WalletSigner | null = null;
   private encryptionService: EncryptionService | null = null;
   private connection: Connection | null = null;
   private lightWasm: LightWasm | null = null;
+  private noteStorage: NoteStorage | null = null;
+  private encryptedStorage: EncryptedNoteStorage | null = null;
+  private legacyNotes: WebStorageNoteStorage | null = null;
+  private noteCache: Promise<NoteCache> | null = null;
+  private walletSignature: Uint8Array | null = null;
+  private prover: ProverWorkerClient | null = null;
 
   // Common
-  private asset: PrivacyCashAsset;
   private config: PrivacyCashConfig;
+  private readonly feeConfig: FeeConfigCache;
+  private readonly debug: boolean;
   private initialized = false;
 
-  /**
-   * Change the asset without re-initializing
-   * This avoids requiring a new signature when switching between SOL/USDC/USDT
-   */
-  setAsset(asset: PrivacyCashAsset): void {
-    this.asset = asset;
-  }
-
-  /**
-   * Get the current asset
-   */
-  getAsset(): PrivacyCashAsset {
-    return this.asset;
-  }
-
-  constructor(config: PrivacyCashConfig, asset: PrivacyCashAsset = 'SOL') {
+  constructor(config: PrivacyCashConfig) {
     this.config = config;
-    this.asset = asset;
+    this.clusterConfig = typeof config.cluster === 'object' ? config.cluster : PRIVACY_CASH_MAINNET;
+    this.cluster = this.clusterConfig.cluster;
+    assertSdkDeployment(this.clusterConfig);
+    this.feeConfig = new FeeConfigCache(this.clusterConfig.relayerUrl, config.feeConfigTtlMs);
+    this.debug = config.enableDebug ?? false;
+
+    this.assets =
+      config.assets instanceof PrivacyCashAssetRegistry
+        ? config.assets
+        : new PrivacyCashAssetRegistry(config.assets ?? this.clusterConfig.assets);
 
     // If private key mode, initialize immediately
     if (isPrivateKeyConfig(config)) {
       this.initializeWithPrivateKey(config.owner, config.rpcUrl, config.enableDebug);
       this.initialized = true;
-    } else if (isWalletSignerConfig(config)) {
-      // Wallet signer mode - defer initialization until first use
-      this.walletSigner = config.walletSigner;
+    } else if (isWalletSignerConfig(config) || isAccountConfig(config)) {
+      // Wallet signer / account mode - defer initialization until first use
+      this.signerConfig = config;
+      if (isWalletSignerConfig(config)) {
+        this.walletSigner = config.walletSigner;
+      } else {
+        assertSigningAccount(config.account);
+      }
+      if (config.storage) {
+        this.noteStorage = config.storage;
+      } else {
+        this.noteStorage = defaultNoteStorage(Boolean(config.encryptStorage));
+        // Plaintext notes of earlier versions - encrypted on first load
+        if (config.encryptStorage && this.noteStorage instanceof WebStorageNoteStorage) {
+          this.legacyNotes = this.noteStorage;
+        }
+      }
+      if (config.proverWorker) {
+        this.prover = new ProverWorkerClient(config.proverWorker);
+      }
     }
   }
 
@@ -137,7 +238,7 @@ export class PrivacyCashProvider implements PrivacyProvider {
     rpcUrl?: string,
     enableDebug?: boolean
   ): void {
-    const finalRpcUrl = rpcUrl || process.env['SOLANA_RPC_URL'];
+    const finalRpcUrl = rpcUrl || process.env['SOLANA_RPC_URL'] || this.clusterConfig.rpcUrl;
 
     if (!finalRpcUrl) {
       throw new Error(
@@ -162,18 +263,19 @@ export class PrivacyCashProvider implements PrivacyProvider {
   }
 
   /**
-   * Initialize for wallet signer mode (browser extension wallets)
+   * Initialize for wallet signer / account mode
    * This prompts the user to sign a message to derive encryption keys
    * NO keypair is created to hold SOL - wallet signs transactions directly
    */
   private async initializeWithWalletSigner(): Promise<void> {
-    if (this.initialized || !this.walletSigner) {
+    if (this.initialized || !this.signerConfig) {
       return;
     }
 
     const rpcUrl =
-      (this.config as { rpcUrl?: string }).rpcUrl ||
-      process.env['SOLANA_RPC_URL'];
+      this.signerConfig.rpcUrl ||
+      process.env['SOLANA_RPC_URL'] ||
+      this.clusterConfig.rpcUrl;
 
     if (!rpcUrl) {
       throw new Error(
@@ -187,27 +289,119 @@ export class PrivacyCashProvider implements PrivacyProvider {
     // Load WASM module
     this.lightWasm = await WasmFactory.getInstance();
 
+    if (!this.walletSigner && isAccountConfig(this.signerConfig)) {
+      this.walletSigner = await accountWalletSigner(this.signerConfig.account);
+    }
+    if (!this.walletSigner) {
+      throw new Error('Wallet signer mode not properly initialized');
+    }
+
     // Ask user to sign message (one-time for encryption key derivation)
-    const messageBytes = new TextEncoder().encode(PRIVACY_CASH_SIGN_MESSAGE);
+    const messageBytes = new TextEncoder().encode(this.getKeyDerivationMessage());
     const signature = await this.walletSigner.signMessage(messageBytes);
 
     // Create encryption service and derive key from signature
     this.encryptionService = new EncryptionService();
     this.encryptionService.deriveEncryptionKeyFromSignature(signature);
+    this.walletSignature = signature;
 
     this.initialized = true;
   }
 
   /**
-   * Check if using wallet signer mode (browser extension wallet)
+   * Note cache for wallet signer mode, loaded from the storage backend once
+   */
+  private getNoteCache(): Promise<NoteCache> {
+    if (!this.noteCache) {
+      this.noteCache = Promise.resolve().then(async () => {
+        const backend = this.getNoteBackend();
+        if (this.legacyNotes) {
+          await encryptLegacyNotes(this.legacyNotes, backend);
+          this.legacyNotes = null;
+        }
+        return loadNoteCache(backend);
+      });
+      // Allow a retry after a failed load
+      this.noteCache.catch(() => {
+        this.noteCache = null;
+      });
+    }
+    return this.noteCache;
+  }
+
+  /**
+   * Configured note storage, wrapped in EncryptedNoteStorage when encryptStorage is set
+   */
+  private getNoteBackend(): NoteStorage {
+    if (!this.signerConfig || !this.noteStorage) {
+      throw new Error('Wallet signer mode not properly initialized');
+    }
+    const encryption = this.signerConfig.encryptStorage;
+    if (!encryption) {
+      return this.noteStorage;
+    }
+
+    if (!this.encryptedStorage) {
+      if (encryption === 'wallet' && !this.walletSignature) {
+        throw new Error('Wallet signature required before the note storage can be unlocked');
+      }
+      const source: NoteKeySource =
+        encryption === 'wallet' ? { secret: this.walletSignature! } : encryption;
+      this.encryptedStorage = new EncryptedNoteStorage(this.noteStorage, source);
+    }
+    return this.encryptedStorage;
+  }
+
+  /**
+   * Re-encrypt the note cache under a new key (encryptStorage must be set)
+   * Pass the matching encryptStorage option on the next construction -
+   * e.g. { passphrase } after rotating away from the wallet key
+   */
+  async rotateStorageKey(next: NoteKeySource): Promise<void> {
+    await this.ensureInitialized();
+    const cache = await this.getNoteCache();
+    if (!this.encryptedStorage) {
+      throw new Error('Note storage is not encrypted - set encryptStorage to rotate keys');
+    }
+    await cache.flush();
+    await this.encryptedStorage.rotateKey(next);
+  }
+
+  /**
+   * Delete the cached notes and forget the derived keys, e.g. on logout
+   * Funds are unaffected - notes are downloaded again on next use. Wallet
+   * signer mode asks for a new signature afterwards.
+   */
+  async wipe(): Promise<void> {
+    if (this.client) {
+      await this.client.clearCache();
+    }
+
+    if (this.noteStorage) {
+      const cache = this.noteCache;
+      this.noteCache = null;
+      // Let pending writes land first so none of them outlives the wipe
+      await cache?.then((c) => c.flush()).catch(() => undefined);
+      await wipeNoteStorage(this.noteStorage);
+
+      this.encryptedStorage = null;
+      this.walletSignature = null;
+      this.encryptionService = null;
+      this.initialized = false;
+    }
+  }
+
+  /**
+   * Check if using wallet signer or account mode (keys derived from a signature)
    */
   private isWalletSignerMode(): boolean {
-    return isWalletSignerConfig(this.config);
+    return this.signerConfig !== null;
   }
 
   /**
    * Get the user's public key
    * - For wallet signer mode: returns the wallet's public key
+   * - For account mode: returns the account's public key once initialized
    * - For private key mode: returns the owner keypair's public key
    */
   getPublicKey(): PublicKey | null {
@@ -228,6 +422,31 @@ export class PrivacyCashProvider implements PrivacyProvider {
     return pubkey?.toBase58() ?? null;
   }
 
+  /**
+   * Describe provider capabilities
+   * - Amounts are visible on-chain (deposit/withdraw amounts are public)
+   * - Wallet signer / account mode needs signMessage (key derivation) and signTransaction (deposits)
+   * - Private key mode signs locally, so only mnemonic accounts are supported
+   */
+  getCapabilities(): ProviderCapabilities {
+    const walletSignerMode = this.isWalletSignerMode();
+
+    let accountKinds: ProviderCapabilities['accountKinds'] = ['mnemonic'];
+    if (isAccountConfig(this.config)) {
+      accountKinds = ['mnemonic', 'wallet-adapter', 'ledger'];
+    } else if (walletSignerMode) {
+      accountKinds = ['wallet-adapter', 'ledger'];
+    }
+
+    return {
+      assets: this.assets.list(this.cluster).map(({ symbol, decimals }) => ({ symbol, decimals })),
+      amountsHidden: false,
+      privateTransfers: false,
+      requiredSignerFeatures: walletSignerMode ? ['signMessage', 'signTransaction'] : [],
+      accountKinds,
+    };
+  }
+
   /**
    * Ensure provider is initialized before use
    */
@@ -244,25 +463,31 @@ export class PrivacyCashProvider implements PrivacyProvider {
    * Check if provider needs signature initialization
    */
   needsSignature(): boolean {
-    return isWalletSignerConfig(this.config) && !this.initialized;
+    return this.isWalletSignerMode() && !this.initialized;
   }
 
   /**
    * Fund the privacy pool
    * - For wallet signer mode: wallet signs deposit tx directly (1 transaction, no middleman)
    * - For private key mode: deposits directly from owner address
+   * Abort is honoured until the deposit transaction is signed. Wallet signer
+   * mode repeats the depositing stage with proving progress.
    */
   async fund(params: {
     sourceAccount: Account;
+    asset: string;
     amount: string;
     onStatusChange?: (status: FundingStatus) => void;
+    signal?: AbortSignal;
   }): Promise<void> {
-    const { amount, onStatusChange } = params;
+    const { amount, onStatusChange, signal } = params;
 
     try {
       onStatusChange?.({ stage: 'preparing' });
 
+      const asset = this.resolveAsset(params.asset);
       await this.ensureInitialized();
+      throwIfAborted(signal, false);
 
       const baseUnits = BigInt(amount);
 
@@ -272,17 +497,20 @@ export class PrivacyCashProvider implements PrivacyProvider {
 
       if (this.isWalletSignerMode()) {
         // Browser wallet mode - direct deposit, no middleman!
-        txHash = await this.depositWithWalletSigner(baseUnits);
+        txHash = await this.depositWithWalletSigner(asset, baseUnits, signal, (progress) =>
+          onStatusChange?.({ stage: 'depositing', progress })
+        );
       } else {
         // Private key mode - use PrivacyCash class
-        txHash = await this.depositWithClient(baseUnits);
+        txHash = await this.depositWithClient(asset, baseUnits);
       }
 
       onStatusChange?.({ stage: 'completed', txHash });
-    } catch (error) {
+    } catch (caught) {
+      const error = await this.toRouterError(caught, params.asset, amount);
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
-      onStatusChange?.({ stage: 'failed', error: errorMessage });
+      onStatusChange?.({ stage: 'failed', error: errorMessage, code: getErrorCode(error) });
       throw error;
     }
   }
@@ -291,65 +519,51 @@ export class PrivacyCashProvider implements PrivacyProvider {
    * Deposit using wallet signer (browser extension)
    * Wallet signs the transaction directly - no intermediate keypair
    */
-  private async depositWithWalletSigner(baseUnits: bigint): Promise<string> {
-    if (!this.walletSigner || !this.connection || !this.encryptionService || !this.lightWasm) {
+  private async depositWithWalletSigner(
+    asset: ResolvedPrivacyCashAsset,
+    baseUnits: bigint,
+    signal?: AbortSignal,
+    onProgress?: (progress: ProvingProgress) => void
+  ): Promise<string> {
+    if (!this.walletSigner) {
       throw new Error('Wallet signer mode not properly initialized');
     }
-
-    const publicKey = new PublicKey(this.walletSigner.publicKey.toBase58());
-    const storage = getStorage();
+    const walletSigner = this.walletSigner;
 
     // Create transaction signer callback that uses the wallet
+    // Last safe point to abort - the proof is built but nothing is submitted yet
     const transactionSigner = async (tx: VersionedTransaction): Promise<VersionedTransaction> => {
-      return await this.walletSigner!.signTransaction(tx);
+      throwIfAborted(signal, false);
+      return await walletSigner.signTransaction(tx);
     };
 
-    if (this.asset === 'SOL') {
-      const result = await privacyCashDeposit({
-        lightWasm: this.lightWasm,
-        connection: this.connection,
-        amount_in_lamports: Number(baseUnits),
-        keyBasePath: KEY_BASE_PATH,
-        publicKey,
-        transactionSigner,
-        storage,
-        encryptionService: this.encryptionService,
-      });
-      return result.tx;
-    } else {
-      const mintAddress = new PublicKey(SPL_MINTS[this.asset]);
-      const result = await privacyCashDepositSPL({
-        lightWasm: this.lightWasm,
-        connection: this.connection,
-        base_units: Number(baseUnits),
-        keyBasePath: KEY_BASE_PATH,
-        publicKey,
-        transactionSigner,
-        storage,
-        encryptionService: this.encryptionService,
-        mintAddress,
-      });
-      return result.tx;
-    }
+    return this.runWithWalletSigner(
+      { kind: 'deposit', amount: toSdkAmount(baseUnits), mint: asset.mint },
+      transactionSigner,
+      signal,
+      onProgress
+    );
   }
 
   /**
    * Deposit using PrivacyCash client (private key mode)
    */
-  private async depositWithClient(baseUnits: bigint): Promise<string> {
+  private async depositWithClient(
+    asset: ResolvedPrivacyCashAsset,
+    baseUnits: bigint
+  ): Promise<string> {
     if (!this.client) {
       throw new Error('PrivacyCash client not initialized');
     }
+    const client = this.client;
 
-    if (this.asset === 'SOL') {
-      const result = await this.client.deposit({ lamports: Number(baseUnits) });
+    if (asset.mint === undefined) {
+      const lamports = toSdkAmount(baseUnits);
+      const result = await runSdkCall(() => client.deposit({ lamports }), undefined, this.debug);
       return result.tx;
     } else {
-      const mintAddress = SPL_MINTS[this.asset];
-      const result = await this.client.depositSPL({
-        base_units: Number(baseUnits),
-        mintAddress,
-      });
+      const params = { base_units: toSdkAmount(baseUnits), mintAddress: asset.mint };
+      const result = await runSdkCall(() => client.depositSPL(params), undefined, this.debug);
       return result.tx;
     }
   }
@@ -357,20 +571,40 @@ export class PrivacyCashProvider implements PrivacyProvider {
   /**
    * Withdraw from the privacy pool
    * No wallet signature needed - uses ZK proof
+   * Wallet signer / account mode honours abort until the proof is handed to
+   * the relayer, and repeats the processing stage with proving progress.
+   * Private key mode only checks it before the SDK call starts.
+   *
+   * Amounts above the private balance fail with InsufficientShieldedBalance.
+   * The SDK spends at most the two largest notes per withdrawal and sends what
+   * they hold when that is short of amount. strict refuses instead, with
+   * InsufficientShieldedBalance whose available is what the two notes hold -
+   * see consolidate(). Private key mode cannot see the notes and ignores it,
+   * checking against the private balance only.
    */
   async withdraw(params: {
     destination: WithdrawDestination;
+    asset: string;
     amount: string;
     onStatusChange?: (status: WithdrawStatus) => void;
+    signal?: AbortSignal;
+    strict?: boolean;
   }): Promise<void> {
-    const { destination, amount, onStatusChange } = params;
+    const { destination, amount, onStatusChange, signal, strict = false } = params;
 
     try {
       onStatusChange?.({ stage: 'preparing' });
 
+      const asset = this.resolveAsset(params.asset);
       await this.ensureInitialized();
+      throwIfAborted(signal, false);
 
       const baseUnits = BigInt(amount);
+      if (strict && this.isWalletSignerMode()) {
+        await this.assertSpendable(asset, baseUnits);
+      } else {
+        await this.assertBalance(asset, baseUnits);
+      }
 
       onStatusChange?.({ stage: 'processing' });
 
@@ -378,17 +612,25 @@ export class PrivacyCashProvider implements PrivacyProvider {
 
       if (this.isWalletSignerMode()) {
         // Browser wallet mode
-        txHash = await this.withdrawWithWalletSigner(baseUnits, destination.address);
+        txHash = await this.withdrawWithWalletSigner(
+          asset,
+          baseUnits,
+          destination.address,
+          strict,
+          signal,
+          (progress) => onStatusChange?.({ stage: 'processing', progress })
+        );
       } else {
         // Private key mode
-        txHash = await this.withdrawWithClient(baseUnits, destination.address);
+        txHash = await this.withdrawWithClient(asset, baseUnits, destination.address);
       }
 
       onStatusChange?.({ stage: 'completed', txHash });
-    } catch (error) {
+    } catch (caught) {
+      const error = await this.toRouterError(caught, params.asset, amount);
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
-      onStatusChange?.({ stage: 'failed', error: errorMessage });
+      onStatusChange?.({ stage: 'failed', error: errorMessage, code: getErrorCode(error) });
       throw error;
     }
   }
@@ -398,43 +640,83 @@ export class PrivacyCashProvider implements PrivacyProvider {
    * No wallet signature needed - just the encryption key for proof
    */
   private async withdrawWithWalletSigner(
+    asset: ResolvedPrivacyCashAsset,
     baseUnits: bigint,
-    recipientAddress: string
+    recipientAddress: string,
+    strict: boolean,
+    signal?: AbortSignal,
+    onProgress?: (progress: ProvingProgress) => void
   ): Promise<string> {
-    if (!this.walletSigner || !this.connection || !this.encryptionService || !this.lightWasm) {
+    return this.runWithWalletSigner(
+      {
+        kind: 'withdraw',
+        amount: toSdkAmount(baseUnits),
+        mint: asset.mint,
+        recipient: new PublicKey(recipientAddress).toBase58(),
+        strict,
+      },
+      () => Promise.reject(new Error('Withdrawals are not signed by the wallet')),
+      signal,
+      onProgress
+    );
+  }
+
+  /**
+   * Run a deposit / withdrawal in wallet signer mode
+   * Proves in the prover worker when one is configured, otherwise on this
+   * thread. Progress comes from the SDK's log messages.
+   */
+  private async runWithWalletSigner(
+    operation: ShieldedOperation,
+    transactionSigner: (tx: VersionedTransaction) => Promise<VersionedTransaction>,
+    signal?: AbortSignal,
+    onProgress?: (progress: ProvingProgress) => void
+  ): Promise<string> {
+    if (
+      !this.walletSigner ||
+      !this.connection ||
+      !this.encryptionService ||
+      !this.lightWasm ||
+      !this.walletSignature
+    ) {
       throw new Error('Wallet signer mode not properly initialized');
     }
 
     const publicKey = new PublicKey(this.walletSigner.publicKey.toBase58());
-    const recipient = new PublicKey(recipientAddress);
-    const storage = getStorage();
+    const { keyBasePath } = this.clusterConfig;
+    const { storage, flush } = await this.getNoteCache();
+    const tracker = createProgressTracker((progress) => onProgress?.(progress));
 
-    if (this.asset === 'SOL') {
-      const result = await privacyCashWithdraw({
+    try {
+      if (this.prover) {
+        return await this.prover.run(
+          operation,
+          {
+            rpcUrl: this.connection.rpcEndpoint,
+            keyBasePath,
+            publicKey: publicKey.toBase58(),
+            signature: this.walletSignature,
+            debug: this.debug,
+          },
+          { tracker, storage, transactionSigner, signal }
+        );
+      }
+
+      await loadCircuit(keyBasePath, (fraction) => tracker.advance('loading-circuit', fraction));
+      return await runShieldedOperation(operation, {
         lightWasm: this.lightWasm,
         connection: this.connection,
-        amount_in_lamports: Number(baseUnits),
-        keyBasePath: KEY_BASE_PATH,
+        keyBasePath,
         publicKey,
-        recipient,
-        storage,
         encryptionService: this.encryptionService,
-      });
-      return result.tx;
-    } else {
-      const mintAddress = new PublicKey(SPL_MINTS[this.asset]);
-      const result = await privacyCashWithdrawSPL({
-        lightWasm: this.lightWasm,
-        connection: this.connection,
-        base_units: Number(baseUnits),
-        keyBasePath: KEY_BASE_PATH,
-        publicKey,
-        recipient,
         storage,
-        encryptionService: this.encryptionService,
-        mintAddress,
+        transactionSigner,
+        signal,
+        onLog: tracker.onLog,
+        debug: this.debug,
       });
-      return result.tx;
+    } finally {
+      await flush();
     }
   }
 
@@ -442,95 +724,350 @@ export class PrivacyCashProvider implements PrivacyProvider {
    * Withdraw using PrivacyCash client (private key mode)
    */
   private async withdrawWithClient(
+    asset: ResolvedPrivacyCashAsset,
     baseUnits: bigint,
     recipientAddress: string
   ): Promise<string> {
     if (!this.client) {
       throw new Error('PrivacyCash client not initialized');
     }
+    const client = this.client;
 
-    if (this.asset === 'SOL') {
-      const result = await this.client.withdraw({
-        lamports: Number(baseUnits),
-        recipientAddress,
-      });
+    if (asset.mint === undefined) {
+      const params = { lamports: toSdkAmount(baseUnits), recipientAddress };
+      const result = await runSdkCall(() => client.withdraw(params), undefined, this.debug);
       return result.tx;
     } else {
-      const mintAddress = SPL_MINTS[this.asset];
-      const result = await this.client.withdrawSPL({
-        base_units: Number(baseUnits),
-        mintAddress,
+      const params = {
+        base_units: toSdkAmount(baseUnits),
+        mintAddress: asset.mint,
         recipientAddress,
-      });
+      };
+      const result = await runSdkCall(() => client.withdrawSPL(params), undefined, this.debug);
       return result.tx;
     }
   }
 
   /**
-   * Get private balance
+   * Get private balance of an asset
    */
-  async getPrivateBalance(): Promise<bigint> {
+  async getPrivateBalance(asset: string): Promise<bigint> {
+    const resolved = this.resolveAsset(asset);
     await this.ensureInitialized();
 
     if (this.isWalletSignerMode()) {
-      return this.getBalanceWithWalletSigner();
+      return this.getBalanceWithWalletSigner(resolved);
     } else {
-      return this.getBalanceWithClient();
+      return this.getBalanceWithClient(resolved);
+    }
+  }
+
+  /**
+   * Get private balances of all supported assets
+   * Fetched sequentially - UTXO scanning shares the same note cache
+   */
+  async getPrivateBalances(): Promise<Record<string, bigint>> {
+    const balances: Record<string, bigint> = {};
+    for (const { symbol } of this.assets.list(this.cluster)) {
+      balances[symbol] = await this.getPrivateBalance(symbol);
     }
+    return balances;
   }
 
   /**
    * Get balance using wallet signer mode
    */
-  private async getBalanceWithWalletSigner(): Promise<bigint> {
+  private async getBalanceWithWalletSigner(asset: ResolvedPrivacyCashAsset): Promise<bigint> {
+    const { storage, flush } = await this.getNoteCache();
+
+    try {
+      const utxos = await this.fetchUnspentUtxos(asset, storage);
+      if (asset.mint === undefined) {
+        return BigInt(getBalanceFromUtxos(utxos).lamports);
+      } else {
+        return BigInt(getBalanceFromUtxosSPL(utxos).base_units);
+      }
+    } finally {
+      await flush();
+    }
+  }
+
+  /**
+   * Unspent notes of an asset (wallet signer mode)
+   */
+  private async fetchUnspentUtxos(
+    asset: ResolvedPrivacyCashAsset,
+    storage: Storage
+  ): Promise<SdkUtxo[]> {
     if (!this.walletSigner || !this.connection || !this.encryptionService) {
       throw new Error('Wallet signer mode not properly initialized');
     }
 
     const publicKey = new PublicKey(this.walletSigner.publicKey.toBase58());
-    const storage = getStorage();
+    const params = {
+      publicKey,
+      connection: this.connection,
+      encryptionService: this.encryptionService,
+      storage,
+    };
 
-    if (this.asset === 'SOL') {
-      const utxos = await getUtxos({
-        publicKey,
-        connection: this.connection,
-        encryptionService: this.encryptionService,
-        storage,
-      });
-      const balance = getBalanceFromUtxos(utxos);
-      return BigInt(balance.lamports);
+    const { mint } = asset;
+    if (mint === undefined) {
+      return runSdkCall(() => getUtxos(params), undefined, this.debug);
     } else {
-      const mintAddress = new PublicKey(SPL_MINTS[this.asset]);
-      const utxos = await getUtxosSPL({
-        publicKey,
-        connection: this.connection,
-        encryptionService: this.encryptionService,
-        storage,
-        mintAddress,
-      });
-      const balance = getBalanceFromUtxosSPL(utxos);
-      return BigInt(balance.base_units);
+      const mintAddress = new PublicKey(mint);
+      return runSdkCall(() => getUtxosSPL({ ...params, mintAddress }), undefined, this.debug);
     }
   }
 
   /**
    * Get balance using PrivacyCash client (private key mode)
    */
-  private async getBalanceWithClient(): Promise<bigint> {
+  private async getBalanceWithClient(asset: ResolvedPrivacyCashAsset): Promise<bigint> {
     if (!this.client) {
       throw new Error('PrivacyCash client not initialized');
     }
+    const client = this.client;
 
-    if (this.asset === 'SOL') {
-      const result = await this.client.getPrivateBalance();
+    if (asset.mint === undefined) {
+      const result = await runSdkCall(() => client.getPrivateBalance(), undefined, this.debug);
       return BigInt(result.lamports);
     } else {
-      const mintAddress = SPL_MINTS[this.asset];
-      const result = await this.client.getPrivateBalanceSpl(mintAddress);
+      const mintAddress = asset.mint;
+      const result = await runSdkCall(
+        () => client.getPrivateBalanceSpl(mintAddress),
+        undefined,
+        this.debug
+      );
       return BigInt(result.base_units);
     }
   }
 
+  // ============================================
+  // Notes
+  // ============================================
+
+  /**
+   * List the shielded notes (UTXOs) of an asset, sorted by index
+   * Many small notes make withdrawals costlier or fail - see consolidate().
+   * Wallet signer / account mode only: the PrivacyCash class of private key
+   * mode does not expose its notes.
+   */
+  async listUtxos(asset: string): Promise<PrivacyCashUtxo[]> {
+    const resolved = this.resolveAsset(asset);
+    await this.ensureInitialized();
+    this.assertNotesAccessible('listUtxos()');
+
+    const { storage, flush } = await this.getNoteCache();
+    try {
+      const unspent = await this.fetchUnspentUtxos(resolved, storage);
+      return await describeUtxos(
+        resolved.symbol,
+        unspent,
+        storage,
+        `privacy-router:utxos:${resolved.sdkName}:${this.getAddress()}`
+      );
+    } finally {
+      await flush();
+    }
+  }
+
+  /**
+   * Preview consolidate() - transactions and fees, nothing is signed
+   */
+  async previewConsolidation(
+    asset: string,
+    options: Pick<ConsolidateOptions, 'targetNotes'> = {}
+  ): Promise<ConsolidationPreview> {
+    const utxos = await this.listUtxos(asset);
+    const unspent = utxos.filter((utxo) => !utxo.spent).length;
+    return planConsolidation(this.resolveAsset(asset).symbol, unspent, options.targetNotes);
+  }
+
+  /**
+   * Merge small notes into fewer outputs inside the pool
+   * Each step is a deposit of CONSOLIDATION_DEPOSIT base units, which the SDK
+   * merges with the first two unspent notes into one - one wallet signature
+   * per step. Stops at targetNotes; completed steps stay in effect on abort
+   * or failure.
+   */
+  async consolidate(asset: string, options: ConsolidateOptions = {}): Promise<ConsolidateResult> {
+    const { onProgress, signal } = options;
+    const preview = await this.previewConsolidation(asset, options);
+    const resolved = this.resolveAsset(asset);
+    const txHashes: string[] = [];
+
+    try {
+      for (let step = 1; step <= preview.transactions; step++) {
+        throwIfAborted(signal, txHashes.length > 0);
+        const report = (proving?: ProvingProgress) =>
+          onProgress?.({ transaction: step, transactions: preview.transactions, proving });
+        report();
+
+        txHashes.push(
+          await this.depositWithWalletSigner(resolved, CONSOLIDATION_DEPOSIT, signal, report)
+        );
+      }
+    } catch (caught) {
+      const error = await this.toRouterError(caught, asset, CONSOLIDATION_DEPOSIT.toString());
+      if (getErrorCode(error) === 'ABORTED' && txHashes.length > 0) {
+        throw new AbortedError(true);
+      }
+      throw error;
+    }
+
+    return { txHashes, notes: preview.notesBefore - txHashes.length };
+  }
+
+  /**
+   * Export the note cache as an encrypted, versioned JSON backup
+   * Sealed with the wallet signature unless a key is given, so the same
+   * wallet can restore it on any device. Restoring skips the rescan of
+   * chain state; notes added since are still downloaded.
+   */
+  async exportNotes(options: { key?: NoteKeySource } = {}): Promise<string> {
+    await this.ensureInitialized();
+    this.assertNotesAccessible('exportNotes()');
+
+    const { storage, flush } = await this.getNoteCache();
+    await flush();
+
+    const entries: Array<[string, string]> = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      const value = key === null ? null : storage.getItem(key);
+      if (key !== null && value !== null) entries.push([key, value]);
+    }
+
+    return createNoteBackup(
+      { ...this.getNoteBackupMetadata(), entries },
+      options.key ?? this.getBackupKey()
+    );
+  }
+
+  /**
+   * Restore a backup made by exportNotes() into the note cache
+   * The backup must come from the same wallet, deployment and key
+   * derivation message. Entries already cached are kept unless replace is set.
+   */
+  async importNotes(
+    backup: string,
+    options: { key?: NoteKeySource; replace?: boolean } = {}
+  ): Promise<{ imported: number; skipped: number }> {
+    await this.ensureInitialized();
+    this.assertNotesAccessible('importNotes()');
+
+    const payload = await openNoteBackup(backup, options.key ?? this.getBackupKey());
+    const expected = this.getNoteBackupMetadata();
+    for (const field of ['address', 'cluster', 'programId', 'keyDerivationMessage'] as const) {
+      if (payload[field] !== expected[field]) {
+        throw new Error(
+          `Note backup ${field} does not match this provider: ` +
+            `${payload[field]} instead of ${expected[field]}`
+        );
+      }
+    }
+
+    const { storage, flush } = await this.getNoteCache();
+    let imported = 0;
+    for (const [key, value] of payload.entries) {
+      if (options.replace || storage.getItem(key) === null) {
+        storage.setItem(key, value);
+        imported++;
+      }
+    }
+    await flush();
+
+    return { imported, skipped: payload.entries.length - imported };
+  }
+
+  /**
+   * What the notes of this provider are derived with (wallet signer / account mode)
+   */
+  private getNoteBackupMetadata(): NoteBackupMetadata {
+    const address = this.getAddress();
+    if (!address) {
+      throw new Error('Wallet signer mode not properly initialized');
+    }
+    return {
+      address,
+      cluster: this.cluster,
+      programId: this.clusterConfig.programId,
+      keyDerivationMessage: this.getKeyDerivationMessage(),
+    };
+  }
+
+  /**
+   * Default backup key - the wallet signature the note keys come from
+   */
+  private getBackupKey(): NoteKeySource {
+    if (!this.walletSignature) {
+      throw new Error('Wallet signature required before notes can be backed up');
+    }
+    return { secret: this.walletSignature };
+  }
+
+  /**
+   * Message the wallet signs to derive the note keys
+   */
+  private getKeyDerivationMessage(): string {
+    return this.signerConfig?.keyDerivationMessage ?? PRIVACY_CASH_SIGN_MESSAGE;
+  }
+
+  /**
+   * Throw unless notes are handled by this provider (wallet signer / account mode)
+   */
+  private assertNotesAccessible(feature: string): void {
+    if (!this.isWalletSignerMode()) {
+      throw new Error(
+        `${feature} needs wallet signer or account mode - private key mode hides notes`
+      );
+    }
+  }
+
+  /**
+   * Throw unless the private balance covers baseUnits (fee included)
+   * The SDK would otherwise withdraw whatever its notes hold
+   */
+  private async assertBalance(asset: ResolvedPrivacyCashAsset, baseUnits: bigint): Promise<void> {
+    const available = this.isWalletSignerMode()
+      ? await this.getBalanceWithWalletSigner(asset)
+      : await this.getBalanceWithClient(asset);
+
+    if (available < baseUnits) {
+      throw new InsufficientShieldedBalance({
+        provider: this.name,
+        asset: asset.symbol,
+        required: baseUnits,
+        available,
+      });
+    }
+  }
+
+  /**
+   * Throw unless one withdrawal can spend baseUnits (fee included)
+   * Checked before loading the circuit to fail fast - the strict operation
+   * checks again right before the SDK picks its inputs
+   */
+  private async assertSpendable(asset: ResolvedPrivacyCashAsset, baseUnits: bigint): Promise<void> {
+    const { storage, flush } = await this.getNoteCache();
+    let spendable: bigint;
+    try {
+      spendable = spendableInOneWithdrawal(await this.fetchUnspentUtxos(asset, storage));
+    } finally {
+      await flush();
+    }
+
+    if (spendable < baseUnits) {
+      throw new InsufficientShieldedBalance({
+        provider: this.name,
+        asset: asset.symbol,
+        required: baseUnits,
+        available: spendable,
+      });
+    }
+  }
+
   // ============================================
   // Legacy methods for backward compatibility
   // ============================================
@@ -549,103 +1086,196 @@ export class PrivacyCashProvider implements PrivacyProvider {
 
   /**
    * Get fee configuration for withdrawals
-   * Returns both percentage fee rate and fixed rent fee
+   * Returns both percentage fee rate and fixed rent fee. Cached for
+   * feeConfigTtlMs (default 60s) - see refreshFeeConfig().
    */
-  async getFeeConfig(): Promise<{
-    withdrawFeeRate: number;
-    withdrawRentFee: number;
-    rentFees: Record<string, number>;
-  }> {
-    const [withdrawFeeRate, withdrawRentFee, rentFees] = await Promise.all([
-      getConfig('withdraw_fee_rate'),
-      getConfig('withdraw_rent_fee'),
-      getConfig('rent_fees'),
-    ]);
+  async getFeeConfig(): Promise<PrivacyCashFeeConfig> {
+    return this.feeConfig.get();
+  }
 
-    return {
-      withdrawFeeRate,
-      withdrawRentFee,
-      rentFees: rentFees as Record<string, number>,
-    };
+  /**
+   * Fetch the fee configuration again, ignoring the cache
+   */
+  async refreshFeeConfig(): Promise<PrivacyCashFeeConfig> {
+    return this.feeConfig.refresh();
   }
 
   /**
    * Calculate fee for a withdrawal amount (in base units / lamports)
-   * Fee = amount * withdraw_fee_rate + rent_fee
+   * Fee = floor(amount * withdraw_fee_rate) + rent, in bigint with an exact rate
    */
-  async calculateFee(amountBaseUnits: bigint): Promise<{
+  async calculateFee(amountBaseUnits: bigint, asset = 'SOL'): Promise<{
     fee: bigint;
     netAmount: bigint;
-    feeRate: number;
-    rentFee: number;
+    feeRate: FeeRate;
+    rentFee: bigint;
   }> {
-    const config = await this.getFeeConfig();
-    const amount = Number(amountBaseUnits);
-
-    // Get rent fee for current asset
-    let rentFee = config.withdrawRentFee; // Default for SOL
-    if (this.asset !== 'SOL') {
-      const assetRentFee = config.rentFees[this.asset];
-      if (assetRentFee !== undefined) {
-        rentFee = assetRentFee;
-      }
-    }
+    const { rate, rent } = await this.getWithdrawFeeModel(asset);
+    const fee = applyFeeRate(amountBaseUnits, rate) + rent;
 
-    // Fee = percentage fee + fixed rent fee
-    // Match SDK formula exactly: Math.floor(amount * rate + LAMPORTS_PER_SOL * rent)
-    const LAMPORTS_PER_SOL = 1e9;
-    const totalFee = Math.floor(amount * config.withdrawFeeRate + LAMPORTS_PER_SOL * rentFee);
+    return {
+      fee,
+      netAmount: amountBaseUnits > fee ? amountBaseUnits - fee : 0n,
+      feeRate: rate,
+      rentFee: rent,
+    };
+  }
 
-    const netAmount = Math.floor(amount - totalFee);
+  /**
+   * Calculate the amount to withdraw to receive a specific net amount after fees
+   * Returns the smallest gross amount whose calculateFee() net covers desiredNetAmount
+   */
+  async calculateWithdrawAmount(
+    desiredNetAmount: bigint,
+    asset = 'SOL'
+  ): Promise<{
+    withdrawAmount: bigint;
+    fee: bigint;
+  }> {
+    const { rate, rent } = await this.getWithdrawFeeModel(asset);
+    const withdrawAmount = solveGrossAmount(
+      desiredNetAmount,
+      (gross) => applyFeeRate(gross, rate) + rent
+    );
 
     return {
-      fee: BigInt(Math.max(0, totalFee)),
-      netAmount: BigInt(Math.max(0, netAmount)),
-      feeRate: config.withdrawFeeRate,
-      rentFee,
+      withdrawAmount,
+      fee: applyFeeRate(withdrawAmount, rate) + rent,
     };
   }
 
   /**
-   * Calculate the amount to withdraw to receive a specific net amount after fees
+   * Largest withdrawal a balance allows, in closed form
+   * The net amount only grows with the gross, so withdrawing the whole
+   * balance nets the most: net = balance - floor(balance * rate) - rent.
+   * All zero when the fee would take the whole balance.
    */
-  async calculateWithdrawAmount(desiredNetAmount: bigint): Promise<{
+  async maxWithdrawable(balance: bigint, asset = 'SOL'): Promise<{
     withdrawAmount: bigint;
     fee: bigint;
+    netAmount: bigint;
   }> {
-    const config = await this.getFeeConfig();
+    const { rate, rent } = await this.getWithdrawFeeModel(asset);
+    const fee = applyFeeRate(balance, rate) + rent;
+
+    if (balance <= fee) {
+      return { withdrawAmount: 0n, fee: 0n, netAmount: 0n };
+    }
+    return { withdrawAmount: balance, fee, netAmount: balance - fee };
+  }
+
+  // ============================================
+  // Quotes
+  // ============================================
+
+  /**
+   * Quote a withdrawal
+   * Fee = floor(amount * withdraw_fee_rate) + rent (SDK formula, in bigint)
+   */
+  async quoteWithdraw(params: QuoteParams): Promise<FeeQuote> {
+    const { rate, rent } = await this.getWithdrawFeeModel(params.asset);
+
+    return buildFeeQuote(params, (gross) => ({
+      percentage: applyFeeRate(gross, rate),
+      rent,
+      network: 0n, // Paid by the relayer, covered by the rent fee
+    }));
+  }
+
+  /**
+   * Quote a deposit
+   * Privacy Cash charges no deposit fee; the Solana network fee is paid
+   * in SOL by the signing wallet and is not part of the quote
+   */
+  async quoteFund(params: QuoteParams): Promise<FeeQuote> {
+    this.resolveAsset(params.asset);
+
+    return buildFeeQuote(params, () => ({ percentage: 0n, rent: 0n, network: 0n }));
+  }
+
+  /**
+   * Map Privacy Cash SDK errors onto core error types
+   * The SDK only throws plain Errors, so this matches on its messages
+   */
+  private async toRouterError(error: unknown, asset: string, amount: string): Promise<unknown> {
+    if (!(error instanceof Error) || getErrorCode(error) !== undefined) {
+      return error;
+    }
+    const symbol = asset.toUpperCase();
+    const { message } = error;
+
+    if (message === 'no balance' || message.startsWith('Need at least 1 unspent UTXO')) {
+      return new InsufficientShieldedBalance({
+        provider: this.name,
+        asset: symbol,
+        required: BigInt(amount),
+        available: 0n,
+        cause: error,
+      });
+    }
 
-    // Get rent fee for current asset
-    let rentFee = config.withdrawRentFee;
-    if (this.asset !== 'SOL') {
-      const assetRentFee = config.rentFees[this.asset];
-      if (assetRentFee !== undefined) {
-        rentFee = assetRentFee;
+    const partial = new RegExp(`^${PARTIAL_WITHDRAWAL_REFUSED}: (\\d+) of`).exec(message);
+    if (partial?.[1]) {
+      return new InsufficientShieldedBalance({
+        provider: this.name,
+        asset: symbol,
+        required: BigInt(amount),
+        available: BigInt(partial[1]),
+        cause: error,
+      });
+    }
+
+    // The amount in the message is not in token units for SPL tokens -
+    // the minimum is the smallest amount that nets one base unit after fees
+    if (message.startsWith('withdraw amount too low') && this.assets.get(symbol, this.cluster)) {
+      const minimum = await this.calculateWithdrawAmount(1n, symbol).then(
+        ({ withdrawAmount }) => withdrawAmount,
+        () => null
+      );
+      if (minimum !== null) {
+        return new BelowProviderMinimum({
+          provider: this.name,
+          asset: symbol,
+          amount: BigInt(amount),
+          minimum,
+          cause: error,
+        });
       }
     }
 
-    const LAMPORTS_PER_SOL = 1e9;
-    const rentFeeLamports = rentFee * LAMPORTS_PER_SOL;
-    const netAmountNum = Number(desiredNetAmount);
+    // Relayer / indexer unreachable or rejecting
+    if (message === 'response not ok' || /failed to fetch/i.test(message)) {
+      return new ProviderUnavailable({ provider: this.name, detail: message, cause: error });
+    }
+
+    return error;
+  }
 
-    // SDK fee formula: fee = Math.floor(amount * feeRate + LAMPORTS_PER_SOL * rentFee)
-    // We want: net = amount - fee
-    // So: net = amount - Math.floor(amount * feeRate + rentFeeLamports)
-    // Approximating (ignoring floor for calculation): net ≈ amount * (1 - feeRate) - rentFeeLamports
-    // Solving for amount: amount ≈ (net + rentFeeLamports) / (1 - feeRate)
-    // Use ceil to ensure we always have enough
-    const withdrawAmount = Math.ceil((netAmountNum + rentFeeLamports) / (1 - config.withdrawFeeRate));
+  /**
+   * Resolve a symbol to a registered asset on the provider's cluster
+   */
+  private resolveAsset(asset: string): ResolvedPrivacyCashAsset {
+    return this.assets.resolve(asset, this.cluster);
+  }
 
-    // Verify by calculating the actual fee with this withdraw amount
-    const actualFee = Math.floor(withdrawAmount * config.withdrawFeeRate + rentFeeLamports);
-    const actualNet = withdrawAmount - actualFee;
+  /**
+   * Withdraw fee model for an asset
+   * Rent is configured in whole tokens - SOL uses withdraw_rent_fee,
+   * SPL tokens use rent_fees keyed by SDK token name
+   */
+  private async getWithdrawFeeModel(asset: string): Promise<{ rate: FeeRate; rent: bigint }> {
+    const resolved = this.resolveAsset(asset);
+    const config = await this.getFeeConfig();
 
-    // If we're still short due to rounding, add 1 lamport
-    const finalWithdrawAmount = actualNet >= netAmountNum ? withdrawAmount : withdrawAmount + 1;
+    const rentFee =
+      resolved.mint === undefined ? config.withdrawRentFee : config.rentFees[resolved.sdkName];
+    if (rentFee === undefined) {
+      throw new Error(`No withdraw rent fee configured for ${resolved.symbol}`);
+    }
 
     return {
-      withdrawAmount: BigInt(finalWithdrawAmount),
-      fee: BigInt(finalWithdrawAmount - netAmountNum),
+      rate: feeRateFromDecimal(config.withdrawFeeRate),
+      rent: decimalToBaseUnits(rentFee, resolved.decimals),
     };
   }
 }
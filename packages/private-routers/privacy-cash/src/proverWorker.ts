@@ -0,0 +1,388 @@
+import { AbortedError, getErrorCode } from '@privacy-router-sdk/private-routers-core';
+import type { ProvingStep } from '@privacy-router-sdk/private-routers-core';
+import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { WasmFactory } from '@lightprotocol/hasher.rs';
+import type { LightWasm } from '@lightprotocol/hasher.rs';
+import { EncryptionService } from 'privacycash/utils';
+
+import { loadCircuit } from './provingProgress';
+import type { ProgressTracker } from './provingProgress';
+import { runShieldedOperation } from './shieldedOperation';
+import type { ShieldedOperation } from './shieldedOperation';
+import { loadNoteCache } from './storage';
+import type { NoteStorage } from './storage';
+
+/**
+ * Worker whose script calls exposePrivacyCashProver()
+ * A Web Worker in the browser, a worker_threads Worker in Node.js
+ */
+export type ProverWorker = WebProverWorker | NodeProverWorker;
+
+export type WebProverWorker = {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  addEventListener(type: 'error', listener: (event: ErrorEvent) => void): void;
+  terminate(): void;
+};
+
+export type NodeProverWorker = {
+  postMessage(message: unknown): void;
+  on(event: 'message', listener: (message: unknown) => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+  on(event: 'exit', listener: (exitCode: number) => void): unknown;
+  terminate(): unknown;
+};
+
+/**
+ * worker_threads parentPort, passed to exposePrivacyCashProver() in Node.js
+ */
+export type ProverParentPort = {
+  postMessage(message: unknown): void;
+  on(event: 'message', listener: (message: unknown) => void): unknown;
+};
+
+/**
+ * What the worker needs besides the operation - no provider state crosses over
+ */
+type ProverContext = {
+  rpcUrl: string;
+  keyBasePath: string;
+  publicKey: string;
+
+  /**
+   * Wallet signature the note encryption key is derived from
+   */
+  signature: Uint8Array;
+
+  /**
+   * Note cache snapshot - updates are sent back as note-set / note-remove
+   */
+  notes: Array<[string, string]>;
+
+  /**
+   * Print the SDK log messages in the worker (the provider's enableDebug)
+   */
+  debug?: boolean;
+};
+
+type HostMessage =
+  | { type: 'run'; id: number; operation: ShieldedOperation; context: ProverContext }
+  | { type: 'signed'; id: number; tx: Uint8Array }
+  | { type: 'sign-failed'; id: number; error: string }
+  | { type: 'abort'; id: number };
+
+type WorkerMessage =
+  | { type: 'progress'; id: number; step: ProvingStep; fraction: number }
+  | { type: 'log'; id: number; level: string; message: string }
+  | { type: 'note-set'; id: number; key: string; value: string }
+  | { type: 'note-remove'; id: number; key: string }
+  | { type: 'sign'; id: number; tx: Uint8Array }
+  | { type: 'done'; id: number; tx: string }
+  | { type: 'failed'; id: number; error: string; aborted?: boolean };
+
+/**
+ * Provider side of one operation running in the worker
+ */
+export type ProverRunHooks = {
+  tracker: ProgressTracker;
+
+  /**
+   * Note cache - sent as a snapshot, worker updates are written back
+   */
+  storage: Storage;
+
+  transactionSigner: (tx: VersionedTransaction) => Promise<VersionedTransaction>;
+
+  /**
+   * Forwarded to the worker - see ShieldedOperationContext.signal
+   */
+  signal?: AbortSignal;
+};
+
+type PendingRun = ProverRunHooks & {
+  resolve: (tx: string) => void;
+  reject: (error: unknown) => void;
+
+  /**
+   * Error of the host-side transaction signer, rethrown as is (e.g. AbortedError)
+   */
+  signError?: unknown;
+
+  /**
+   * Stops forwarding the abort signal
+   */
+  detach: () => void;
+};
+
+/**
+ * Runs shielded operations in a prover worker
+ * The worker is created on first use and replaced if it crashes. Errors come
+ * back as plain Errors with the SDK message, so toRouterError() still applies.
+ */
+export class ProverWorkerClient {
+  private worker: ProverWorker | null = null;
+  private nextId = 1;
+  private readonly runs = new Map<number, PendingRun>();
+
+  constructor(private readonly createWorker: () => ProverWorker) {}
+
+  run(
+    operation: ShieldedOperation,
+    context: Omit<ProverContext, 'notes'>,
+    hooks: ProverRunHooks
+  ): Promise<string> {
+    const { signal } = hooks;
+    if (signal?.aborted) {
+      return Promise.reject(new AbortedError(false));
+    }
+    const worker = this.getWorker();
+    const id = this.nextId++;
+
+    const notes: Array<[string, string]> = [];
+    for (let i = 0; i < hooks.storage.length; i++) {
+      const key = hooks.storage.key(i);
+      const value = key === null ? null : hooks.storage.getItem(key);
+      if (key !== null && value !== null) notes.push([key, value]);
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      const onAbort = () => this.post({ type: 'abort', id });
+      signal?.addEventListener('abort', onAbort);
+      const detach = () => signal?.removeEventListener('abort', onAbort);
+
+      this.runs.set(id, { ...hooks, resolve, reject, detach });
+      worker.postMessage({ type: 'run', id, operation, context: { ...context, notes } });
+    });
+  }
+
+  private getWorker(): ProverWorker {
+    if (this.worker) {
+      return this.worker;
+    }
+
+    const worker = this.createWorker();
+    const onMessage = (message: unknown) => this.handle(message as WorkerMessage);
+    const onCrash = (reason: string) => {
+      // Already replaced - runs left belong to the new worker
+      if (this.worker !== worker) return;
+      this.worker = null;
+      void worker.terminate();
+      for (const [id, run] of this.runs) {
+        this.runs.delete(id);
+        run.detach();
+        run.reject(new Error(`Privacy Cash prover worker failed: ${reason}`));
+      }
+    };
+
+    if (isNodeWorker(worker)) {
+      worker.on('message', onMessage);
+      worker.on('error', (error) => onCrash(error.message));
+      worker.on('exit', (exitCode) => onCrash(`exited with code ${exitCode}`));
+    } else {
+      worker.addEventListener('message', (event) => onMessage(event.data));
+      worker.addEventListener('error', (event) => onCrash(event.message));
+    }
+
+    this.worker = worker;
+    return worker;
+  }
+
+  private handle(message: WorkerMessage): void {
+    const run = this.runs.get(message.id);
+    if (!run) return;
+
+    switch (message.type) {
+      case 'progress':
+        run.tracker.advance(message.step, message.fraction);
+        break;
+      case 'log':
+        run.tracker.onLog(message.level, message.message);
+        break;
+      case 'note-set':
+        run.storage.setItem(message.key, message.value);
+        break;
+      case 'note-remove':
+        run.storage.removeItem(message.key);
+        break;
+      case 'sign':
+        void run.transactionSigner(VersionedTransaction.deserialize(message.tx)).then(
+          (signed) => this.post({ type: 'signed', id: message.id, tx: signed.serialize() }),
+          (error: unknown) => {
+            run.signError = error;
+            this.post({ type: 'sign-failed', id: message.id, error: describe(error) });
+          }
+        );
+        break;
+      case 'done':
+        this.runs.delete(message.id);
+        run.detach();
+        run.resolve(message.tx);
+        break;
+      case 'failed':
+        this.runs.delete(message.id);
+        run.detach();
+        run.reject(
+          run.signError ?? (message.aborted ? new AbortedError(false) : new Error(message.error))
+        );
+        break;
+    }
+  }
+
+  private post(message: HostMessage): void {
+    this.worker?.postMessage(message);
+  }
+}
+
+type HostPort = {
+  post: (message: WorkerMessage) => void;
+  listen: (handler: (message: HostMessage) => void) => void;
+};
+
+type PendingSignature = {
+  resolve: (tx: Uint8Array) => void;
+  reject: (error: Error) => void;
+};
+
+let lightWasm: Promise<LightWasm> | null = null;
+
+/**
+ * Serve PrivacyCashProvider operations from inside a worker (see the proverWorker option)
+ * Call it at the top of the worker script, e.g.
+ *   import { exposePrivacyCashProver } from '@privacy-router-sdk/privacy-cash';
+ *   exposePrivacyCashProver();
+ * In a Node.js worker_thread pass the parent port:
+ *   exposePrivacyCashProver(parentPort);
+ * Operations run one at a time, in the order they arrive.
+ */
+export function exposePrivacyCashProver(parentPort?: ProverParentPort | null): void {
+  const host = connectToHost(parentPort);
+  const signatures = new Map<number, PendingSignature>();
+  const aborts = new Map<number, AbortController>();
+  let queue: Promise<void> = Promise.resolve();
+
+  host.listen((message) => {
+    if (message.type === 'run') {
+      // Created on arrival, so a run can be aborted while it waits in the queue
+      const abort = new AbortController();
+      aborts.set(message.id, abort);
+      queue = queue
+        .then(() => serveRun(message, abort.signal, host, signatures))
+        .catch((error: unknown) => host.post(failure(message.id, error)))
+        .finally(() => aborts.delete(message.id));
+      return;
+    }
+    if (message.type === 'abort') {
+      aborts.get(message.id)?.abort();
+      return;
+    }
+
+    const pending = signatures.get(message.id);
+    signatures.delete(message.id);
+    if (message.type === 'signed') {
+      pending?.resolve(message.tx);
+    } else {
+      pending?.reject(new Error(message.error));
+    }
+  });
+}
+
+async function serveRun(
+  request: Extract<HostMessage, { type: 'run' }>,
+  signal: AbortSignal,
+  host: HostPort,
+  signatures: Map<number, PendingSignature>
+): Promise<void> {
+  const { id, operation, context } = request;
+  const { storage, flush } = await loadNoteCache(hostNoteStorage(id, context.notes, host));
+
+  const prove = async () => {
+    await loadCircuit(context.keyBasePath, (fraction) =>
+      host.post({ type: 'progress', id, step: 'loading-circuit', fraction })
+    );
+
+    const encryptionService = new EncryptionService();
+    encryptionService.deriveEncryptionKeyFromSignature(context.signature);
+    lightWasm ??= WasmFactory.getInstance();
+
+    return runShieldedOperation(operation, {
+      lightWasm: await lightWasm,
+      connection: new Connection(context.rpcUrl, 'confirmed'),
+      keyBasePath: context.keyBasePath,
+      publicKey: new PublicKey(context.publicKey),
+      encryptionService,
+      storage,
+      signal,
+      onLog: (level, message) => host.post({ type: 'log', id, level, message }),
+      debug: context.debug,
+      transactionSigner: async (tx) => {
+        const signed = await new Promise<Uint8Array>((resolve, reject) => {
+          signatures.set(id, { resolve, reject });
+          host.post({ type: 'sign', id, tx: tx.serialize() });
+        });
+        return VersionedTransaction.deserialize(signed);
+      },
+    });
+  };
+
+  const result = await prove().then(
+    (tx): WorkerMessage => ({ type: 'done', id, tx }),
+    (error: unknown) => failure(id, error)
+  );
+  signatures.delete(id);
+
+  // Note updates must reach the provider before the result
+  await flush();
+  host.post(result);
+}
+
+/**
+ * Note storage over the snapshot sent by the provider, writing back through messages
+ */
+function hostNoteStorage(id: number, notes: Array<[string, string]>, host: HostPort): NoteStorage {
+  const snapshot = new Map(notes);
+  return {
+    getItem: (key) => snapshot.get(key) ?? null,
+    setItem: (key, value) => host.post({ type: 'note-set', id, key, value }),
+    removeItem: (key) => host.post({ type: 'note-remove', id, key }),
+    keys: () => [...snapshot.keys()],
+  };
+}
+
+function connectToHost(parentPort?: ProverParentPort | null): HostPort {
+  if (parentPort) {
+    return {
+      post: (message) => parentPort.postMessage(message),
+      listen: (handler) => {
+        parentPort.on('message', (message) => handler(message as HostMessage));
+      },
+    };
+  }
+
+  const scope = globalThis as unknown as {
+    postMessage: (message: unknown) => void;
+    addEventListener: (type: 'message', listener: (event: MessageEvent) => void) => void;
+  };
+  if (typeof window !== 'undefined' || typeof scope.postMessage !== 'function') {
+    throw new Error(
+      'exposePrivacyCashProver() must run in a Web Worker, or get the worker_threads parentPort'
+    );
+  }
+  return {
+    post: (message) => scope.postMessage(message),
+    listen: (handler) => {
+      scope.addEventListener('message', (event) => handler(event.data as HostMessage));
+    },
+  };
+}
+
+function isNodeWorker(worker: ProverWorker): worker is NodeProverWorker {
+  return typeof (worker as Partial<NodeProverWorker>).on === 'function';
+}
+
+function failure(id: number, error: unknown): WorkerMessage {
+  return { type: 'failed', id, error: describe(error), aborted: getErrorCode(error) === 'ABORTED' };
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,168 @@
+import type { ProvingProgress, ProvingStep } from '@privacy-router-sdk/private-routers-core';
+import { setLogger } from 'privacycash/utils';
+
+export type SdkLogListener = (level: string, message: string) => void;
+
+/**
+ * Percent range of each step within the stage
+ */
+const STEP_RANGES: Record<ProvingStep, [number, number]> = {
+  'loading-circuit': [0, 15],
+  'fetching-utxos': [15, 45],
+  proving: [45, 85],
+  relaying: [85, 100],
+};
+
+/**
+ * SDK log messages that mark a step (or a point within one)
+ */
+const LOG_MARKERS: Array<[RegExp, ProvingStep, number]> = [
+  [/^\s*Fetching existing UTXOs/, 'fetching-utxos', 0],
+  [/^generating ZK proof/, 'proving', 0],
+  [/^submitting transaction to relayer/, 'relaying', 0],
+  [/^waiting for transaction confirmation/i, 'relaying', 0.5],
+];
+
+const DECRYPT_PROGRESS = /decrypting cached utxo: (\d+)\/(\d+)/;
+
+/**
+ * Turns step updates and SDK log messages into ProvingProgress events
+ * Steps only move forward - the SDK re-reads UTXOs after relaying, which is
+ * not reported as going back to fetching-utxos.
+ */
+export type ProgressTracker = {
+  /**
+   * Report a step, optionally with the fraction (0-1) of it that is done
+   */
+  advance: (step: ProvingStep, fraction?: number) => void;
+
+  /**
+   * Feed an SDK log message
+   */
+  onLog: SdkLogListener;
+};
+
+/**
+ * Progress tracker for one operation
+ */
+export function createProgressTracker(emit: (progress: ProvingProgress) => void): ProgressTracker {
+  let current: ProvingProgress | null = null;
+
+  const advance = (step: ProvingStep, fraction = 0) => {
+    const [start, end] = STEP_RANGES[step];
+    const percent = Math.round(start + (end - start) * Math.min(Math.max(fraction, 0), 1));
+    const stale =
+      current !== null &&
+      (percent < current.percent || (percent === current.percent && step === current.step));
+    if (stale) return;
+    current = { step, percent };
+    emit(current);
+  };
+
+  const onLog = (_level: string, message: string) => {
+    const decrypted = DECRYPT_PROGRESS.exec(message);
+    if (decrypted) {
+      advance('fetching-utxos', Number(decrypted[1]) / Math.max(Number(decrypted[2]), 1));
+      return;
+    }
+    for (const [pattern, step, fraction] of LOG_MARKERS) {
+      if (pattern.test(message)) {
+        advance(step, fraction);
+        return;
+      }
+    }
+  };
+
+  return { advance, onLog };
+}
+
+type SdkCall = { listener: SdkLogListener | null; debug: boolean };
+
+let activeCall: SdkCall | null = null;
+let sdkQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * The SDK's global logger while a call runs - messages go to the call's
+ * listener, and are printed only for debug calls
+ */
+function sdkLogger(level: string, message: string): void {
+  if (activeCall?.debug) {
+    // eslint-disable-next-line no-console
+    console.log(`[${level.toUpperCase()}]`, message);
+  }
+  activeCall?.listener?.(level, message);
+}
+
+/**
+ * Run a Privacy Cash SDK call, one at a time, listening to its log messages
+ * The SDK has one global logger - it is set before each call, as the SDK's
+ * PrivacyCash constructor replaces it. Calls are queued so a listener only
+ * ever sees the messages of its own call; every SDK call in this package goes
+ * through here.
+ * @param debug - Print the call's log messages (the provider's enableDebug)
+ */
+export function runSdkCall<T>(
+  run: () => Promise<T>,
+  listener?: SdkLogListener,
+  debug = false
+): Promise<T> {
+  const result = sdkQueue.then(async () => {
+    setLogger(sdkLogger);
+    activeCall = { listener: listener ?? null, debug };
+    try {
+      return await run();
+    } finally {
+      activeCall = null;
+    }
+  });
+  sdkQueue = result.catch(() => undefined);
+  return result;
+}
+
+const loadedCircuits = new Set<string>();
+
+/**
+ * Download the circuit files (.wasm / .zkey) ahead of the proof, reporting progress
+ * The SDK fetches them again when proving, which the HTTP cache then
+ * serves. Node.js reads them from disk, so there is nothing to preload.
+ * Each circuit is loaded once per page / worker.
+ */
+export async function loadCircuit(
+  keyBasePath: string,
+  onProgress: (fraction: number) => void
+): Promise<void> {
+  const isNode = typeof process !== 'undefined' && Boolean(process.versions?.node);
+  if (isNode || loadedCircuits.has(keyBasePath) || typeof fetch === 'undefined') {
+    onProgress(1);
+    return;
+  }
+
+  const responses = await Promise.all(
+    [`${keyBasePath}.wasm`, `${keyBasePath}.zkey`].map(async (url) => {
+      const response = await fetch(url, { cache: 'force-cache' });
+      if (!response.ok) {
+        throw new Error(`Failed to load Privacy Cash circuit ${url}: ${response.status}`);
+      }
+      return response;
+    })
+  );
+
+  const sizes = responses.map((r) => Number(r.headers.get('content-length') ?? 0));
+  const total = sizes.every((size) => size > 0) ? sizes.reduce((a, b) => a + b, 0) : 0;
+  let loaded = 0;
+
+  for (const response of responses) {
+    if (!response.body) {
+      await response.arrayBuffer();
+      continue;
+    }
+    const reader = response.body.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      loaded += chunk.value.byteLength;
+      if (total > 0) onProgress(loaded / total);
+    }
+  }
+
+  loadedCircuits.add(keyBasePath);
+  onProgress(1);
+}
@@ -0,0 +1,229 @@
+import { throwIfAborted } from '@privacy-router-sdk/private-routers-core';
+import { PublicKey } from '@solana/web3.js';
+import type { Connection, VersionedTransaction } from '@solana/web3.js';
+import type { LightWasm } from '@lightprotocol/hasher.rs';
+import {
+  deposit as privacyCashDeposit,
+  withdraw as privacyCashWithdraw,
+  depositSPL as privacyCashDepositSPL,
+  withdrawSPL as privacyCashWithdrawSPL,
+  getUtxos,
+  getUtxosSPL,
+} from 'privacycash/utils';
+import type { EncryptionService } from 'privacycash/utils';
+
+import { runSdkCall } from './provingProgress';
+import type { SdkLogListener } from './provingProgress';
+import { spendableInOneWithdrawal } from './utxos';
+
+/**
+ * Deposit or withdrawal that generates a proof - plain data, so it can be
+ * handed to a prover worker
+ * Strict withdrawals fail with PARTIAL_WITHDRAWAL_REFUSED instead of sending
+ * what the input notes hold when that is less than amount.
+ */
+export type ShieldedOperation =
+  | { kind: 'deposit'; amount: number; mint?: string }
+  | { kind: 'withdraw'; amount: number; mint?: string; recipient: string; strict?: boolean };
+
+/**
+ * Start of the error message of a refused partial withdrawal
+ * Followed by ": <spendable> of <amount>" in base units
+ */
+export const PARTIAL_WITHDRAWAL_REFUSED = 'Partial withdrawal refused';
+
+/**
+ * The SDK's withdrawal plan, logged once the input notes are picked
+ */
+const WITHDRAW_PLAN = /^Withdrawing -?\d+ lamports with \d+ fee/;
+
+/**
+ * Logged by the SDK right before a withdrawal goes to the relayer
+ */
+const RELAYING = /^submitting transaction to relayer/;
+
+/**
+ * Steps of a withdrawal before the relayer, as logged from the SDK's
+ * withdraw function body - throwing there leaves it without passing through
+ * any of the SDK's own error handling
+ */
+const WITHDRAW_STEPS = [
+  /^\s*Fetching existing UTXOs/,
+  WITHDRAW_PLAN,
+  /^generating ZK proof/,
+  /^Prepared withdraw parameters/,
+];
+
+/**
+ * What the Privacy Cash SDK needs to run a ShieldedOperation
+ */
+export type ShieldedOperationContext = {
+  lightWasm: LightWasm;
+  connection: Connection;
+  keyBasePath: string;
+  publicKey: PublicKey;
+  encryptionService: EncryptionService;
+  storage: Storage;
+
+  /**
+   * Signs deposit transactions (unused for withdrawals)
+   */
+  transactionSigner: (tx: VersionedTransaction) => Promise<VersionedTransaction>;
+
+  /**
+   * Checked before the SDK starts and, for withdrawals, at each step of the
+   * withdrawal until the proof is handed to the relayer. Deposits check it
+   * in transactionSigner.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Receives the SDK log messages of this operation only
+   */
+  onLog?: SdkLogListener;
+
+  /**
+   * Print the SDK log messages (the provider's enableDebug)
+   */
+  debug?: boolean;
+};
+
+/**
+ * Run a deposit / withdrawal with the low-level SDK functions
+ * Native SOL when the operation has no mint. Returns the transaction signature.
+ * Queued behind other SDK calls - see runSdkCall().
+ */
+export async function runShieldedOperation(
+  operation: ShieldedOperation,
+  context: ShieldedOperationContext
+): Promise<string> {
+  throwIfAborted(context.signal, false);
+
+  if (operation.kind === 'deposit') {
+    return runSdkCall(() => {
+      throwIfAborted(context.signal, false);
+      return depositWithSdk(operation, context);
+    }, context.onLog, context.debug);
+  }
+
+  const listeners: SdkLogListener[] = [];
+  if (context.onLog) listeners.push(context.onLog);
+  if (context.signal) listeners.push(abortUntilRelayed(context.signal));
+
+  return runSdkCall(
+    async () => {
+      // The signal may have fired while the call waited for its turn
+      throwIfAborted(context.signal, false);
+      if (operation.strict) await assertFullWithdrawal(operation, context);
+      return withdrawWithSdk(operation, context);
+    },
+    (level, message) => listeners.forEach((listener) => listener(level, message)),
+    context.debug
+  );
+}
+
+async function depositWithSdk(
+  operation: Extract<ShieldedOperation, { kind: 'deposit' }>,
+  context: ShieldedOperationContext
+): Promise<string> {
+  const { lightWasm, connection, keyBasePath, publicKey, encryptionService, storage } = context;
+  const { transactionSigner } = context;
+  if (operation.mint === undefined) {
+    const result = await privacyCashDeposit({
+      lightWasm,
+      connection,
+      amount_in_lamports: operation.amount,
+      keyBasePath,
+      publicKey,
+      transactionSigner,
+      storage,
+      encryptionService,
+    });
+    return result.tx;
+  }
+  const result = await privacyCashDepositSPL({
+    lightWasm,
+    connection,
+    base_units: operation.amount,
+    keyBasePath,
+    publicKey,
+    transactionSigner,
+    storage,
+    encryptionService,
+    mintAddress: new PublicKey(operation.mint),
+  });
+  return result.tx;
+}
+
+async function withdrawWithSdk(
+  operation: Extract<ShieldedOperation, { kind: 'withdraw' }>,
+  context: ShieldedOperationContext
+): Promise<string> {
+  const { lightWasm, connection, keyBasePath, publicKey, encryptionService, storage } = context;
+  const recipient = new PublicKey(operation.recipient);
+  if (operation.mint === undefined) {
+    const result = await privacyCashWithdraw({
+      lightWasm,
+      connection,
+      amount_in_lamports: operation.amount,
+      keyBasePath,
+      publicKey,
+      recipient,
+      storage,
+      encryptionService,
+    });
+    return result.tx;
+  }
+  const result = await privacyCashWithdrawSPL({
+    lightWasm,
+    connection,
+    base_units: operation.amount,
+    keyBasePath,
+    publicKey,
+    recipient,
+    storage,
+    encryptionService,
+    mintAddress: new PublicKey(operation.mint),
+  });
+  return result.tx;
+}
+
+/**
+ * Refuse a withdrawal the SDK would only partly make
+ * Decided from the two largest notes, which the SDK takes as inputs. Runs
+ * in the same queued SDK call as the withdrawal, so no other operation of
+ * this client spends notes in between.
+ */
+async function assertFullWithdrawal(
+  operation: Extract<ShieldedOperation, { kind: 'withdraw' }>,
+  context: ShieldedOperationContext
+): Promise<void> {
+  const { connection, publicKey, encryptionService, storage } = context;
+  const params = { connection, publicKey, encryptionService, storage };
+  const unspent =
+    operation.mint === undefined
+      ? await getUtxos(params)
+      : await getUtxosSPL({ ...params, mintAddress: new PublicKey(operation.mint) });
+
+  const spendable = spendableInOneWithdrawal(unspent);
+  if (spendable < BigInt(operation.amount)) {
+    throw new Error(`${PARTIAL_WITHDRAWAL_REFUSED}: ${spendable} of ${operation.amount}`);
+  }
+}
+
+/**
+ * Abort a withdrawal at its steps until it reaches the relayer
+ * The listener only sees this withdrawal's messages (runSdkCall), so the
+ * relay point is this operation's own, and nothing has left the client
+ * when it throws.
+ */
+function abortUntilRelayed(signal: AbortSignal): SdkLogListener {
+  let relayed = false;
+  return (_level, message) => {
+    if (relayed) return;
+    relayed = RELAYING.test(message);
+    if (!relayed && WITHDRAW_STEPS.some((step) => step.test(message))) {
+      throwIfAborted(signal, false);
+    }
+  };
+}
@@ -0,0 +1,373 @@
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Storage backend for the Privacy Cash note cache (downloaded UTXOs, fetch offsets)
+ * Methods may be sync or async. Everything is loaded into memory once per
+ * provider and written back as the SDK updates it.
+ */
+export interface NoteStorage {
+  getItem(key: string): MaybePromise<string | null>;
+  setItem(key: string, value: string): MaybePromise<void>;
+  removeItem(key: string): MaybePromise<void>;
+  keys(): MaybePromise<string[]>;
+
+  /**
+   * Remove every entry, including adapter metadata
+   * Optional - wipeNoteStorage() falls back to removing keys() one by one
+   */
+  wipe?(): MaybePromise<void>;
+}
+
+/**
+ * In-memory note storage (lost on process exit / reload)
+ */
+export class MemoryNoteStorage implements NoteStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.items.keys()];
+  }
+}
+
+/**
+ * Keys the SDK writes its note cache under (LSK_FETCH_OFFSET, LSK_ENCRYPTED_OUTPUTS
+ * and the trade history, each followed by the account key)
+ */
+const SDK_KEY_PREFIXES = ['fetch_offset', 'encrypted_outputs', 'tradeHistory'];
+
+/**
+ * Note storage on a Web Storage object (localStorage / sessionStorage)
+ * Entries are namespaced by prefix so keys() and wipes leave other data alone
+ */
+export class WebStorageNoteStorage implements NoteStorage {
+  constructor(
+    private readonly storage: Storage,
+    private readonly prefix = 'privacy-cash:'
+  ) {}
+
+  getItem(key: string): string | null {
+    return this.storage.getItem(this.prefix + key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage.setItem(this.prefix + key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(this.prefix)) keys.push(key.slice(this.prefix.length));
+    }
+    return keys;
+  }
+
+  /**
+   * Move note cache entries the SDK wrote without a prefix (before the cache
+   * was namespaced) under the prefix. An entry already under the prefix wins.
+   * Returns the number of entries moved.
+   */
+  adoptLegacyKeys(): number {
+    let moved = 0;
+    for (const [key, value] of this.takeLegacyEntries()) {
+      if (this.getItem(key) === null) {
+        this.setItem(key, value);
+        moved++;
+      }
+    }
+    return moved;
+  }
+
+  /**
+   * Remove the note cache entries the SDK wrote without a prefix and return them
+   */
+  takeLegacyEntries(): Array<[string, string]> {
+    if (!this.prefix) return [];
+
+    const legacy: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key && isSdkKey(key)) {
+        legacy.push(key);
+      }
+    }
+
+    const entries: Array<[string, string]> = [];
+    for (const key of legacy) {
+      const value = this.storage.getItem(key);
+      if (value !== null) entries.push([key, value]);
+      this.storage.removeItem(key);
+    }
+    return entries;
+  }
+}
+
+function isSdkKey(key: string): boolean {
+  return SDK_KEY_PREFIXES.some((sdkPrefix) => key.startsWith(sdkPrefix));
+}
+
+/**
+ * Move the plaintext note cache of a Web Storage object into target, an
+ * encrypted wrapper of the same storage - both the SDK's bare keys and entries
+ * adoptLegacyKeys() moved under the prefix. Entries already in target win.
+ * Returns the number of entries moved.
+ */
+export async function encryptLegacyNotes(
+  storage: WebStorageNoteStorage,
+  target: NoteStorage
+): Promise<number> {
+  const entries = new Map(storage.takeLegacyEntries());
+  for (const key of storage.keys().filter(isSdkKey)) {
+    const value = storage.getItem(key);
+    if (value !== null) entries.set(key, value);
+    storage.removeItem(key);
+  }
+
+  let moved = 0;
+  for (const [key, value] of entries) {
+    if ((await target.getItem(key)) === null) {
+      await target.setItem(key, value);
+      moved++;
+    }
+  }
+  return moved;
+}
+
+/**
+ * Note storage in an IndexedDB object store
+ * No size limit like localStorage - suited for wallets with many notes
+ */
+export class IndexedDbNoteStorage implements NoteStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly options: {
+      /**
+       * Database name (default: 'privacy-cash')
+       */
+      dbName?: string;
+      /**
+       * Object store name (default: 'notes')
+       */
+      storeName?: string;
+    } = {}
+  ) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.request<unknown>('readonly', (store) => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', (store) => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', (store) => store.getAllKeys());
+    return keys.map(String);
+  }
+
+  private get storeName(): string {
+    return this.options.storeName ?? 'notes';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('IndexedDB is not available in this environment'));
+    }
+
+    this.db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.options.dbName ?? 'privacy-cash', 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open IndexedDB'));
+    });
+
+    // Allow a retry after a failed open
+    this.db.catch(() => {
+      this.db = null;
+    });
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = run(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () =>
+        reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+      transaction.onabort = () =>
+        reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+}
+
+/**
+ * Note storage in a directory on disk (Node.js) - one file per key
+ * Writes go to a temp file and are renamed into place, so a crash never
+ * leaves a half-written entry
+ */
+export class FileSystemNoteStorage implements NoteStorage {
+  constructor(private readonly directory: string) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const fs = await import('node:fs/promises');
+    try {
+      return await fs.readFile(this.pathOf(key), 'utf8');
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.mkdir(this.directory, { recursive: true });
+    const path = this.pathOf(key);
+    const temp = `${path}.${Date.now().toString(36)}.tmp`;
+    await fs.writeFile(temp, value, 'utf8');
+    await fs.rename(temp, path);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(this.pathOf(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    const fs = await import('node:fs/promises');
+    try {
+      const files = await fs.readdir(this.directory);
+      return files.filter((f) => !f.endsWith('.tmp')).map(decodeURIComponent);
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Keys are URI-encoded so any key is a safe file name
+   */
+  private pathOf(key: string): string {
+    return `${this.directory.replace(/[\\/]+$/, '')}/${encodeURIComponent(key)}`;
+  }
+}
+
+/**
+ * Default storage: localStorage in the browser, in-memory elsewhere
+ * Notes cached by earlier versions under the SDK's bare keys are moved under
+ * the 'privacy-cash:' prefix, so existing wallets keep their cache. Encrypted
+ * storage leaves them for encryptLegacyNotes() - copying them here would keep
+ * them in plaintext.
+ */
+export function defaultNoteStorage(encrypted = false): NoteStorage {
+  if (typeof window !== 'undefined' && window.localStorage) {
+    const storage = new WebStorageNoteStorage(window.localStorage);
+    if (!encrypted) storage.adoptLegacyKeys();
+    return storage;
+  }
+  return new MemoryNoteStorage();
+}
+
+/**
+ * Synchronous view of a NoteStorage for the Privacy Cash SDK
+ * The SDK expects a Web Storage object, so reads are served from memory and
+ * writes go through to the backend in order. A failed write is dropped - the
+ * SDK re-downloads whatever the cache is missing on the next load.
+ */
+export type NoteCache = {
+  storage: Storage;
+
+  /**
+   * Wait for writes issued so far
+   */
+  flush: () => Promise<void>;
+};
+
+/**
+ * Load every entry of a NoteStorage into a NoteCache
+ */
+export async function loadNoteCache(backend: NoteStorage): Promise<NoteCache> {
+  const items = new Map<string, string>();
+  for (const key of await backend.keys()) {
+    const value = await backend.getItem(key);
+    if (value !== null) items.set(key, value);
+  }
+
+  let pending: Promise<void> = Promise.resolve();
+  const write = (run: () => MaybePromise<void>) => {
+    pending = pending.then(run).catch(() => undefined);
+  };
+
+  const storage = {
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      const text = String(value);
+      items.set(key, text);
+      write(() => backend.setItem(key, text));
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+      write(() => backend.removeItem(key));
+    },
+    clear: () => {
+      const keys = [...items.keys()];
+      items.clear();
+      for (const key of keys) {
+        write(() => backend.removeItem(key));
+      }
+    },
+  } as Storage;
+
+  return { storage, flush: () => pending };
+}
+
+/**
+ * Remove everything a NoteStorage holds
+ */
+export async function wipeNoteStorage(storage: NoteStorage): Promise<void> {
+  if (storage.wipe) {
+    await storage.wipe();
+    return;
+  }
+  for (const key of await storage.keys()) {
+    await storage.removeItem(key);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === 'ENOENT';
+}
@@ -1,5 +1,11 @@
+import type { Account } from '@privacy-router-sdk/signers-core';
 import type { Keypair, VersionedTransaction } from '@solana/web3.js';
 
+import type { PrivacyCashAssetInfo, PrivacyCashAssetRegistry } from './assetRegistry';
+import type { PrivacyCashClusterConfig } from './clusters';
+import type { ProverWorker } from './proverWorker';
+import type { NoteStorage } from './storage';
+
 /**
  * Signer interface for wallet adapter support
  * - signMessage: for deriving encryption keys (one-time)
@@ -13,6 +19,8 @@ export interface WalletSigner {
 
 /**
  * Configuration for Privacy Cash provider - Private Key mode
+ * Hands the secret key to the Privacy Cash SDK - prefer account mode
+ * (PrivacyCashConfigAccount), which only asks the account for signatures
  */
 export interface PrivacyCashConfigPrivateKey {
   /**
@@ -30,7 +38,26 @@ export interface PrivacyCashConfigPrivateKey {
   owner: Keypair | string | Uint8Array | number[];
 
   /**
-   * Enable debug logging
+   * Cluster / deployment (default: mainnet)
+   * Build devnet and localnet configs with privacyCashCluster()
+   */
+  cluster?: 'mainnet-beta' | PrivacyCashClusterConfig;
+
+  /**
+   * Supported assets - a registry (shared or extended at runtime) or a list
+   * to build one from (default: the cluster config's assets)
+   */
+  assets?: PrivacyCashAssetRegistry | PrivacyCashAssetInfo[];
+
+  /**
+   * How long relayer fee config is reused, in ms (default: 60s)
+   */
+  feeConfigTtlMs?: number;
+
+  // No storage option - the PrivacyCash class keeps its own note cache in ./cache
+
+  /**
+   * Enable debug logging - prints the SDK's log messages, which are silent otherwise
    */
   enableDebug?: boolean;
 }
@@ -50,15 +77,77 @@ export interface PrivacyCashConfigWalletSigner {
   walletSigner: WalletSigner;
 
   /**
-   * Enable debug logging
+   * Cluster / deployment (default: mainnet)
+   * Build devnet and localnet configs with privacyCashCluster()
+   */
+  cluster?: 'mainnet-beta' | PrivacyCashClusterConfig;
+
+  /**
+   * Supported assets - a registry (shared or extended at runtime) or a list
+   * to build one from (default: the cluster config's assets)
+   */
+  assets?: PrivacyCashAssetRegistry | PrivacyCashAssetInfo[];
+
+  /**
+   * How long relayer fee config is reused, in ms (default: 60s)
+   */
+  feeConfigTtlMs?: number;
+
+  /**
+   * Where downloaded notes (UTXOs) are cached between sessions
+   * Default: localStorage in the browser, in-memory elsewhere. Use
+   * FileSystemNoteStorage for a durable cache in Node.js servers and CLIs.
+   */
+  storage?: NoteStorage;
+
+  /**
+   * Encrypt the note cache at rest
+   * - 'wallet': key derived from the wallet signature the provider already asks for
+   * - { passphrase }: key derived from a user passphrase
+   */
+  encryptStorage?: 'wallet' | { passphrase: string };
+
+  /**
+   * Generate proofs in a worker so the UI thread / event loop stays responsive
+   * Return a Web Worker, or a worker_threads Worker in Node.js, whose script
+   * calls exposePrivacyCashProver(); it is created on first use and reused.
+   */
+  proverWorker?: () => ProverWorker;
+
+  /**
+   * Message signed to derive the note keys (default: PRIVACY_CASH_SIGN_MESSAGE)
+   * Notes belong to the key, so changing it hides existing notes. Use
+   * PRIVACY_CASH_SDK_SIGN_MESSAGE to reach notes deposited in private key mode.
+   */
+  keyDerivationMessage?: string;
+
+  /**
+   * Enable debug logging - prints the SDK's log messages, which are silent otherwise
    */
   enableDebug?: boolean;
 }
 
+/**
+ * Configuration for Privacy Cash provider - Account mode
+ * Works like wallet signer mode with any signers-core Account that can sign
+ * messages and transactions (mnemonic, wallet adapter, Ledger) - the keys
+ * never leave the account.
+ */
+export interface PrivacyCashConfigAccount
+  extends Omit<PrivacyCashConfigWalletSigner, 'walletSigner'> {
+  /**
+   * Rejected by the constructor (SignerCapabilityMissing) without signMessage / signTransaction
+   */
+  account: Account;
+}
+
 /**
  * Combined config type
  */
-export type PrivacyCashConfig = PrivacyCashConfigPrivateKey | PrivacyCashConfigWalletSigner;
+export type PrivacyCashConfig =
+  | PrivacyCashConfigPrivateKey
+  | PrivacyCashConfigWalletSigner
+  | PrivacyCashConfigAccount;
 
 /**
  * Type guard for private key config
@@ -75,12 +164,21 @@ export function isWalletSignerConfig(config: PrivacyCashConfig): config is Priva
 }
 
 /**
- * Supported assets for Privacy Cash
+ * Type guard for account config
+ */
+export function isAccountConfig(config: PrivacyCashConfig): config is PrivacyCashConfigAccount {
+  return 'account' in config;
+}
+
+/**
+ * Assets in the default registry
+ * The provider accepts any symbol registered in its PrivacyCashAssetRegistry
  */
 export type PrivacyCashAsset = 'SOL' | 'USDC' | 'USDT';
 
 /**
  * SPL token mint addresses on mainnet
+ * @deprecated Look mints up in PrivacyCashAssetRegistry (provider.assets) instead
  */
 export const SPL_MINTS = {
   USDC: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
@@ -91,3 +189,8 @@ export const SPL_MINTS = {
  * Message to sign for deriving Privacy Cash keys
  */
 export const PRIVACY_CASH_SIGN_MESSAGE = 'Sign this message to access Privacy Cash.\n\nThis signature will be used to derive your private keys for the privacy pool.\n\nThis will NOT trigger any blockchain transaction or cost any gas fees.';
+
+/**
+ * Message the Privacy Cash SDK signs with the owner keypair (private key mode)
+ */
+export const PRIVACY_CASH_SDK_SIGN_MESSAGE = 'Privacy Money account sign in';
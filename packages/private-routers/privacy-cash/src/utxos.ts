@@ -0,0 +1,208 @@
+import type { ProvingProgress } from '@privacy-router-sdk/private-routers-core';
+import type { getUtxos } from 'privacycash/utils';
+
+/**
+ * Note (UTXO) as returned by the Privacy Cash SDK
+ */
+export type SdkUtxo = Awaited<ReturnType<typeof getUtxos>>[number];
+
+/**
+ * Shielded note of the provider's wallet
+ */
+export type PrivacyCashUtxo = {
+  asset: string;
+
+  /**
+   * Amount in base units
+   */
+  amount: bigint;
+
+  /**
+   * Leaf index in the pool's Merkle tree
+   */
+  index: number;
+
+  commitment: string;
+
+  /**
+   * Whether the note was used as an input since it was last listed
+   * The SDK only returns unspent notes - spent ones are remembered from
+   * earlier listUtxos() calls on this note storage.
+   */
+  spent: boolean;
+};
+
+/**
+ * What consolidate() would do, before anything is signed
+ */
+export type ConsolidationPreview = {
+  asset: string;
+
+  /**
+   * Unspent notes now / after consolidating
+   */
+  notesBefore: number;
+  notesAfter: number;
+
+  /**
+   * Deposit transactions needed - each merges two notes into one
+   */
+  transactions: number;
+
+  /**
+   * Base units topped up from the wallet (the SDK rejects empty deposits)
+   */
+  depositAmount: bigint;
+
+  /**
+   * Privacy Cash fee - deposits are free
+   */
+  poolFee: bigint;
+
+  /**
+   * Solana signature fees in lamports, paid by the wallet
+   * Rent for the nullifier accounts each transaction creates comes on top.
+   */
+  networkFee: bigint;
+};
+
+/**
+ * Options of consolidate() / previewConsolidation()
+ */
+export type ConsolidateOptions = {
+  /**
+   * Unspent notes to stop at (default: 1)
+   */
+  targetNotes?: number;
+
+  /**
+   * Called before each transaction and with its proving progress
+   */
+  onProgress?: (progress: ConsolidationProgress) => void;
+
+  /**
+   * Honoured between transactions and until each one is signed
+   */
+  signal?: AbortSignal;
+};
+
+export type ConsolidationProgress = {
+  /**
+   * Transaction being built (1-based) / total
+   */
+  transaction: number;
+  transactions: number;
+
+  proving?: ProvingProgress;
+};
+
+export type ConsolidateResult = {
+  txHashes: string[];
+
+  /**
+   * Unspent notes left
+   */
+  notes: number;
+};
+
+/**
+ * Base units each consolidating deposit adds
+ */
+export const CONSOLIDATION_DEPOSIT = 1n;
+
+/**
+ * Base fee per signature on Solana, in lamports
+ */
+const SIGNATURE_FEE = 5000n;
+
+/**
+ * Spent notes kept in the history, newest first
+ */
+const MAX_SPENT_NOTES = 100;
+
+type SeenNote = { index: number; amount: string; commitment: string };
+
+/**
+ * What one withdrawal can spend, in base units
+ * The SDK takes the two largest notes as inputs and withdraws what they
+ * hold when that is short of the amount.
+ */
+export function spendableInOneWithdrawal(utxos: SdkUtxo[]): bigint {
+  const [first = 0n, second = 0n] = utxos
+    .map((utxo) => BigInt(utxo.amount.toString()))
+    .sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+  return first + second;
+}
+
+/**
+ * Plan the deposits that bring `notes` unspent notes down to targetNotes
+ */
+export function planConsolidation(
+  asset: string,
+  notes: number,
+  targetNotes = 1
+): ConsolidationPreview {
+  if (!Number.isInteger(targetNotes) || targetNotes < 1) {
+    throw new Error(`Invalid consolidation target: ${targetNotes} notes`);
+  }
+  const transactions = Math.max(notes - targetNotes, 0);
+
+  return {
+    asset,
+    notesBefore: notes,
+    notesAfter: notes - transactions,
+    transactions,
+    depositAmount: CONSOLIDATION_DEPOSIT * BigInt(transactions),
+    poolFee: 0n,
+    networkFee: SIGNATURE_FEE * BigInt(transactions),
+  };
+}
+
+/**
+ * Describe the SDK's unspent notes, adding the spent ones seen before
+ * The history lives in the note cache under historyKey, so it is encrypted
+ * and wiped along with the notes. Sorted by index.
+ */
+export async function describeUtxos(
+  asset: string,
+  unspent: SdkUtxo[],
+  storage: Storage,
+  historyKey: string
+): Promise<PrivacyCashUtxo[]> {
+  const current: SeenNote[] = await Promise.all(
+    unspent.map(async (utxo) => ({
+      index: utxo.index,
+      amount: utxo.amount.toString(),
+      commitment: await utxo.getCommitment(),
+    }))
+  );
+  const live = new Set(current.map((note) => note.commitment));
+
+  const spent = readHistory(storage, historyKey)
+    .filter((note) => !live.has(note.commitment))
+    .sort((a, b) => b.index - a.index)
+    .slice(0, MAX_SPENT_NOTES);
+  storage.setItem(historyKey, JSON.stringify([...current, ...spent]));
+
+  const toUtxo = (note: SeenNote, isSpent: boolean): PrivacyCashUtxo => ({
+    asset,
+    amount: BigInt(note.amount),
+    index: note.index,
+    commitment: note.commitment,
+    spent: isSpent,
+  });
+  return [...current.map((n) => toUtxo(n, false)), ...spent.map((n) => toUtxo(n, true))].sort(
+    (a, b) => a.index - b.index
+  );
+}
+
+function readHistory(storage: Storage, key: string): SeenNote[] {
+  const raw = storage.getItem(key);
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as SeenNote[]) : [];
+  } catch {
+    return [];
+  }
+}
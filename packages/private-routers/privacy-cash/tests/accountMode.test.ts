@@ -0,0 +1,143 @@
+import { createPrivateKey, sign } from 'node:crypto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SignerCapabilityMissing } from '@privacy-router-sdk/private-routers-core';
+import type { Account } from '@privacy-router-sdk/signers-core';
+import { Keypair, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { EncryptionService, getUtxos } from 'privacycash/utils';
+
+import { MemoryNoteStorage, PRIVACY_CASH_SDK_SIGN_MESSAGE, PrivacyCashProvider } from '../src';
+import { runShieldedOperation } from '../src/shieldedOperation';
+
+vi.mock('@lightprotocol/hasher.rs', () => ({
+  WasmFactory: { getInstance: () => Promise.resolve({}) },
+}));
+
+vi.mock('privacycash/utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('privacycash/utils')>()),
+  getUtxos: vi.fn(),
+}));
+
+vi.mock('../src/shieldedOperation', () => ({
+  runShieldedOperation: vi.fn(),
+}));
+
+const getUtxosMock = vi.mocked(getUtxos);
+const runMock = vi.mocked(runShieldedOperation);
+
+/**
+ * Mnemonic-style account signing with the keypair (ed25519, like tweetnacl)
+ */
+function keypairAccount(keypair: Keypair) {
+  const privateKey = createPrivateKey({
+    key: {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      d: Buffer.from(keypair.secretKey.slice(0, 32)).toString('base64url'),
+      x: Buffer.from(keypair.publicKey.toBytes()).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  return {
+    getAddress: () => Promise.resolve(keypair.publicKey.toBase58()),
+    assetToBaseUnits: (amount: string) => BigInt(amount),
+    getBalance: () => Promise.resolve(0n),
+    sendDeposit: () => Promise.reject(new Error('not used')),
+    signMessage: vi.fn((message: Uint8Array) =>
+      Promise.resolve(new Uint8Array(sign(null, message, privateKey)))
+    ),
+    signTransaction: vi.fn(<T>(transaction: T) => Promise.resolve(transaction)),
+  } satisfies Account;
+}
+
+function createProvider(account: Account, keyDerivationMessage?: string) {
+  return new PrivacyCashProvider({
+    account,
+    rpcUrl: 'http://localhost:8899',
+    storage: new MemoryNoteStorage(),
+    keyDerivationMessage,
+  });
+}
+
+describe('PrivacyCashProvider account mode', () => {
+  beforeEach(() => {
+    getUtxosMock.mockReset();
+    runMock.mockReset();
+  });
+
+  it('builds from an account that signs messages and transactions', async () => {
+    const keypair = Keypair.generate();
+    const provider = createProvider(keypairAccount(keypair));
+
+    expect(provider.getCapabilities()).toMatchObject({
+      requiredSignerFeatures: ['signMessage', 'signTransaction'],
+      accountKinds: ['mnemonic', 'wallet-adapter', 'ledger'],
+    });
+    expect(provider.needsSignature()).toBe(true);
+
+    getUtxosMock.mockResolvedValue([]);
+    expect(await provider.getPrivateBalance('SOL')).toBe(0n);
+    expect(provider.getAddress()).toBe(keypair.publicKey.toBase58());
+  });
+
+  it('signs deposits through the account', async () => {
+    const keypair = Keypair.generate();
+    const account = keypairAccount(keypair);
+    runMock.mockImplementation(async (_operation, ctx) => {
+      const unsigned = new VersionedTransaction(
+        new TransactionMessage({
+          payerKey: keypair.publicKey,
+          recentBlockhash: Keypair.generate().publicKey.toBase58(),
+          instructions: [],
+        }).compileToV0Message()
+      );
+      await ctx.transactionSigner(unsigned);
+      return 'deposit-tx';
+    });
+
+    await createProvider(account).fund({
+      sourceAccount: account,
+      asset: 'SOL',
+      amount: '100000000',
+    });
+
+    expect(account.signTransaction).toHaveBeenCalledTimes(1);
+    expect(runMock.mock.calls[0]?.[0]).toEqual({ kind: 'deposit', amount: 100_000_000, mint: undefined });
+  });
+
+  it('reaches the notes of private key mode with the SDK sign-in message', async () => {
+    const keypair = Keypair.generate();
+    const account = keypairAccount(keypair);
+    getUtxosMock.mockResolvedValue([]);
+
+    await createProvider(account, PRIVACY_CASH_SDK_SIGN_MESSAGE).getPrivateBalance('SOL');
+
+    const privateKeyMode = new EncryptionService();
+    privateKeyMode.deriveEncryptionKeyFromWallet(keypair);
+    const { encryptionService } = getUtxosMock.mock.calls[0]![0];
+    expect(encryptionService.getUtxoPrivateKeyV2()).toBe(privateKeyMode.getUtxoPrivateKeyV2());
+    expect(encryptionService.getUtxoPrivateKeyV1()).toBe(privateKeyMode.getUtxoPrivateKeyV1());
+  });
+
+  it('derives other note keys with the default message', async () => {
+    const keypair = Keypair.generate();
+    getUtxosMock.mockResolvedValue([]);
+
+    await createProvider(keypairAccount(keypair)).getPrivateBalance('SOL');
+
+    const privateKeyMode = new EncryptionService();
+    privateKeyMode.deriveEncryptionKeyFromWallet(keypair);
+    const { encryptionService } = getUtxosMock.mock.calls[0]![0];
+    expect(encryptionService.getUtxoPrivateKeyV2()).not.toBe(privateKeyMode.getUtxoPrivateKeyV2());
+  });
+
+  it.each(['signMessage', 'signTransaction'] as const)(
+    'rejects an account without %s up front',
+    (capability) => {
+      const account: Account = { ...keypairAccount(Keypair.generate()), [capability]: undefined };
+
+      expect(() => createProvider(account)).toThrow(SignerCapabilityMissing);
+      expect(() => createProvider(account)).toThrow(expect.objectContaining({ capability }));
+    }
+  );
+});
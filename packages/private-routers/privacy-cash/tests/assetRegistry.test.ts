@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+
+import { PrivacyCashAssetRegistry, PrivacyCashProvider } from '../src';
+
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const ZEC_MINT = 'A7bdiYdS5GjqGFtxf17ppRHtDKPkkRqbKtR27dxvQXaS';
+
+describe('PrivacyCashAssetRegistry', () => {
+  it('registers SOL, USDC and USDT on mainnet by default', () => {
+    const registry = new PrivacyCashAssetRegistry();
+
+    expect(registry.list('mainnet-beta').map((a) => [a.symbol, a.sdkName])).toEqual([
+      ['SOL', 'sol'],
+      ['USDC', 'usdc'],
+      ['USDT', 'usdt'],
+    ]);
+    expect(registry.list('devnet')).toEqual([]);
+  });
+
+  it('looks symbols up case-insensitively per cluster', () => {
+    const registry = new PrivacyCashAssetRegistry();
+    registry.register({ symbol: 'usdc', mint: USDC_MINT, decimals: 6, cluster: 'devnet' });
+
+    expect(registry.get('usdc', 'mainnet-beta')?.mint).toBe(USDC_MINT);
+    expect(registry.get('USDC', 'devnet')?.symbol).toBe('USDC');
+    expect(registry.get('USDT', 'devnet')).toBeUndefined();
+    expect(() => registry.resolve('USDT', 'devnet')).toThrow(
+      'Unsupported Privacy Cash asset: USDT on devnet'
+    );
+  });
+
+  it('accepts other tokens the SDK supports at runtime', () => {
+    const registry = new PrivacyCashAssetRegistry([]);
+
+    const zec = registry.register({ symbol: 'ZEC', mint: ZEC_MINT, decimals: 8, cluster: 'mainnet-beta' });
+
+    expect(zec.sdkName).toBe('zec');
+    expect(registry.resolve('zec', 'mainnet-beta')).toBe(zec);
+  });
+
+  it('rejects duplicate symbols on the same cluster', () => {
+    const registry = new PrivacyCashAssetRegistry();
+
+    expect(() =>
+      registry.register({ symbol: ' usdc ', mint: USDC_MINT, decimals: 6, cluster: 'mainnet-beta' })
+    ).toThrow('Privacy Cash asset already registered: USDC on mainnet-beta');
+  });
+
+  it.each([
+    [{ symbol: ' ', decimals: 9 }, 'Privacy Cash asset symbol is empty'],
+    [{ symbol: 'SOL', decimals: -1 }, 'Invalid decimals for SOL: -1'],
+    [{ symbol: 'SOL', decimals: 6 }, 'Decimals for SOL do not match the Privacy Cash SDK'],
+    [{ symbol: 'FOO', decimals: 6 }, 'Privacy Cash asset FOO needs a mint - only SOL is native'],
+    [{ symbol: 'FOO', mint: 'not-a-key', decimals: 6 }, 'Invalid mint for FOO: not-a-key'],
+    [
+      { symbol: 'FOO', mint: Keypair.generate().publicKey.toBase58(), decimals: 6 },
+      'is not supported by the Privacy Cash SDK',
+    ],
+    [{ symbol: 'USDC', mint: USDC_MINT, decimals: 9 }, 'Decimals for USDC do not match'],
+  ])('rejects invalid assets up front: %o', (asset, message) => {
+    const registry = new PrivacyCashAssetRegistry([]);
+
+    expect(() => registry.register({ ...asset, cluster: 'mainnet-beta' })).toThrow(message);
+  });
+
+  it('rejects an unknown cluster', () => {
+    expect(
+      () =>
+        new PrivacyCashAssetRegistry([
+          { symbol: 'SOL', decimals: 9, cluster: 'testnet' as 'devnet' },
+        ])
+    ).toThrow('Invalid cluster for SOL: testnet');
+  });
+});
+
+describe('PrivacyCashProvider assets', () => {
+  function createProvider(assets?: PrivacyCashAssetRegistry) {
+    return new PrivacyCashProvider({
+      owner: Keypair.generate(),
+      rpcUrl: 'http://localhost:8899',
+      assets,
+    });
+  }
+
+  it('lists the registered assets of its cluster', () => {
+    const registry = new PrivacyCashAssetRegistry([
+      { symbol: 'SOL', decimals: 9, cluster: 'mainnet-beta' },
+    ]);
+    const provider = createProvider(registry);
+
+    registry.register({ symbol: 'ZEC', mint: ZEC_MINT, decimals: 8, cluster: 'mainnet-beta' });
+    registry.register({ symbol: 'USDC', mint: USDC_MINT, decimals: 6, cluster: 'devnet' });
+
+    expect(provider.getCapabilities().assets).toEqual([
+      { symbol: 'SOL', decimals: 9 },
+      { symbol: 'ZEC', decimals: 8 },
+    ]);
+  });
+
+  it('fails unsupported assets with a clear error', async () => {
+    const provider = createProvider();
+
+    await expect(provider.quoteFund({ asset: 'WBTC', amount: '1', mode: 'exactIn' })).rejects.toThrow(
+      'Unsupported Privacy Cash asset: WBTC on mainnet-beta'
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+
+import { PRIVACY_CASH_MAINNET, PrivacyCashProvider, privacyCashCluster, privacyCashEnv } from '../src';
+import { assertSdkDeployment } from '../src/clusters';
+
+const deployment = {
+  programId: 'DevProgram1111111111111111111111111111111111',
+  altAddress: 'DevAlt1111111111111111111111111111111111111',
+  relayerUrl: 'https://relayer.devnet.test',
+};
+
+const devnet = privacyCashCluster('devnet', deployment);
+
+/**
+ * Run fn as if in a bundle without process.env
+ */
+function withoutProcessEnv(fn: () => void): void {
+  vi.stubGlobal('process', { ...process, env: undefined });
+  try {
+    fn();
+  } finally {
+    vi.unstubAllGlobals();
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('privacyCashCluster', () => {
+  it('defaults the RPC URL, circuit path and assets', () => {
+    expect(devnet).toEqual({
+      cluster: 'devnet',
+      rpcUrl: 'https://api.devnet.solana.com',
+      ...deployment,
+      keyBasePath: PRIVACY_CASH_MAINNET.keyBasePath,
+      assets: [{ symbol: 'SOL', decimals: 9, cluster: 'devnet' }],
+    });
+    expect(privacyCashCluster('localnet', deployment).rpcUrl).toBe('http://127.0.0.1:8899');
+  });
+
+  it('takes the deployment overrides', () => {
+    const mint = Keypair.generate().publicKey.toBase58();
+
+    const config = privacyCashCluster('localnet', {
+      ...deployment,
+      rpcUrl: 'http://validator:8899',
+      keyBasePath: '/circuits/transaction2',
+      assets: [{ symbol: 'USDC', mint, decimals: 6 }],
+    });
+
+    expect(config).toMatchObject({
+      rpcUrl: 'http://validator:8899',
+      keyBasePath: '/circuits/transaction2',
+      assets: [{ symbol: 'USDC', mint, decimals: 6, cluster: 'localnet' }],
+    });
+  });
+});
+
+describe('privacyCashEnv', () => {
+  it('lists the deployment and its mints', () => {
+    const mint = Keypair.generate().publicKey.toBase58();
+    const config = privacyCashCluster('devnet', {
+      ...deployment,
+      assets: [
+        { symbol: 'SOL', decimals: 9 },
+        { symbol: 'usdc', mint, decimals: 6 },
+      ],
+    });
+
+    expect(privacyCashEnv(config)).toEqual({
+      NEXT_PUBLIC_PROGRAM_ID: deployment.programId,
+      NEXT_PUBLIC_ALT_ADDRESS: deployment.altAddress,
+      NEXT_PUBLIC_RELAYER_API_URL: deployment.relayerUrl,
+      NEXT_PUBLIC_USDC_MINT: mint,
+    });
+  });
+});
+
+describe('assertSdkDeployment', () => {
+  it('accepts mainnet on the SDK defaults', () => {
+    expect(() => assertSdkDeployment(PRIVACY_CASH_MAINNET)).not.toThrow();
+  });
+
+  it('rejects a cluster the SDK was not configured for', () => {
+    expect(() => assertSdkDeployment(devnet)).toThrow(
+      `Privacy Cash SDK is configured with NEXT_PUBLIC_PROGRAM_ID=${PRIVACY_CASH_MAINNET.programId}, ` +
+        `cluster devnet needs ${deployment.programId} - set it before the SDK is imported`
+    );
+    expect(
+      () =>
+        new PrivacyCashProvider({
+          owner: Keypair.generate(),
+          rpcUrl: 'http://localhost:8899',
+          cluster: devnet,
+        })
+    ).toThrow('cluster devnet needs');
+  });
+
+  it('accepts a cluster the SDK environment matches', () => {
+    for (const [name, value] of Object.entries(privacyCashEnv(devnet))) {
+      vi.stubEnv(name, value);
+    }
+
+    expect(() => assertSdkDeployment(devnet)).not.toThrow();
+    expect(() => assertSdkDeployment(PRIVACY_CASH_MAINNET)).toThrow(
+      `cluster mainnet-beta needs ${PRIVACY_CASH_MAINNET.programId}`
+    );
+  });
+
+  it('refuses other clusters when process.env is missing', () => {
+    withoutProcessEnv(() => {
+      expect(() => assertSdkDeployment(PRIVACY_CASH_MAINNET)).not.toThrow();
+      expect(() => assertSdkDeployment(devnet)).toThrow(
+        'Privacy Cash SDK deployment cannot be verified without process.env - cluster devnet needs ' +
+          'NEXT_PUBLIC_PROGRAM_ID, NEXT_PUBLIC_ALT_ADDRESS, NEXT_PUBLIC_RELAYER_API_URL defined'
+      );
+    });
+  });
+});
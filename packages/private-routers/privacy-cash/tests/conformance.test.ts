@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { assertConformance, runProviderConformance } from '@privacy-router-sdk/private-routers-core';
+import type { Account } from '@privacy-router-sdk/signers-core';
+import { Keypair } from '@solana/web3.js';
+import type { VersionedTransaction } from '@solana/web3.js';
+import { getBalanceFromUtxos, getUtxos } from 'privacycash/utils';
+
+import { MemoryNoteStorage, PrivacyCashProvider } from '../src';
+import type { PrivacyCashConfig } from '../src';
+import { runShieldedOperation } from '../src/shieldedOperation';
+import type { SdkUtxo } from '../src/utxos';
+
+/**
+ * SOL notes of the fake pool, shared by both modes
+ * Withdrawals spend the two largest notes like the SDK does, sending what
+ * they hold when that is short of the amount
+ */
+const pool = vi.hoisted(() => {
+  const state = {
+    notes: [] as number[],
+    sent: 0,
+    deposit(amount: number) {
+      state.notes.push(amount);
+      return `tx-${++state.sent}`;
+    },
+    withdraw(amount: number) {
+      const [first = 0, second = 0, ...rest] = [...state.notes].sort((a, b) => b - a);
+      if (first + second === 0) throw new Error('no balance');
+      const change = Math.max(first + second - amount, 0);
+      state.notes = change > 0 ? [...rest, change] : rest;
+      return `tx-${++state.sent}`;
+    },
+    balance: () => state.notes.reduce((sum, note) => sum + note, 0),
+  };
+  return state;
+});
+
+vi.mock('@lightprotocol/hasher.rs', () => ({
+  WasmFactory: { getInstance: () => Promise.resolve({}) },
+}));
+
+vi.mock('privacycash', () => ({
+  PrivacyCash: class {
+    deposit({ lamports }: { lamports: number }) {
+      return Promise.resolve({ tx: pool.deposit(lamports) });
+    }
+    withdraw({ lamports }: { lamports: number }) {
+      return Promise.resolve({ tx: pool.withdraw(lamports) });
+    }
+    getPrivateBalance() {
+      return Promise.resolve({ lamports: pool.balance() });
+    }
+  },
+}));
+
+vi.mock('privacycash/utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('privacycash/utils')>()),
+  getUtxos: vi.fn(),
+  getBalanceFromUtxos: vi.fn(),
+}));
+
+vi.mock('../src/shieldedOperation', () => ({
+  runShieldedOperation: vi.fn(),
+}));
+
+const relayer = {
+  withdraw_fee_rate: 0.0035,
+  withdraw_rent_fee: 0.006,
+  rent_fees: { usdc: 0.85, usdt: 0.85 },
+};
+
+const walletSigner = {
+  publicKey: Keypair.generate().publicKey,
+  signMessage: () => Promise.resolve(new Uint8Array(64).fill(1)),
+  signTransaction: (tx: VersionedTransaction) => Promise.resolve(tx),
+};
+
+const modes: Array<[string, PrivacyCashConfig]> = [
+  ['private key', { owner: Keypair.generate(), rpcUrl: 'http://localhost:8899' }],
+  ['wallet signer', { walletSigner, rpcUrl: 'http://localhost:8899', storage: new MemoryNoteStorage() }],
+];
+
+describe.each(modes)('PrivacyCashProvider conformance (%s mode)', (_mode, config) => {
+  beforeEach(() => {
+    pool.notes = [300_000_000, 200_000_000];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.resolve(new Response(JSON.stringify(relayer))))
+    );
+    vi.mocked(getUtxos).mockImplementation(() =>
+      Promise.resolve(pool.notes.map((amount) => ({ amount }) as unknown as SdkUtxo))
+    );
+    vi.mocked(getBalanceFromUtxos).mockImplementation(() => ({ lamports: pool.balance() }));
+    vi.mocked(runShieldedOperation).mockImplementation((operation) =>
+      Promise.resolve(
+        operation.kind === 'deposit' ? pool.deposit(operation.amount) : pool.withdraw(operation.amount)
+      )
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('passes every check against a mocked SDK', async () => {
+    const results = await runProviderConformance({
+      provider: new PrivacyCashProvider(config),
+      sourceAccount: {} as unknown as Account,
+      asset: 'SOL',
+      amount: '100000000',
+      destination: Keypair.generate().publicKey.toBase58(),
+    });
+
+    expect(results.find((r) => r.check === 'transfer')).toMatchObject({ skipped: true });
+    assertConformance(results);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+
+import { EncryptedNoteStorage, MemoryNoteStorage, PrivacyCashProvider } from '../src';
+import type { NoteKeySource, WalletSigner } from '../src';
+import { wipeNoteStorage } from '../src/storage';
+
+const KEY = 'encrypted_outputsWalletAddress111';
+
+function secret(fill: number): NoteKeySource {
+  return { secret: new Uint8Array(64).fill(fill) };
+}
+
+function backendWith(key: string, value: string): Promise<MemoryNoteStorage> {
+  const backend = new MemoryNoteStorage();
+  return new EncryptedNoteStorage(backend, secret(1)).setItem(key, value).then(() => backend);
+}
+
+describe('EncryptedNoteStorage', () => {
+  it('round-trips entries without revealing keys or values', async () => {
+    const backend = new MemoryNoteStorage();
+    const storage = new EncryptedNoteStorage(backend, secret(1));
+
+    await storage.setItem(KEY, 'note-data');
+
+    expect(await storage.getItem(KEY)).toBe('note-data');
+    expect(await storage.keys()).toEqual([KEY]);
+    const raw = backend.keys().map((id) => `${id}=${backend.getItem(id)!}`).join('\n');
+    expect(raw).not.toContain('WalletAddress111');
+    expect(raw).not.toContain('note-data');
+
+    await storage.removeItem(KEY);
+    expect(await storage.getItem(KEY)).toBeNull();
+  });
+
+  it('reads entries written by another instance with the same key', async () => {
+    const backend = await backendWith(KEY, 'note-data');
+
+    expect(await new EncryptedNoteStorage(backend, secret(1)).getItem(KEY)).toBe('note-data');
+  });
+
+  it('rejects the wrong key on every access', async () => {
+    const backend = await backendWith(KEY, 'note-data');
+    const storage = new EncryptedNoteStorage(backend, secret(2));
+
+    await expect(storage.getItem(KEY)).rejects.toThrow(
+      'Note storage key does not match - wrong passphrase or wallet'
+    );
+    await expect(storage.keys()).rejects.toThrow('Note storage key does not match');
+  });
+
+  it('rejects the wrong passphrase', async () => {
+    const backend = new MemoryNoteStorage();
+    await new EncryptedNoteStorage(backend, { passphrase: 'correct horse' }).setItem(KEY, 'note-data');
+
+    await expect(
+      new EncryptedNoteStorage(backend, { passphrase: 'battery staple' }).getItem(KEY)
+    ).rejects.toThrow('wrong passphrase');
+    expect(
+      await new EncryptedNoteStorage(backend, { passphrase: 'correct horse' }).getItem(KEY)
+    ).toBe('note-data');
+  });
+
+  it('treats tampered and swapped entries as missing', async () => {
+    const backend = new MemoryNoteStorage();
+    const storage = new EncryptedNoteStorage(backend, secret(1));
+    await storage.setItem('a', 'first');
+    await storage.setItem('b', 'second');
+    const [idA, idB] = backend.keys().filter((id) => id.startsWith('note:'));
+    const sealedA = backend.getItem(idA!)!;
+    const sealedB = backend.getItem(idB!)!;
+
+    // Swapping ciphertexts between ids fails the associated data check
+    backend.setItem(idA!, sealedB);
+    backend.setItem(idB!, sealedA);
+    expect(await storage.getItem('a')).toBeNull();
+    expect(await storage.getItem('b')).toBeNull();
+
+    backend.setItem(idA!, sealedA.slice(0, -4) + 'AAAA');
+    expect(await storage.getItem('a')).toBeNull();
+    expect(await storage.keys()).toEqual([]);
+  });
+
+  it('re-encrypts every entry under a rotated key', async () => {
+    const backend = new MemoryNoteStorage();
+    const storage = new EncryptedNoteStorage(backend, secret(1));
+    await storage.setItem('a', 'first');
+    await storage.setItem('b', 'second');
+    const before = backend.keys();
+
+    await storage.rotateKey(secret(2));
+
+    expect(await storage.getItem('a')).toBe('first');
+    expect(backend.keys()).toHaveLength(before.length);
+    expect(backend.keys().filter((id) => before.includes(id))).toEqual(['meta']);
+
+    const reopened = new EncryptedNoteStorage(backend, secret(2));
+    expect((await reopened.keys()).sort()).toEqual(['a', 'b']);
+    expect(await reopened.getItem('b')).toBe('second');
+    await expect(new EncryptedNoteStorage(backend, secret(1)).keys()).rejects.toThrow(
+      'Note storage key does not match'
+    );
+  });
+
+  it('wipes its entries and metadata but nothing else', async () => {
+    const backend = await backendWith(KEY, 'note-data');
+    backend.setItem('unrelated', 'keep');
+    const storage = new EncryptedNoteStorage(backend, secret(1));
+
+    await wipeNoteStorage(storage);
+
+    expect(backend.keys()).toEqual(['unrelated']);
+    expect(await storage.getItem(KEY)).toBeNull();
+
+    // The next write starts a fresh store
+    await storage.setItem(KEY, 'again');
+    expect(await new EncryptedNoteStorage(backend, secret(1)).getItem(KEY)).toBe('again');
+  });
+});
+
+describe('PrivacyCashProvider.wipe', () => {
+  it('deletes the encrypted note cache on logout', async () => {
+    const backend = await backendWith(KEY, 'note-data');
+    const provider = new PrivacyCashProvider({
+      walletSigner: {} as WalletSigner,
+      storage: backend,
+      encryptStorage: 'wallet',
+    });
+
+    await provider.wipe();
+
+    expect(backend.keys()).toEqual([]);
+  });
+});
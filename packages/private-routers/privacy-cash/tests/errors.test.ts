@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  BelowProviderMinimum,
+  InsufficientShieldedBalance,
+  ProviderUnavailable,
+} from '@privacy-router-sdk/private-routers-core';
+import { Keypair } from '@solana/web3.js';
+
+import { PrivacyCashProvider } from '../src';
+
+/**
+ * Rejection of the SDK client's next withdraw / withdrawSPL call
+ */
+const sdk = vi.hoisted(() => ({ error: new Error('not set') }));
+
+vi.mock('privacycash', () => ({
+  PrivacyCash: class {
+    getPrivateBalance() {
+      return Promise.resolve({ lamports: 1_000_000_000 });
+    }
+    getPrivateBalanceSpl() {
+      return Promise.resolve({ base_units: 1_000_000_000 });
+    }
+    withdraw() {
+      return Promise.reject(sdk.error);
+    }
+    withdrawSPL() {
+      return Promise.reject(sdk.error);
+    }
+  },
+}));
+
+const relayer = {
+  withdraw_fee_rate: 0.0035,
+  withdraw_rent_fee: 0.006,
+  rent_fees: { usdc: 0.85, usdt: 0.85 },
+};
+
+function createProvider(): PrivacyCashProvider {
+  return new PrivacyCashProvider({
+    owner: Keypair.generate(),
+    rpcUrl: 'http://localhost:8899',
+    feeConfigTtlMs: 0,
+  });
+}
+
+function withdrawFailing(provider: PrivacyCashProvider, asset: string, message: string) {
+  sdk.error = new Error(message);
+  return provider
+    .withdraw({ destination: { address: '11111111111111111111111111111111' }, asset, amount: '100' })
+    .catch((e: unknown) => e);
+}
+
+describe('withdraw errors', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.resolve(new Response(JSON.stringify(relayer))))
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('derives the SPL minimum from the fee model, not the SDK message', async () => {
+    const provider = createProvider();
+
+    // The SDK reports fee / rent for SPL tokens - a ratio, not an amount
+    const error = await withdrawFailing(provider, 'USDC', 'withdraw amount too low, at least 0.0117');
+
+    const { withdrawAmount } = await provider.calculateWithdrawAmount(1n, 'USDC');
+    expect(error).toBeInstanceOf(BelowProviderMinimum);
+    expect(error).toMatchObject({ code: 'BELOW_PROVIDER_MINIMUM', amount: 100n });
+    expect((error as BelowProviderMinimum).minimum).toBe(withdrawAmount);
+    expect(withdrawAmount).toBeGreaterThan(850_000n);
+  });
+
+  it('derives the SOL minimum from the fee model', async () => {
+    const provider = createProvider();
+
+    const error = await withdrawFailing(provider, 'SOL', 'withdraw amount too low, at least 0.006');
+
+    const { withdrawAmount } = await provider.calculateWithdrawAmount(1n, 'SOL');
+    expect((error as BelowProviderMinimum).minimum).toBe(withdrawAmount);
+  });
+
+  it('keeps the SDK error when the fee model is unavailable', async () => {
+    vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new Error('offline'))));
+    const provider = createProvider();
+
+    const error = await withdrawFailing(provider, 'SOL', 'withdraw amount too low, at least 0.006');
+
+    expect(error).not.toBeInstanceOf(BelowProviderMinimum);
+    expect((error as Error).message).toBe('withdraw amount too low, at least 0.006');
+  });
+
+  it('maps missing notes and relayer failures', async () => {
+    const provider = createProvider();
+
+    expect(await withdrawFailing(provider, 'SOL', 'no balance')).toBeInstanceOf(
+      InsufficientShieldedBalance
+    );
+    expect(await withdrawFailing(provider, 'SOL', 'response not ok')).toBeInstanceOf(
+      ProviderUnavailable
+    );
+  });
+});
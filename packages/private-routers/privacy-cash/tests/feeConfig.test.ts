@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PrivacyCashProvider } from '../src';
+import { FeeConfigCache } from '../src/feeConfig';
+
+const RELAYER_URL = 'https://relayer.test';
+
+const relayer = {
+  withdraw_fee_rate: 0.0035,
+  withdraw_rent_fee: 0.006,
+  rent_fees: { usdc: 0.85, usdt: 0.85 },
+};
+
+function serve(...bodies: Array<Response | Record<string, unknown>>) {
+  const fetch = vi.fn(() => {
+    const body = bodies.length > 1 ? bodies.shift()! : bodies[0]!;
+    return Promise.resolve(body instanceof Response ? body : new Response(JSON.stringify(body)));
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('FeeConfigCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  it('reuses the config until the TTL runs out', async () => {
+    const fetch = serve(relayer, { ...relayer, withdraw_fee_rate: 0.005 });
+    const cache = new FeeConfigCache(RELAYER_URL, 1_000);
+
+    expect(await cache.get()).toEqual({
+      withdrawFeeRate: 0.0035,
+      withdrawRentFee: 0.006,
+      rentFees: { usdc: 0.85, usdt: 0.85 },
+    });
+    vi.advanceTimersByTime(999);
+    expect((await cache.get()).withdrawFeeRate).toBe(0.0035);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith(`${RELAYER_URL}/config`);
+
+    vi.advanceTimersByTime(1);
+    expect((await cache.get()).withdrawFeeRate).toBe(0.005);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one request between concurrent reads', async () => {
+    const fetch = serve(relayer);
+    const cache = new FeeConfigCache(RELAYER_URL);
+
+    await Promise.all([cache.get(), cache.get(), cache.get()]);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches on refresh', async () => {
+    const fetch = serve(relayer, { ...relayer, withdraw_rent_fee: 0.01 });
+    const cache = new FeeConfigCache(RELAYER_URL);
+    await cache.get();
+
+    expect((await cache.refresh()).withdrawRentFee).toBe(0.01);
+    expect((await cache.get()).withdrawRentFee).toBe(0.01);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache a failed request', async () => {
+    const fetch = serve(new Response('down', { status: 503 }), relayer);
+    const cache = new FeeConfigCache(RELAYER_URL);
+
+    await expect(cache.get()).rejects.toThrow(
+      `Failed to fetch Privacy Cash fee config from ${RELAYER_URL}/config: 503`
+    );
+    expect((await cache.get()).withdrawFeeRate).toBe(0.0035);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a config with missing fields', async () => {
+    serve({ ...relayer, rent_fees: null });
+    const cache = new FeeConfigCache(RELAYER_URL);
+
+    await expect(cache.get()).rejects.toThrow(`can not get rent_fees from ${RELAYER_URL}/config`);
+  });
+});
+
+describe('PrivacyCashProvider fee config', () => {
+  function createProvider(feeConfigTtlMs?: number): PrivacyCashProvider {
+    return new PrivacyCashProvider({
+      walletSigner: {
+        publicKey: { toBase58: () => '11111111111111111111111111111111' },
+        signMessage: () => Promise.reject(new Error('not used')),
+        signTransaction: () => Promise.reject(new Error('not used')),
+      },
+      feeConfigTtlMs,
+    });
+  }
+
+  it('fetches the config once for repeated fee calculations', async () => {
+    const fetch = serve(relayer);
+    const provider = createProvider();
+
+    await provider.calculateFee(1_000_000_000n);
+    await provider.calculateWithdrawAmount(1_000_000_000n, 'USDC');
+    await provider.maxWithdrawable(1_000_000_000n);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await provider.refreshFeeConfig();
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  describe('maxWithdrawable', () => {
+    it('withdraws the whole balance, net of the fee', async () => {
+      serve(relayer);
+      const provider = createProvider();
+
+      // floor(1 SOL * 0.35%) + 0.006 SOL rent
+      expect(await provider.maxWithdrawable(1_000_000_000n)).toEqual({
+        withdrawAmount: 1_000_000_000n,
+        fee: 9_500_000n,
+        netAmount: 990_500_000n,
+      });
+      // 0.85 USDC rent for SPL tokens
+      expect(await provider.maxWithdrawable(100_000_000n, 'USDC')).toEqual({
+        withdrawAmount: 100_000_000n,
+        fee: 1_200_000n,
+        netAmount: 98_800_000n,
+      });
+    });
+
+    it('nets the most calculateWithdrawAmount can reach from the balance', async () => {
+      serve(relayer);
+      const provider = createProvider();
+
+      for (const balance of [6_100_000n, 123_456_789n, 5_000_000_000_000n]) {
+        const { netAmount } = await provider.maxWithdrawable(balance);
+        const fee = await provider.calculateFee(balance);
+
+        expect(netAmount).toBe(fee.netAmount);
+        expect((await provider.calculateWithdrawAmount(netAmount)).withdrawAmount).toBeLessThanOrEqual(
+          balance
+        );
+        expect((await provider.calculateWithdrawAmount(netAmount + 1n)).withdrawAmount).toBeGreaterThan(
+          balance
+        );
+      }
+    });
+
+    it('is zero when the fee takes the whole balance', async () => {
+      serve(relayer);
+      const provider = createProvider();
+
+      const zero = { withdrawAmount: 0n, fee: 0n, netAmount: 0n };
+      expect(await provider.maxWithdrawable(6_000_000n)).toEqual(zero);
+      expect(await provider.maxWithdrawable(0n)).toEqual(zero);
+      expect(await provider.maxWithdrawable(850_000n, 'USDT')).toEqual(zero);
+    });
+  });
+});
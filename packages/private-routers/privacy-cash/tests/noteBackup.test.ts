@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import type { VersionedTransaction } from '@solana/web3.js';
+
+import { MemoryNoteStorage, PrivacyCashProvider } from '../src';
+import type { NoteKeySource, WalletSigner } from '../src';
+import { createNoteBackup, openNoteBackup } from '../src/noteBackup';
+import type { NoteBackupPayload } from '../src/noteBackup';
+
+vi.mock('@lightprotocol/hasher.rs', () => ({
+  WasmFactory: { getInstance: () => Promise.resolve({}) },
+}));
+
+const KEY: NoteKeySource = { secret: new Uint8Array(64).fill(1) };
+
+const payload: NoteBackupPayload = {
+  address: 'WalletAddress111',
+  cluster: 'mainnet-beta',
+  programId: 'Program111',
+  keyDerivationMessage: 'Sign in',
+  entries: [
+    ['fetch_offsetWalletAddress111', '12'],
+    ['encrypted_outputsWalletAddress111', '["a","b"]'],
+  ],
+};
+
+type BackupFile = Record<string, unknown>;
+
+function edit(backup: string, change: (file: BackupFile) => void): string {
+  const file = JSON.parse(backup) as BackupFile;
+  change(file);
+  return JSON.stringify(file);
+}
+
+describe('note backups', () => {
+  it('round-trip without revealing the notes', async () => {
+    const backup = await createNoteBackup(payload, KEY);
+
+    expect(backup).not.toContain('WalletAddress111');
+    expect(JSON.parse(backup)).toMatchObject({ format: 'privacy-cash-note-backup', version: 1 });
+    expect(await openNoteBackup(backup, KEY)).toEqual(payload);
+  });
+
+  it('round-trip with a passphrase', async () => {
+    const backup = await createNoteBackup(payload, { passphrase: 'correct horse' });
+
+    expect(await openNoteBackup(backup, { passphrase: 'correct horse' })).toEqual(payload);
+    await expect(openNoteBackup(backup, { passphrase: 'battery staple' })).rejects.toThrow(
+      'Note backup does not decrypt - wrong key, or the file was modified'
+    );
+  });
+
+  it('reject the wrong key', async () => {
+    const backup = await createNoteBackup(payload, KEY);
+
+    await expect(openNoteBackup(backup, { secret: new Uint8Array(64).fill(2) })).rejects.toThrow(
+      'Note backup does not decrypt'
+    );
+  });
+
+  it('detect a modified header or payload', async () => {
+    const backup = await createNoteBackup(payload, KEY);
+
+    const backdated = edit(backup, (file) => {
+      file['createdAt'] = '2020-01-01T00:00:00.000Z';
+    });
+    const flipped = edit(backup, (file) => {
+      const data = file['data'] as string;
+      file['data'] = data.slice(0, 20) + (data[20] === 'A' ? 'B' : 'A') + data.slice(21);
+    });
+
+    await expect(openNoteBackup(backdated, KEY)).rejects.toThrow('the file was modified');
+    await expect(openNoteBackup(flipped, KEY)).rejects.toThrow('the file was modified');
+  });
+
+  it('reject files that are not backups', async () => {
+    const backup = await createNoteBackup(payload, KEY);
+
+    await expect(openNoteBackup('{', KEY)).rejects.toThrow(
+      'Not a Privacy Cash note backup: invalid JSON'
+    );
+    await expect(openNoteBackup('null', KEY)).rejects.toThrow('Not a Privacy Cash note backup');
+    await expect(
+      openNoteBackup(edit(backup, (file) => (file['version'] = 2)), KEY)
+    ).rejects.toThrow('Unsupported note backup version: 2');
+    await expect(
+      openNoteBackup(edit(backup, (file) => delete file['salt']), KEY)
+    ).rejects.toThrow('Note backup is incomplete');
+  });
+});
+
+describe('PrivacyCashProvider note export / import', () => {
+  function signer(seed: number): WalletSigner {
+    return {
+      publicKey: Keypair.generate().publicKey,
+      signMessage: () => Promise.resolve(new Uint8Array(64).fill(seed)),
+      signTransaction: (tx: VersionedTransaction) => Promise.resolve(tx),
+    };
+  }
+
+  function createProvider(walletSigner: WalletSigner, storage = new MemoryNoteStorage()) {
+    return new PrivacyCashProvider({ walletSigner, rpcUrl: 'http://localhost:8899', storage });
+  }
+
+  it('restores the note cache on another device of the same wallet', async () => {
+    const wallet = signer(1);
+    const source = new MemoryNoteStorage();
+    source.setItem('fetch_offsetX', '12');
+    source.setItem('encrypted_outputsX', '["a"]');
+    const target = new MemoryNoteStorage();
+    target.setItem('fetch_offsetX', '7');
+
+    const backup = await createProvider(wallet, source).exportNotes();
+    const result = await createProvider(wallet, target).importNotes(backup);
+
+    expect(result).toEqual({ imported: 1, skipped: 1 });
+    expect(target.getItem('fetch_offsetX')).toBe('7');
+    expect(target.getItem('encrypted_outputsX')).toBe('["a"]');
+
+    expect(await createProvider(wallet, target).importNotes(backup, { replace: true })).toEqual({
+      imported: 2,
+      skipped: 0,
+    });
+    expect(target.getItem('fetch_offsetX')).toBe('12');
+  });
+
+  it('refuses a backup of another wallet', async () => {
+    const backup = await createProvider(signer(1)).exportNotes({ key: KEY });
+
+    await expect(createProvider(signer(1)).importNotes(backup, { key: KEY })).rejects.toThrow(
+      'Note backup address does not match this provider'
+    );
+  });
+
+  it('cannot open a backup sealed with another wallet signature', async () => {
+    const wallet = signer(1);
+    const backup = await createProvider(wallet).exportNotes();
+
+    const otherSignature = { ...signer(2), publicKey: wallet.publicKey };
+
+    await expect(createProvider(otherSignature).importNotes(backup)).rejects.toThrow(
+      'Note backup does not decrypt'
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { InsufficientShieldedBalance } from '@privacy-router-sdk/private-routers-core';
+import { Keypair } from '@solana/web3.js';
+
+import { PrivacyCashProvider } from '../src';
+
+/**
+ * Private balance of the fake SDK client and its withdraw calls
+ */
+const sdk = vi.hoisted(() => ({
+  lamports: 0,
+  withdraw: vi.fn((params: { lamports: number }) => Promise.resolve({ tx: `tx-${params.lamports}` })),
+}));
+
+vi.mock('privacycash', () => ({
+  PrivacyCash: class {
+    withdraw = sdk.withdraw;
+    getPrivateBalance() {
+      return Promise.resolve({ lamports: sdk.lamports });
+    }
+  },
+}));
+
+const destination = { address: Keypair.generate().publicKey.toBase58() };
+
+function createProvider(): PrivacyCashProvider {
+  return new PrivacyCashProvider({ owner: Keypair.generate(), rpcUrl: 'http://localhost:8899' });
+}
+
+describe('PrivacyCashProvider strict withdrawals in private key mode', () => {
+  beforeEach(() => {
+    sdk.lamports = 500_000_000;
+    sdk.withdraw.mockClear();
+  });
+
+  it('ignores strict - the SDK hides the notes', async () => {
+    const stages: string[] = [];
+
+    await createProvider().withdraw({
+      destination,
+      asset: 'SOL',
+      amount: '200000000',
+      strict: true,
+      onStatusChange: (status) => stages.push(status.stage),
+    });
+
+    expect(sdk.withdraw).toHaveBeenCalledWith({
+      lamports: 200_000_000,
+      recipientAddress: destination.address,
+    });
+    expect(stages).toEqual(['preparing', 'processing', 'completed']);
+  });
+
+  it('still refuses amounts above the private balance', async () => {
+    const error = await createProvider()
+      .withdraw({ destination, asset: 'SOL', amount: '500000001', strict: true })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(InsufficientShieldedBalance);
+    expect(error).toMatchObject({ required: 500_000_001n, available: 500_000_000n });
+    expect(sdk.withdraw).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,152 @@
+import { MessageChannel } from 'node:worker_threads';
+import type { MessagePort, Worker } from 'node:worker_threads';
+import { afterEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { Keypair, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+
+import { PrivacyCashProvider, exposePrivacyCashProver } from '../src';
+import type { NodeProverWorker, ProverParentPort, WalletSigner } from '../src';
+import { ProverWorkerClient } from '../src/proverWorker';
+import type { ProverRunHooks } from '../src/proverWorker';
+import { runShieldedOperation } from '../src/shieldedOperation';
+import { MapStorage } from './webStorage';
+
+vi.mock('@lightprotocol/hasher.rs', () => ({
+  WasmFactory: { getInstance: () => Promise.resolve({}) },
+}));
+
+vi.mock('../src/shieldedOperation', () => ({
+  runShieldedOperation: vi.fn(),
+}));
+
+const runMock = vi.mocked(runShieldedOperation);
+
+const payer = Keypair.generate();
+
+const context = {
+  rpcUrl: 'http://localhost:8899',
+  keyBasePath: '/circuit2/transaction2',
+  publicKey: payer.publicKey.toBase58(),
+  signature: new Uint8Array(64).fill(7),
+};
+
+const operation = { kind: 'deposit', amount: 1_000 } as const;
+
+function unsignedTransaction(): VersionedTransaction {
+  return new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer.publicKey,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+      instructions: [],
+    }).compileToV0Message()
+  );
+}
+
+/**
+ * A worker_threads Worker stand-in on a MessageChannel, served in-process
+ */
+function nodeWorker(ports: MessagePort[]) {
+  const { port1, port2 } = new MessageChannel();
+  ports.push(port1, port2);
+  exposePrivacyCashProver(port2);
+
+  const worker: NodeProverWorker & { emit: MessagePort['emit'] } = {
+    postMessage: (message) => port1.postMessage(message),
+    on: port1.on.bind(port1),
+    emit: port1.emit.bind(port1),
+    terminate: vi.fn(() => port1.close()),
+  };
+  return worker;
+}
+
+function hooks(overrides: Partial<ProverRunHooks> = {}): ProverRunHooks {
+  return {
+    tracker: { advance: vi.fn(), onLog: vi.fn() },
+    storage: new MapStorage(),
+    transactionSigner: (tx) => Promise.resolve(tx),
+    ...overrides,
+  };
+}
+
+describe('ProverWorkerClient over worker_threads', () => {
+  const ports: MessagePort[] = [];
+
+  afterEach(() => {
+    ports.splice(0).forEach((port) => port.close());
+    runMock.mockReset();
+  });
+
+  it('accepts worker_threads Workers and parent ports', () => {
+    expectTypeOf<Worker>().toMatchTypeOf<NodeProverWorker>();
+    expectTypeOf<MessagePort>().toMatchTypeOf<ProverParentPort>();
+  });
+
+  it('runs an operation in the worker, signing and storing notes on the host', async () => {
+    runMock.mockImplementation(async (_operation, ctx) => {
+      ctx.onLog?.('info', 'decrypting cached utxo: 1/2');
+      await ctx.storage.setItem('fetch_offset', '3');
+      await ctx.storage.removeItem('stale');
+      const signed = await ctx.transactionSigner(unsignedTransaction());
+      return `sent-${signed.signatures.length}`;
+    });
+    const storage = new MapStorage();
+    storage.setItem('stale', 'x');
+    const transactionSigner = vi.fn((tx: VersionedTransaction) => Promise.resolve(tx));
+    const run = hooks({ storage, transactionSigner });
+    const client = new ProverWorkerClient(() => nodeWorker(ports));
+
+    const tx = await client.run(operation, context, run);
+
+    expect(tx).toBe('sent-1');
+    expect(transactionSigner).toHaveBeenCalledTimes(1);
+    expect(run.tracker.onLog).toHaveBeenCalledWith('info', 'decrypting cached utxo: 1/2');
+    expect(run.tracker.advance).toHaveBeenCalledWith('loading-circuit', 1);
+    expect(storage.entries()).toEqual({ fetch_offset: '3' });
+    expect(runMock.mock.calls[0]?.[0]).toEqual(operation);
+  });
+
+  it('passes SDK errors back as plain errors', async () => {
+    runMock.mockRejectedValue(new Error('withdraw amount too low, at least 0.006'));
+    const client = new ProverWorkerClient(() => nodeWorker(ports));
+
+    await expect(client.run(operation, context, hooks())).rejects.toThrow(
+      'withdraw amount too low, at least 0.006'
+    );
+  });
+
+  it('fails pending runs when the worker crashes or exits, then starts a new one', async () => {
+    runMock.mockImplementation(() => new Promise(() => undefined));
+    const workers: Array<ReturnType<typeof nodeWorker>> = [];
+    const client = new ProverWorkerClient(() => {
+      const worker = nodeWorker(ports);
+      workers.push(worker);
+      return worker;
+    });
+
+    const crashed = client.run(operation, context, hooks());
+    workers[0]!.emit('error', new Error('out of memory'));
+    await expect(crashed).rejects.toThrow('Privacy Cash prover worker failed: out of memory');
+    expect(workers[0]!.terminate).toHaveBeenCalled();
+
+    const exited = client.run(operation, context, hooks());
+    expect(workers).toHaveLength(2);
+    // The exit that follows an error must not fail runs on the new worker
+    workers[0]!.emit('exit', 0);
+    workers[1]!.emit('exit', 1);
+    await expect(exited).rejects.toThrow('Privacy Cash prover worker failed: exited with code 1');
+  });
+});
+
+describe('PrivacyCashProvider proverWorker', () => {
+  it('is accepted outside the browser', () => {
+    const createWorker = vi.fn();
+
+    expect(
+      () =>
+        new PrivacyCashProvider({
+          walletSigner: {} as WalletSigner,
+          proverWorker: createWorker,
+        })
+    ).not.toThrow();
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,287 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AbortedError } from '@privacy-router-sdk/private-routers-core';
+import { getUtxos, getUtxosSPL, withdraw, withdrawSPL } from 'privacycash/utils';
+
+import { runSdkCall } from '../src/provingProgress';
+import { PARTIAL_WITHDRAWAL_REFUSED, runShieldedOperation } from '../src/shieldedOperation';
+import type { ShieldedOperationContext } from '../src/shieldedOperation';
+
+type SdkLogger = (level: string, message: string) => void;
+
+/**
+ * The SDK's global logger, as installed by the provider
+ */
+const sdk = vi.hoisted(() => ({
+  logger: null as ((level: string, message: string) => void) | null,
+}));
+
+vi.mock('privacycash/utils', () => ({
+  setLogger: (logger: SdkLogger) => {
+    sdk.logger = logger;
+  },
+  withdraw: vi.fn(),
+  withdrawSPL: vi.fn(),
+  deposit: vi.fn(),
+  depositSPL: vi.fn(),
+  getUtxos: vi.fn(),
+  getUtxosSPL: vi.fn(),
+}));
+
+const withdrawMock = vi.mocked(withdraw);
+const withdrawSplMock = vi.mocked(withdrawSPL);
+const getUtxosMock = vi.mocked(getUtxos);
+const getUtxosSplMock = vi.mocked(getUtxosSPL);
+
+type SdkUtxos = Awaited<ReturnType<typeof getUtxos>>;
+
+/**
+ * Unspent notes holding these amounts (only the amount is read)
+ */
+function notes(...amounts: number[]): SdkUtxos {
+  return amounts.map((amount) => ({ amount: { toString: () => String(amount) } })) as SdkUtxos;
+}
+
+const RECIPIENT = '11111111111111111111111111111111';
+
+const WITHDRAW_RESULT = {
+  tx: 'withdraw-tx',
+  isPartial: false,
+  recipient: RECIPIENT,
+  amount_in_lamports: 900,
+  fee_in_lamports: 100,
+};
+
+/**
+ * Log lines of an SDK withdrawal, in the order the SDK writes them
+ */
+const WITHDRAW_LOG = [
+  '\nFetching existing UTXOs...',
+  'decrypting cached utxo: 1/2',
+  'Withdrawing 900 lamports with 100 fee, 0 as change',
+  'generating ZK proof...',
+  'Prepared withdraw parameters for indexer backend',
+  'submitting transaction to relayer...',
+  'waiting for transaction confirmation...',
+];
+
+function log(message: string): void {
+  sdk.logger?.('debug', message);
+}
+
+/**
+ * SDK withdrawal that writes WITHDRAW_LOG, running onLine after each line
+ */
+function sdkWithdrawal(onLine: (message: string) => void = () => undefined) {
+  return () => {
+    for (const message of WITHDRAW_LOG) {
+      log(message);
+      onLine(message);
+    }
+    return Promise.resolve(WITHDRAW_RESULT);
+  };
+}
+
+function context(overrides: Partial<ShieldedOperationContext> = {}): ShieldedOperationContext {
+  return {
+    storage: {} as Storage,
+    transactionSigner: () => Promise.reject(new Error('not used')),
+    ...overrides,
+  } as ShieldedOperationContext;
+}
+
+const operation = { kind: 'withdraw', amount: 1_000, recipient: RECIPIENT } as const;
+
+beforeEach(() => {
+  withdrawMock.mockReset();
+  withdrawSplMock.mockReset();
+  getUtxosMock.mockReset();
+  getUtxosSplMock.mockReset();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+describe('runShieldedOperation abort', () => {
+  it('rejects before the relayer when aborted while proving', async () => {
+    const controller = new AbortController();
+    const relayed = vi.fn();
+    withdrawMock.mockImplementation(
+      sdkWithdrawal((message) => {
+        if (message.startsWith('generating ZK proof')) controller.abort();
+        if (message.startsWith('submitting')) relayed();
+      })
+    );
+
+    const result = runShieldedOperation(operation, context({ signal: controller.signal }));
+
+    await expect(result).rejects.toBeInstanceOf(AbortedError);
+    await expect(result).rejects.toMatchObject({ fundsMayHaveMoved: false });
+    expect(relayed).not.toHaveBeenCalled();
+  });
+
+  it('completes when aborted after the proof reached the relayer', async () => {
+    const controller = new AbortController();
+    withdrawMock.mockImplementation(
+      sdkWithdrawal((message) => {
+        if (message.startsWith('submitting')) controller.abort();
+      })
+    );
+
+    await expect(
+      runShieldedOperation(operation, context({ signal: controller.signal }))
+    ).resolves.toBe('withdraw-tx');
+  });
+
+  it('only checks the signal at withdrawal steps', async () => {
+    const controller = new AbortController();
+    const seen: string[] = [];
+    withdrawMock.mockImplementation(
+      sdkWithdrawal((message) => {
+        if (message.startsWith('decrypting')) controller.abort();
+      })
+    );
+    const onLog = (_level: string, message: string) => seen.push(message);
+
+    await expect(
+      runShieldedOperation(operation, context({ signal: controller.signal, onLog }))
+    ).rejects.toBeInstanceOf(AbortedError);
+    // Thrown at the next step, not from inside the UTXO decryption
+    expect(seen.at(-1)).toBe('Withdrawing 900 lamports with 100 fee, 0 as change');
+  });
+
+  it('does not leak an abort into other SDK calls', async () => {
+    const controller = new AbortController();
+    let release: () => void = () => undefined;
+    withdrawMock.mockImplementation(async () => {
+      log('\nFetching existing UTXOs...');
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      return WITHDRAW_RESULT;
+    });
+
+    const withdrawal = runShieldedOperation(operation, context({ signal: controller.signal }));
+    const balance = runSdkCall(async () => {
+      log('\nFetching existing UTXOs...');
+      log('generating ZK proof...');
+      return 42;
+    });
+    await vi.waitFor(() => expect(withdrawMock).toHaveBeenCalled());
+    controller.abort();
+    release();
+
+    await expect(withdrawal).resolves.toBe('withdraw-tx');
+    await expect(balance).resolves.toBe(42);
+  });
+});
+
+describe('runShieldedOperation strict', () => {
+  const strict = { ...operation, strict: true } as const;
+
+  it('refuses before the SDK withdraws when the two largest notes fall short', async () => {
+    getUtxosMock.mockResolvedValue(notes(400, 300, 300));
+    withdrawMock.mockImplementation(sdkWithdrawal());
+
+    await expect(runShieldedOperation(strict, context())).rejects.toThrow(
+      `${PARTIAL_WITHDRAWAL_REFUSED}: 700 of 1000`
+    );
+    expect(withdrawMock).not.toHaveBeenCalled();
+  });
+
+  it('withdraws when the two largest notes cover the amount', async () => {
+    getUtxosMock.mockResolvedValue(notes(100, 600, 400));
+    withdrawMock.mockImplementation(sdkWithdrawal());
+
+    await expect(runShieldedOperation(strict, context())).resolves.toBe('withdraw-tx');
+  });
+
+  it('checks the notes of the withdrawn token', async () => {
+    const mint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+    getUtxosSplMock.mockResolvedValue(notes(2_000));
+    withdrawSplMock.mockResolvedValue({ ...WITHDRAW_RESULT, base_units: 900, fee_base_units: 100 });
+
+    await expect(runShieldedOperation({ ...strict, mint }, context())).resolves.toBe('withdraw-tx');
+    expect(getUtxosMock).not.toHaveBeenCalled();
+    expect(String(getUtxosSplMock.mock.calls[0]?.[0].mintAddress)).toBe(mint);
+  });
+
+  it('does not refuse a concurrent non-strict withdrawal', async () => {
+    getUtxosMock.mockResolvedValue(notes(5_000));
+    withdrawMock
+      .mockImplementationOnce(sdkWithdrawal())
+      .mockImplementationOnce(() => {
+        // A partial plan: the inputs hold less than the amount
+        log('Withdrawing 100 lamports with 100 fee, 0 as change');
+        return Promise.resolve(WITHDRAW_RESULT);
+      });
+
+    const results = await Promise.all([
+      runShieldedOperation(strict, context()),
+      runShieldedOperation(operation, context()),
+    ]);
+
+    expect(results).toEqual(['withdraw-tx', 'withdraw-tx']);
+  });
+});
+
+describe('runSdkCall', () => {
+  it('runs SDK calls one at a time in order', async () => {
+    const events: string[] = [];
+    let release: () => void = () => undefined;
+
+    const first = runSdkCall(async () => {
+      events.push('first started');
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      events.push('first done');
+    });
+    const second = runSdkCall(async () => {
+      events.push('second started');
+    });
+
+    await vi.waitFor(() => expect(events).toEqual(['first started']));
+    release();
+    await Promise.all([first, second]);
+
+    expect(events).toEqual(['first started', 'first done', 'second started']);
+  });
+
+  it('only delivers a call its own log messages', async () => {
+    const firstLog: string[] = [];
+    const secondLog: string[] = [];
+
+    await Promise.all([
+      runSdkCall(
+        async () => log('from first'),
+        (_level, message) => firstLog.push(message)
+      ),
+      runSdkCall(
+        async () => log('from second'),
+        (_level, message) => secondLog.push(message)
+      ),
+      runSdkCall(async () => log('unobserved')),
+    ]);
+
+    expect(firstLog).toEqual(['from first']);
+    expect(secondLog).toEqual(['from second']);
+  });
+
+  it('prints log messages only for debug calls', async () => {
+    const print = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const listener = vi.fn();
+
+    await runSdkCall(async () => log('quiet'), listener);
+    await runSdkCall(async () => log('loud'), undefined, true);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('debug', 'quiet');
+    expect(print.mock.calls).toEqual([['[DEBUG]', 'loud']]);
+  });
+
+  it('keeps the queue going after a failed call', async () => {
+    const failed = runSdkCall(() => Promise.reject(new Error('rpc down')));
+    const next = runSdkCall(async () => 'ok');
+
+    await expect(failed).rejects.toThrow('rpc down');
+    await expect(next).resolves.toBe('ok');
+  });
+});
@@ -0,0 +1,248 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import type { VersionedTransaction } from '@solana/web3.js';
+
+import {
+  EncryptedNoteStorage,
+  FileSystemNoteStorage,
+  MemoryNoteStorage,
+  PrivacyCashProvider,
+  WebStorageNoteStorage,
+} from '../src';
+import {
+  defaultNoteStorage,
+  encryptLegacyNotes,
+  loadNoteCache,
+  wipeNoteStorage,
+} from '../src/storage';
+import { MapStorage } from './webStorage';
+
+vi.mock('@lightprotocol/hasher.rs', () => ({
+  WasmFactory: { getInstance: () => Promise.resolve({}) },
+}));
+
+const ACCOUNT = 'AccountKey111';
+
+describe('WebStorageNoteStorage', () => {
+  it('namespaces entries by prefix', () => {
+    const local = new MapStorage();
+    local.setItem('theme', 'dark');
+    const notes = new WebStorageNoteStorage(local);
+
+    notes.setItem(`fetch_offset${ACCOUNT}`, '42');
+
+    expect(local.entries()).toEqual({ theme: 'dark', [`privacy-cash:fetch_offset${ACCOUNT}`]: '42' });
+    expect(notes.keys()).toEqual([`fetch_offset${ACCOUNT}`]);
+  });
+
+  it('moves the SDK cache from its bare keys under the prefix', () => {
+    const local = new MapStorage();
+    local.setItem(`fetch_offset${ACCOUNT}`, '42');
+    local.setItem(`encrypted_outputs${ACCOUNT}`, '["a","b"]');
+    local.setItem(`tradeHistory${ACCOUNT}`, 'tx1,tx2');
+    local.setItem('theme', 'dark');
+    const notes = new WebStorageNoteStorage(local);
+
+    expect(notes.adoptLegacyKeys()).toBe(3);
+
+    expect(local.entries()).toEqual({
+      theme: 'dark',
+      [`privacy-cash:fetch_offset${ACCOUNT}`]: '42',
+      [`privacy-cash:encrypted_outputs${ACCOUNT}`]: '["a","b"]',
+      [`privacy-cash:tradeHistory${ACCOUNT}`]: 'tx1,tx2',
+    });
+    expect(notes.adoptLegacyKeys()).toBe(0);
+  });
+
+  it('keeps an entry already under the prefix over a legacy one', () => {
+    const local = new MapStorage();
+    local.setItem(`fetch_offset${ACCOUNT}`, 'stale');
+    local.setItem(`privacy-cash:fetch_offset${ACCOUNT}`, 'current');
+    const notes = new WebStorageNoteStorage(local);
+
+    expect(notes.adoptLegacyKeys()).toBe(0);
+
+    expect(local.entries()).toEqual({ [`privacy-cash:fetch_offset${ACCOUNT}`]: 'current' });
+  });
+
+  it('leaves bare keys alone without a prefix', () => {
+    const local = new MapStorage();
+    local.setItem(`fetch_offset${ACCOUNT}`, '42');
+
+    expect(new WebStorageNoteStorage(local, '').adoptLegacyKeys()).toBe(0);
+
+    expect(local.getItem(`fetch_offset${ACCOUNT}`)).toBe('42');
+  });
+});
+
+describe('defaultNoteStorage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('migrates legacy notes in localStorage on first load', () => {
+    const local = new MapStorage();
+    local.setItem(`encrypted_outputs${ACCOUNT}`, '["a"]');
+    vi.stubGlobal('window', { localStorage: local });
+
+    const notes = defaultNoteStorage();
+
+    expect(notes).toBeInstanceOf(WebStorageNoteStorage);
+    expect(notes.getItem(`encrypted_outputs${ACCOUNT}`)).toBe('["a"]');
+    expect(local.getItem(`encrypted_outputs${ACCOUNT}`)).toBeNull();
+  });
+
+  it('leaves legacy notes for encryptLegacyNotes when encrypted', () => {
+    const local = new MapStorage();
+    local.setItem(`encrypted_outputs${ACCOUNT}`, '["a"]');
+    vi.stubGlobal('window', { localStorage: local });
+
+    defaultNoteStorage(true);
+
+    expect(local.entries()).toEqual({ [`encrypted_outputs${ACCOUNT}`]: '["a"]' });
+  });
+
+  it('keeps notes in memory outside the browser', () => {
+    expect(defaultNoteStorage()).toBeInstanceOf(MemoryNoteStorage);
+  });
+
+  it('leaves no plaintext notes behind with encryptStorage', async () => {
+    const local = new MapStorage();
+    local.setItem(`fetch_offset${ACCOUNT}`, '42');
+    local.setItem(`encrypted_outputs${ACCOUNT}`, '["a"]');
+    // Copied in plaintext by an earlier version
+    local.setItem(`privacy-cash:tradeHistory${ACCOUNT}`, 'tx1');
+    vi.stubGlobal('window', { localStorage: local });
+    const signature = new Uint8Array(64).fill(1);
+
+    const provider = new PrivacyCashProvider({
+      walletSigner: {
+        publicKey: Keypair.generate().publicKey,
+        signMessage: () => Promise.resolve(signature),
+        signTransaction: (tx: VersionedTransaction) => Promise.resolve(tx),
+      },
+      rpcUrl: 'http://localhost:8899',
+      encryptStorage: 'wallet',
+    });
+    await provider.exportNotes();
+
+    const keys = Object.keys(local.entries());
+    expect(keys.length).toBeGreaterThan(0);
+    expect(keys.every((key) => key === 'privacy-cash:meta' || key.startsWith('privacy-cash:note:'))).toBe(
+      true
+    );
+    expect(JSON.stringify(local.entries())).not.toContain(ACCOUNT);
+
+    const notes = new EncryptedNoteStorage(new WebStorageNoteStorage(local), { secret: signature });
+    expect((await notes.keys()).sort()).toEqual([
+      `encrypted_outputs${ACCOUNT}`,
+      `fetch_offset${ACCOUNT}`,
+      `tradeHistory${ACCOUNT}`,
+    ]);
+    expect(await notes.getItem(`fetch_offset${ACCOUNT}`)).toBe('42');
+  });
+});
+
+describe('encryptLegacyNotes', () => {
+  it('moves bare and prefixed plaintext notes into the target', async () => {
+    const local = new MapStorage();
+    local.setItem(`fetch_offset${ACCOUNT}`, 'bare');
+    local.setItem(`privacy-cash:fetch_offset${ACCOUNT}`, 'prefixed');
+    local.setItem(`encrypted_outputs${ACCOUNT}`, 'stale');
+    local.setItem('privacy-cash:other', 'keep');
+    const target = new MemoryNoteStorage();
+    target.setItem(`encrypted_outputs${ACCOUNT}`, 'current');
+
+    expect(await encryptLegacyNotes(new WebStorageNoteStorage(local), target)).toBe(1);
+
+    expect(local.entries()).toEqual({ 'privacy-cash:other': 'keep' });
+    expect(target.getItem(`fetch_offset${ACCOUNT}`)).toBe('prefixed');
+    expect(target.getItem(`encrypted_outputs${ACCOUNT}`)).toBe('current');
+  });
+});
+
+describe('loadNoteCache', () => {
+  it('serves reads from memory and writes through in order', async () => {
+    const backend = new MemoryNoteStorage();
+    backend.setItem('a', '1');
+    backend.setItem('b', '2');
+
+    const { storage, flush } = await loadNoteCache(backend);
+    storage.setItem('c', '3');
+    storage.removeItem('a');
+
+    expect(storage.length).toBe(2);
+    expect(storage.getItem('c')).toBe('3');
+    await flush();
+    expect(backend.keys().sort()).toEqual(['b', 'c']);
+
+    storage.clear();
+    await flush();
+    expect(backend.keys()).toEqual([]);
+  });
+
+  it('keeps going after a failed write', async () => {
+    const backend = new MemoryNoteStorage();
+    const setItem = vi
+      .spyOn(backend, 'setItem')
+      .mockImplementationOnce(() => {
+        throw new Error('quota exceeded');
+      });
+
+    const { storage, flush } = await loadNoteCache(backend);
+    storage.setItem('a', '1');
+    storage.setItem('b', '2');
+    await flush();
+
+    expect(setItem).toHaveBeenCalledTimes(2);
+    expect(backend.keys()).toEqual(['b']);
+  });
+});
+
+describe('wipeNoteStorage', () => {
+  it('removes every key without a wipe method', async () => {
+    const storage = new MemoryNoteStorage();
+    storage.setItem('a', '1');
+    storage.setItem('b', '2');
+
+    await wipeNoteStorage(storage);
+
+    expect(storage.keys()).toEqual([]);
+  });
+
+  it('prefers the storage wipe method', async () => {
+    const storage = Object.assign(new MemoryNoteStorage(), { wipe: vi.fn() });
+    storage.setItem('a', '1');
+
+    await wipeNoteStorage(storage);
+
+    expect(storage.wipe).toHaveBeenCalled();
+    expect(storage.keys()).toEqual(['a']);
+  });
+});
+
+describe('FileSystemNoteStorage', () => {
+  let directory = '';
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores one file per key with safe names', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'notes-'));
+    const storage = new FileSystemNoteStorage(join(directory, 'cache'));
+
+    expect(await storage.keys()).toEqual([]);
+    await storage.setItem('encrypted_outputs/../x', 'value');
+
+    expect(await storage.getItem('encrypted_outputs/../x')).toBe('value');
+    expect(await storage.keys()).toEqual(['encrypted_outputs/../x']);
+    expect(await readdir(join(directory, 'cache'))).toEqual(['encrypted_outputs%2F..%2Fx']);
+
+    await storage.removeItem('encrypted_outputs/../x');
+    expect(await storage.getItem('encrypted_outputs/../x')).toBeNull();
+  });
+});
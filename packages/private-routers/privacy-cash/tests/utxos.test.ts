@@ -0,0 +1,207 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import type { VersionedTransaction } from '@solana/web3.js';
+import { getUtxos } from 'privacycash/utils';
+
+import { MemoryNoteStorage, PrivacyCashProvider } from '../src';
+import type { ConsolidationProgress, WalletSigner } from '../src';
+import { runShieldedOperation } from '../src/shieldedOperation';
+import { describeUtxos, planConsolidation, spendableInOneWithdrawal } from '../src/utxos';
+import type { SdkUtxo } from '../src/utxos';
+import { MapStorage } from './webStorage';
+
+vi.mock('@lightprotocol/hasher.rs', () => ({
+  WasmFactory: { getInstance: () => Promise.resolve({}) },
+}));
+
+vi.mock('privacycash/utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('privacycash/utils')>()),
+  getUtxos: vi.fn(),
+  getUtxosSPL: vi.fn(),
+}));
+
+vi.mock('../src/shieldedOperation', () => ({
+  runShieldedOperation: vi.fn(),
+}));
+
+const getUtxosMock = vi.mocked(getUtxos);
+const runMock = vi.mocked(runShieldedOperation);
+
+function utxo(index: number, amount: number): SdkUtxo {
+  return {
+    index,
+    amount: { toString: () => String(amount) },
+    getCommitment: () => Promise.resolve(`commitment-${index}`),
+  } as unknown as SdkUtxo;
+}
+
+describe('spendableInOneWithdrawal', () => {
+  it('adds up the two largest notes', () => {
+    expect(spendableInOneWithdrawal([utxo(0, 5), utxo(1, 20), utxo(2, 10)])).toBe(30n);
+    expect(spendableInOneWithdrawal([utxo(0, 5)])).toBe(5n);
+    expect(spendableInOneWithdrawal([])).toBe(0n);
+  });
+});
+
+describe('planConsolidation', () => {
+  it('needs one deposit per note merged', () => {
+    expect(planConsolidation('SOL', 5, 2)).toEqual({
+      asset: 'SOL',
+      notesBefore: 5,
+      notesAfter: 2,
+      transactions: 3,
+      depositAmount: 3n,
+      poolFee: 0n,
+      networkFee: 15_000n,
+    });
+  });
+
+  it('does nothing at or below the target', () => {
+    expect(planConsolidation('SOL', 1)).toMatchObject({ notesAfter: 1, transactions: 0 });
+    expect(planConsolidation('SOL', 0)).toMatchObject({ notesAfter: 0, transactions: 0 });
+  });
+
+  it('rejects targets below one note', () => {
+    expect(() => planConsolidation('SOL', 5, 0)).toThrow('Invalid consolidation target: 0 notes');
+    expect(() => planConsolidation('SOL', 5, 1.5)).toThrow('Invalid consolidation target');
+  });
+});
+
+describe('describeUtxos', () => {
+  it('lists unspent notes by index', async () => {
+    const notes = await describeUtxos('SOL', [utxo(3, 30), utxo(1, 10)], new MapStorage(), 'history');
+
+    expect(notes).toEqual([
+      { asset: 'SOL', amount: 10n, index: 1, commitment: 'commitment-1', spent: false },
+      { asset: 'SOL', amount: 30n, index: 3, commitment: 'commitment-3', spent: false },
+    ]);
+  });
+
+  it('remembers notes that were spent since the last listing', async () => {
+    const storage = new MapStorage();
+    await describeUtxos('SOL', [utxo(1, 10), utxo(2, 20)], storage, 'history');
+
+    const notes = await describeUtxos('SOL', [utxo(2, 20), utxo(4, 5)], storage, 'history');
+
+    expect(notes.map((n) => [n.index, n.spent])).toEqual([
+      [1, true],
+      [2, false],
+      [4, false],
+    ]);
+    expect(notes[0]?.amount).toBe(10n);
+  });
+
+  it('keeps the 100 newest spent notes', async () => {
+    const storage = new MapStorage();
+    const spent = Array.from({ length: 120 }, (_, i) => ({
+      index: i,
+      amount: '1',
+      commitment: `old-${i}`,
+    }));
+    storage.setItem('history', JSON.stringify(spent));
+
+    const notes = await describeUtxos('SOL', [], storage, 'history');
+
+    expect(notes).toHaveLength(100);
+    expect(notes[0]?.index).toBe(20);
+  });
+
+  it('starts over from an unreadable history', async () => {
+    const storage = new MapStorage();
+    storage.setItem('history', 'not json');
+
+    const notes = await describeUtxos('SOL', [utxo(1, 10)], storage, 'history');
+
+    expect(notes).toHaveLength(1);
+    expect(JSON.parse(storage.getItem('history')!)).toEqual([
+      { index: 1, amount: '10', commitment: 'commitment-1' },
+    ]);
+  });
+});
+
+describe('PrivacyCashProvider notes', () => {
+  const walletSigner: WalletSigner = {
+    publicKey: Keypair.generate().publicKey,
+    signMessage: () => Promise.resolve(new Uint8Array(64).fill(1)),
+    signTransaction: (tx: VersionedTransaction) => Promise.resolve(tx),
+  };
+
+  function createProvider() {
+    return new PrivacyCashProvider({
+      walletSigner,
+      rpcUrl: 'http://localhost:8899',
+      storage: new MemoryNoteStorage(),
+    });
+  }
+
+  beforeEach(() => {
+    getUtxosMock.mockReset();
+    runMock.mockReset();
+  });
+
+  it('lists notes and marks the ones spent since', async () => {
+    const provider = createProvider();
+    getUtxosMock.mockResolvedValueOnce([utxo(1, 10), utxo(2, 20)]);
+    await provider.listUtxos('SOL');
+
+    getUtxosMock.mockResolvedValueOnce([utxo(2, 20)]);
+    const notes = await provider.listUtxos('sol');
+
+    expect(notes.map((n) => [n.asset, n.index, n.spent])).toEqual([
+      ['SOL', 1, true],
+      ['SOL', 2, false],
+    ]);
+  });
+
+  it('previews and runs one deposit per merged note', async () => {
+    const provider = createProvider();
+    getUtxosMock.mockResolvedValue([utxo(1, 10), utxo(2, 20), utxo(3, 30)]);
+    runMock.mockResolvedValueOnce('tx-1').mockResolvedValueOnce('tx-2');
+    const progress: ConsolidationProgress[] = [];
+
+    const preview = await provider.previewConsolidation('SOL');
+    const result = await provider.consolidate('SOL', { onProgress: (p) => progress.push(p) });
+
+    expect(preview).toMatchObject({ notesBefore: 3, notesAfter: 1, transactions: 2 });
+    expect(result).toEqual({ txHashes: ['tx-1', 'tx-2'], notes: 1 });
+    expect(runMock.mock.calls.map(([operation]) => operation)).toEqual([
+      { kind: 'deposit', amount: 1, mint: undefined },
+      { kind: 'deposit', amount: 1, mint: undefined },
+    ]);
+    expect(progress.filter((p) => !p.proving)).toEqual([
+      { transaction: 1, transactions: 2, proving: undefined },
+      { transaction: 2, transactions: 2, proving: undefined },
+    ]);
+    expect(progress).toContainEqual({
+      transaction: 2,
+      transactions: 2,
+      proving: { step: 'loading-circuit', percent: expect.any(Number) as number },
+    });
+  });
+
+  it('reports funds moved when aborted after the first deposit', async () => {
+    const provider = createProvider();
+    const controller = new AbortController();
+    getUtxosMock.mockResolvedValue([utxo(1, 10), utxo(2, 20), utxo(3, 30)]);
+    runMock.mockImplementationOnce(() => {
+      controller.abort();
+      return Promise.resolve('tx-1');
+    });
+
+    await expect(
+      provider.consolidate('SOL', { signal: controller.signal })
+    ).rejects.toMatchObject({ code: 'ABORTED', fundsMayHaveMoved: true });
+    expect(runMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('is not available in private key mode', async () => {
+    const provider = new PrivacyCashProvider({
+      owner: Keypair.generate(),
+      rpcUrl: 'http://localhost:8899',
+    });
+
+    await expect(provider.listUtxos('SOL')).rejects.toThrow(
+      'listUtxos() needs wallet signer or account mode - private key mode hides notes'
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PrivacyCashProvider } from '../src';
+
+/**
+ * Relayer /config served to the provider - tests set it per case
+ */
+const relayer = {
+  withdraw_fee_rate: 0.0035,
+  withdraw_rent_fee: 0.006,
+  rent_fees: { usdc: 0.85, usdt: 0.85 } as Record<string, number>,
+};
+
+function createProvider(): PrivacyCashProvider {
+  return new PrivacyCashProvider({
+    walletSigner: {
+      publicKey: { toBase58: () => '11111111111111111111111111111111' },
+      signMessage: () => Promise.reject(new Error('not used')),
+      signTransaction: () => Promise.reject(new Error('not used')),
+    },
+    feeConfigTtlMs: 0,
+  });
+}
+
+/**
+ * Small seeded PRNG (mulberry32), so failures reproduce
+ */
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomBigInt(next: () => number, max: bigint): bigint {
+  const high = BigInt(Math.floor(next() * 2 ** 32));
+  const low = BigInt(Math.floor(next() * 2 ** 32));
+  return ((high << 32n) | low) % (max + 1n);
+}
+
+/**
+ * Checks the solver's answer against calculateFee():
+ * the gross covers the requested net, and one base unit less does not
+ */
+async function expectMinimalGross(
+  provider: PrivacyCashProvider,
+  net: bigint,
+  asset: string
+): Promise<bigint> {
+  const { withdrawAmount, fee } = await provider.calculateWithdrawAmount(net, asset);
+  const atGross = await provider.calculateFee(withdrawAmount, asset);
+
+  expect(fee).toBe(atGross.fee);
+  expect(atGross.netAmount).toBeGreaterThanOrEqual(net);
+  if (withdrawAmount > 0n) {
+    const below = await provider.calculateFee(withdrawAmount - 1n, asset);
+    expect(below.netAmount).toBeLessThan(net);
+  }
+  return withdrawAmount;
+}
+
+describe('calculateWithdrawAmount', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.resolve(new Response(JSON.stringify(relayer))))
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    relayer.withdraw_fee_rate = 0.0035;
+    relayer.withdraw_rent_fee = 0.006;
+    relayer.rent_fees = { usdc: 0.85, usdt: 0.85 };
+  });
+
+  it('returns the minimal gross for random amounts, rates and rents', async () => {
+    const next = random(0x5eed);
+    const provider = createProvider();
+
+    for (let run = 0; run < 300; run++) {
+      // Rates with up to 6 decimals, rents down to a single base unit
+      const rateDecimals = 1 + Math.floor(next() * 6);
+      relayer.withdraw_fee_rate =
+        Math.floor(next() * 0.1 * 10 ** rateDecimals) / 10 ** rateDecimals;
+      relayer.withdraw_rent_fee = Math.floor(next() * 10 ** 7) / 10 ** 9;
+      relayer.rent_fees = { usdc: Math.floor(next() * 10 ** 6) / 10 ** 6 };
+
+      const asset = next() < 0.5 ? 'SOL' : 'USDC';
+      const net = 1n + randomBigInt(next, 10n ** 15n);
+      await expectMinimalGross(provider, net, asset);
+    }
+  });
+
+  it('is exact where the percentage fee steps', async () => {
+    // 0.35% = 7 / 2000: floor(gross * rate) steps every 2000/7 base units
+    relayer.withdraw_fee_rate = 0.0035;
+    relayer.withdraw_rent_fee = 0.006;
+    const provider = createProvider();
+
+    for (const gross of [2000n, 4000n, 1_000_000_000n, 2n * 10n ** 12n]) {
+      for (const offset of [-2n, -1n, 0n, 1n, 2n]) {
+        const { netAmount } = await provider.calculateFee(gross + offset);
+        if (netAmount === 0n) continue;
+
+        // A net some gross reaches exactly, and the one just above it
+        expect(await expectMinimalGross(provider, netAmount, 'SOL')).toBeLessThanOrEqual(
+          gross + offset
+        );
+        await expectMinimalGross(provider, netAmount + 1n, 'SOL');
+      }
+    }
+  });
+
+  it('solves with rents that round to base units', async () => {
+    const provider = createProvider();
+
+    // Finer than a lamport / micro-USDC: the rent is rounded to base units
+    for (const rent of [0.0000000004, 0.0000000015, 0.000000001, 0.0060000004]) {
+      relayer.withdraw_rent_fee = rent;
+      relayer.rent_fees = { usdc: rent * 1000 };
+      for (const net of [1n, 2n, 999n, 1_000_000n]) {
+        await expectMinimalGross(provider, net, 'SOL');
+        await expectMinimalGross(provider, net, 'USDC');
+      }
+    }
+  });
+
+  it('needs only the rent without a percentage fee', async () => {
+    relayer.withdraw_fee_rate = 0;
+    relayer.withdraw_rent_fee = 0.006;
+    const provider = createProvider();
+
+    const { withdrawAmount, fee } = await provider.calculateWithdrawAmount(1n);
+    expect(fee).toBe(6_000_000n);
+    expect(withdrawAmount).toBe(6_000_001n);
+  });
+});
@@ -6,6 +6,9 @@ import {
   type TokenSymbol,
   type TransferType,
   type WalletAdapter as ShadowWireWalletAdapter,
+  ShadowWireError,
+  InsufficientBalanceError,
+  NetworkError,
   SUPPORTED_TOKENS,
   TOKEN_FEES,
   TOKEN_DECIMALS,
@@ -13,9 +16,27 @@ import {
   TOKEN_MINIMUMS,
 } from '@radr/shadowwire';
 import type {
+  PrivacyProvider,
+  ProviderCapabilities,
+  FeeQuote,
+  QuoteParams,
   FundingStatus,
   WithdrawStatus,
   WithdrawDestination,
+  TransferStatus,
+  TransferResult,
+} from '@privacy-router-sdk/private-routers-core';
+import {
+  applyFeeRate,
+  buildFeeQuote,
+  feeRateFromDecimal,
+  getErrorCode,
+  throwIfAborted,
+  BelowProviderMinimum,
+  InsufficientShieldedBalance,
+  ProviderUnavailable,
+  SignerCapabilityMissing,
+  TransactionFailedOnChain,
 } from '@privacy-router-sdk/private-routers-core';
 import type { Account } from '@privacy-router-sdk/signers-core';
 
@@ -47,7 +68,8 @@ export interface ShadowWireConfig {
   rpcUrl?: string;
 
   /**
-   * Token to use for transactions (default: 'SOL')
+   * Default token for helpers called without one (default: 'SOL')
+   * Pool operations always take the asset explicitly
    */
   token?: ShadowWireToken;
 
@@ -76,15 +98,15 @@ export interface ShadowWireConfig {
  * - Internal transfers (amount hidden)
  * - External transfers (sender anonymous, amount visible)
  * - Client-side proof generation via WASM (optional)
- * - Multi-token support (22 tokens)
+ * - Multi-token support (22 tokens), asset passed per call
  */
-export class ShadowWireProvider {
+export class ShadowWireProvider implements PrivacyProvider {
   readonly name = 'ShadowWire';
 
   private client: ShadowWireClient;
   private walletSigner: WalletSigner;
   private connection: Connection;
-  private token: ShadowWireToken;
+  private readonly defaultToken: ShadowWireToken;
   private debug: boolean;
   private wasmInitialized: boolean = false;
   private wasmPath?: string;
@@ -93,7 +115,7 @@ export class ShadowWireProvider {
     this.client = new ShadowWireClient();
     this.walletSigner = config.walletSigner;
     this.connection = new Connection(config.rpcUrl || 'https://api.mainnet-beta.solana.com');
-    this.token = config.token || 'SOL';
+    this.defaultToken = config.token || 'SOL';
     this.debug = config.enableDebug || false;
     this.wasmPath = config.wasmPath;
 
@@ -165,13 +187,32 @@ export class ShadowWireProvider {
   }
 
   /**
-   * Get the current private balance (returns bigint in base units)
+   * Describe provider capabilities
+   * Minimums come from the SDK (base units), falling back to its DEFAULT entry
+   */
+  getCapabilities(): ProviderCapabilities {
+    return {
+      assets: SUPPORTED_TOKENS.map((token) => ({
+        symbol: token,
+        decimals: this.getTokenDecimalsValue(token),
+        minimumAmount: BigInt(TOKEN_MINIMUMS[token] ?? TOKEN_MINIMUMS['DEFAULT'] ?? 0),
+      })),
+      amountsHidden: true,
+      privateTransfers: true,
+      requiredSignerFeatures: ['signMessage', 'signTransaction'],
+      accountKinds: ['wallet-adapter', 'ledger'],
+    };
+  }
+
+  /**
+   * Get the private balance of a token (returns bigint in base units)
    */
-  async getPrivateBalance(): Promise<bigint> {
+  async getPrivateBalance(asset: string): Promise<bigint> {
+    const token = this.resolveToken(asset);
     const wallet = this.getWalletAddress();
 
     try {
-      const balance = await this.client.getBalance(wallet, this.token);
+      const balance = await this.client.getBalance(wallet, token);
       // SDK returns available in base units (lamports for SOL)
       return BigInt(Math.floor(balance.available));
     } catch (error) {
@@ -180,10 +221,20 @@ export class ShadowWireProvider {
     }
   }
 
+  /**
+   * Get private balances of all supported tokens (base units)
+   */
+  async getPrivateBalances(): Promise<Record<string, bigint>> {
+    const balances = await Promise.all(
+      SUPPORTED_TOKENS.map(async (token) => [token, await this.getPrivateBalance(token)] as const)
+    );
+    return Object.fromEntries(balances);
+  }
+
   /**
    * Get detailed balance info
    */
-  async getPrivateBalanceDetailed(): Promise<{
+  async getPrivateBalanceDetailed(token: ShadowWireToken = this.defaultToken): Promise<{
     balance: bigint;
     balanceFormatted: number;
     deposited: number;
@@ -192,8 +243,8 @@ export class ShadowWireProvider {
     const wallet = this.getWalletAddress();
 
     try {
-      const balance = await this.client.getBalance(wallet, this.token);
-      const decimals = this.getTokenDecimalsValue(this.token);
+      const balance = await this.client.getBalance(wallet, token);
+      const decimals = this.getTokenDecimalsValue(token);
 
       return {
         // SDK returns available in base units
@@ -215,26 +266,32 @@ export class ShadowWireProvider {
 
   /**
    * Fund the privacy pool (deposit)
+   * Abort is honoured until the signed transaction is sent
    */
   async fund(params: {
     sourceAccount: Account;
+    asset: string;
     amount: string;
     onStatusChange?: (status: FundingStatus) => void;
+    signal?: AbortSignal;
   }): Promise<void> {
-    const { amount, onStatusChange } = params;
+    const { amount, onStatusChange, signal } = params;
     const wallet = this.getWalletAddress();
 
     try {
       onStatusChange?.({ stage: 'preparing' });
 
+      const token = this.resolveToken(params.asset);
       const baseUnits = BigInt(amount);
-      const decimals = this.getTokenDecimalsValue(this.token);
+      const decimals = this.getTokenDecimalsValue(token);
       const decimalAmount = Number(baseUnits) / Math.pow(10, decimals);
 
       if (decimalAmount <= 0) {
         throw new Error('Amount must be greater than 0');
       }
 
+      this.assertMinimum(token, baseUnits);
+
       // Validate wallet address
       try {
         new PublicKey(wallet);
@@ -242,19 +299,21 @@ export class ShadowWireProvider {
         throw new Error('Invalid wallet address');
       }
 
-      this.log('Requesting deposit...', { wallet, amount: Number(baseUnits), token: this.token });
+      throwIfAborted(signal, false);
+      this.log('Requesting deposit...', { wallet, amount: Number(baseUnits), token });
 
       // Get unsigned transaction from SDK - amount must be in base units (integer)
       const response = await this.client.deposit({
         wallet,
         amount: Number(baseUnits),
-        token_mint: this.token === 'SOL' ? undefined : TOKEN_MINTS[this.token],
+        token_mint: token === 'SOL' ? undefined : TOKEN_MINTS[token],
       });
 
       if (!response.success || !response.unsigned_tx_base64) {
         throw new Error('Failed to get deposit transaction');
       }
 
+      throwIfAborted(signal, false);
       this.log('Got unsigned transaction, signing...');
       onStatusChange?.({ stage: 'depositing' });
 
@@ -263,11 +322,12 @@ export class ShadowWireProvider {
       const transaction = VersionedTransaction.deserialize(txBuffer);
 
       if (!this.walletSigner.signTransaction) {
-        throw new Error('Wallet does not support transaction signing');
+        throw new SignerCapabilityMissing({ capability: 'signTransaction' });
       }
 
       const signedTransaction = await this.walletSigner.signTransaction(transaction);
       this.log('Transaction signed');
+      throwIfAborted(signal, false);
 
       // Submit to blockchain
       this.log('Submitting transaction to blockchain...');
@@ -277,61 +337,74 @@ export class ShadowWireProvider {
       });
 
       this.log('Transaction submitted:', signature);
+      throwIfAborted(signal, true);
 
       // Wait for confirmation
       const confirmation = await this.connection.confirmTransaction(signature, 'confirmed');
 
       if (confirmation.value.err) {
-        throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+        throw new TransactionFailedOnChain({
+          txHash: signature,
+          reason: JSON.stringify(confirmation.value.err),
+        });
       }
 
       this.log('Deposit confirmed!');
       onStatusChange?.({ stage: 'completed', txHash: signature });
-    } catch (error) {
+    } catch (caught) {
+      const error = this.toRouterError(caught, params.asset, amount, false);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.log('Deposit failed:', errorMessage);
-      onStatusChange?.({ stage: 'failed', error: errorMessage });
+      onStatusChange?.({ stage: 'failed', error: errorMessage, code: getErrorCode(error) });
       throw error;
     }
   }
 
   /**
    * Withdraw from the privacy pool
+   * Abort is honoured until the signed transaction is sent
    */
   async withdraw(params: {
     destination: WithdrawDestination;
+    asset: string;
     amount: string;
     onStatusChange?: (status: WithdrawStatus) => void;
+    signal?: AbortSignal;
   }): Promise<void> {
-    const { destination, amount, onStatusChange } = params;
+    const { destination, amount, onStatusChange, signal } = params;
     const wallet = this.getWalletAddress();
     const recipient = destination.address || wallet;
 
     try {
       onStatusChange?.({ stage: 'preparing' });
 
+      const token = this.resolveToken(params.asset);
       const baseUnits = BigInt(amount);
-      const decimals = this.getTokenDecimalsValue(this.token);
+      const decimals = this.getTokenDecimalsValue(token);
       const decimalAmount = Number(baseUnits) / Math.pow(10, decimals);
 
       if (decimalAmount <= 0) {
         throw new Error('Amount must be greater than 0');
       }
 
-      this.log('Requesting withdraw...', { wallet, recipient, amount: Number(baseUnits), token: this.token });
+      this.assertMinimum(token, baseUnits);
+
+      throwIfAborted(signal, false);
+      this.log('Requesting withdraw...', { wallet, recipient, amount: Number(baseUnits), token });
       onStatusChange?.({ stage: 'processing' });
 
       // Get unsigned transaction from SDK - amount must be in base units (integer)
       const response = await this.client.withdraw({
         wallet,
         amount: Number(baseUnits),
-        token_mint: this.token === 'SOL' ? undefined : TOKEN_MINTS[this.token],
+        token_mint: token === 'SOL' ? undefined : TOKEN_MINTS[token],
       });
 
       if (!response.success || !response.unsigned_tx_base64) {
         throw new Error(response.error || 'Failed to get withdraw transaction');
       }
 
+      throwIfAborted(signal, false);
       this.log('Got unsigned transaction, signing...');
 
       // Deserialize and sign the transaction
@@ -339,11 +412,12 @@ export class ShadowWireProvider {
       const transaction = VersionedTransaction.deserialize(txBuffer);
 
       if (!this.walletSigner.signTransaction) {
-        throw new Error('Wallet does not support transaction signing');
+        throw new SignerCapabilityMissing({ capability: 'signTransaction' });
       }
 
       const signedTransaction = await this.walletSigner.signTransaction(transaction);
       this.log('Transaction signed');
+      throwIfAborted(signal, false);
 
       // Submit to blockchain
       this.log('Submitting transaction to blockchain...');
@@ -355,20 +429,25 @@ export class ShadowWireProvider {
 
       this.log('Transaction submitted:', signature);
       onStatusChange?.({ stage: 'confirming', txHash: signature });
+      throwIfAborted(signal, true);
 
       // Wait for confirmation
       const confirmation = await this.connection.confirmTransaction(signature, 'confirmed');
 
       if (confirmation.value.err) {
-        throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+        throw new TransactionFailedOnChain({
+          txHash: signature,
+          reason: JSON.stringify(confirmation.value.err),
+        });
       }
 
       this.log('Withdraw confirmed!');
       onStatusChange?.({ stage: 'completed', txHash: signature });
-    } catch (error) {
+    } catch (caught) {
+      const error = this.toRouterError(caught, params.asset, amount, true);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.log('Withdraw failed:', errorMessage);
-      onStatusChange?.({ stage: 'failed', error: errorMessage });
+      onStatusChange?.({ stage: 'failed', error: errorMessage, code: getErrorCode(error) });
       throw error;
     }
   }
@@ -380,24 +459,29 @@ export class ShadowWireProvider {
    */
   async transfer(params: {
     recipient: string;
+    asset: string;
     amount: string;
     type?: TransferType;
-    onStatusChange?: (status: WithdrawStatus) => void;
-  }): Promise<{ txHash: string; amountHidden: boolean }> {
-    const { recipient, amount, type = 'internal', onStatusChange } = params;
+    onStatusChange?: (status: TransferStatus) => void;
+    signal?: AbortSignal;
+  }): Promise<TransferResult> {
+    const { recipient, amount, type = 'internal', onStatusChange, signal } = params;
     const sender = this.getWalletAddress();
 
     try {
       onStatusChange?.({ stage: 'preparing' });
 
+      const token = this.resolveToken(params.asset);
       const baseUnits = BigInt(amount);
-      const decimals = this.getTokenDecimalsValue(this.token);
+      const decimals = this.getTokenDecimalsValue(token);
       const decimalAmount = Number(baseUnits) / Math.pow(10, decimals);
 
       if (decimalAmount <= 0) {
         throw new Error('Amount must be greater than 0');
       }
 
+      this.assertMinimum(token, baseUnits);
+
       if (sender === recipient) {
         throw new Error('Cannot transfer to yourself');
       }
@@ -409,7 +493,8 @@ export class ShadowWireProvider {
         throw new Error('Invalid recipient address');
       }
 
-      this.log('Initiating transfer...', { sender, recipient, amount: decimalAmount, type, token: this.token });
+      throwIfAborted(signal, false);
+      this.log('Initiating transfer...', { sender, recipient, amount: decimalAmount, type, token });
       onStatusChange?.({ stage: 'processing' });
 
       const walletAdapter = this.createWalletAdapter();
@@ -419,7 +504,7 @@ export class ShadowWireProvider {
         sender,
         recipient,
         amount: decimalAmount,
-        token: this.token,
+        token,
         type,
         wallet: walletAdapter,
       });
@@ -439,10 +524,11 @@ export class ShadowWireProvider {
         txHash,
         amountHidden: response.amount_hidden,
       };
-    } catch (error) {
+    } catch (caught) {
+      const error = this.toRouterError(caught, params.asset, amount, true);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.log('Transfer failed:', errorMessage);
-      onStatusChange?.({ stage: 'failed', error: errorMessage });
+      onStatusChange?.({ stage: 'failed', error: errorMessage, code: getErrorCode(error) });
       throw error;
     }
   }
@@ -452,10 +538,12 @@ export class ShadowWireProvider {
    */
   async transferWithClientProofs(params: {
     recipient: string;
+    asset: string;
     amount: string;
     type?: TransferType;
-    onStatusChange?: (status: WithdrawStatus) => void;
-  }): Promise<{ txHash: string; amountHidden: boolean }> {
+    onStatusChange?: (status: TransferStatus) => void;
+    signal?: AbortSignal;
+  }): Promise<TransferResult> {
     if (!this.wasmInitialized) {
       const initialized = await this.initializeWASM();
       if (!initialized) {
@@ -463,25 +551,29 @@ export class ShadowWireProvider {
       }
     }
 
-    const { recipient, amount, type = 'internal', onStatusChange } = params;
+    const { recipient, amount, type = 'internal', onStatusChange, signal } = params;
     const sender = this.getWalletAddress();
 
     try {
       onStatusChange?.({ stage: 'preparing' });
 
+      const token = this.resolveToken(params.asset);
       const baseUnits = BigInt(amount);
-      const decimals = this.getTokenDecimalsValue(this.token);
+      const decimals = this.getTokenDecimalsValue(token);
       const decimalAmount = Number(baseUnits) / Math.pow(10, decimals);
 
       if (decimalAmount <= 0) {
         throw new Error('Amount must be greater than 0');
       }
 
+      this.assertMinimum(token, baseUnits);
+
       this.log('Generating client-side proofs...', { amount: decimalAmount });
 
       // Generate proof locally using the SDK
-      const proofData = await this.client.generateProofLocally(decimalAmount, this.token);
+      const proofData = await this.client.generateProofLocally(decimalAmount, token);
 
+      throwIfAborted(signal, false);
       this.log('Proof generated, initiating transfer...');
       onStatusChange?.({ stage: 'processing' });
 
@@ -491,7 +583,7 @@ export class ShadowWireProvider {
         sender,
         recipient,
         amount: decimalAmount,
-        token: this.token,
+        token,
         type,
         wallet: walletAdapter,
         customProof: proofData,
@@ -510,77 +602,150 @@ export class ShadowWireProvider {
         txHash,
         amountHidden: response.amount_hidden,
       };
-    } catch (error) {
+    } catch (caught) {
+      const error = this.toRouterError(caught, params.asset, amount, true);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.log('Transfer with client proofs failed:', errorMessage);
-      onStatusChange?.({ stage: 'failed', error: errorMessage });
+      onStatusChange?.({ stage: 'failed', error: errorMessage, code: getErrorCode(error) });
       throw error;
     }
   }
 
   /**
-   * Get fee percentage for the current token
+   * Get fee percentage for a token
    */
-  getFeePercentage(): number {
-    return this.client.getFeePercentage(this.token);
+  getFeePercentage(token: ShadowWireToken = this.defaultToken): number {
+    return this.client.getFeePercentage(token);
   }
 
   /**
-   * Get minimum amount for the current token (in decimal format)
+   * Get minimum amount for a token (in decimal format)
    */
-  getMinimumAmount(): number {
-    return this.client.getMinimumAmount(this.token);
+  getMinimumAmount(token: ShadowWireToken = this.defaultToken): number {
+    return this.client.getMinimumAmount(token);
   }
 
   /**
    * Calculate fee for a given amount (in decimal format)
    */
-  calculateFee(amount: number): { fee: number; netAmount: number } {
-    return this.client.calculateFee(amount, this.token);
+  calculateFee(
+    amount: number,
+    token: ShadowWireToken = this.defaultToken
+  ): { fee: number; netAmount: number } {
+    return this.client.calculateFee(amount, token);
   }
 
   /**
-   * Get decimals for the current token
+   * Quote a withdrawal
+   * Fee = amount * token fee percentage, rounded up to whole base units
    */
-  getTokenDecimals(): number {
-    return this.getTokenDecimalsValue(this.token);
+  async quoteWithdraw(params: QuoteParams): Promise<FeeQuote> {
+    const token = this.resolveToken(params.asset);
+    const rate = feeRateFromDecimal(this.client.getFeePercentage(token));
+
+    return buildFeeQuote(params, (gross) => ({
+      percentage: applyFeeRate(gross, rate, 'ceil'),
+      rent: 0n,
+      network: 0n,
+    }));
   }
 
   /**
-   * Get mint address for the current token
+   * Quote a private transfer
+   * Transfers pay the same per-token fee as withdrawals
    */
-  getTokenMint(): string {
-    return TOKEN_MINTS[this.token] ?? '';
+  async quoteTransfer(params: QuoteParams): Promise<FeeQuote> {
+    return this.quoteWithdraw(params);
   }
 
   /**
-   * Convert token amount to base units
+   * Quote a deposit
+   * Deposits carry no pool fee; the Solana network fee is paid in SOL by the wallet
    */
-  toBaseUnits(amount: number): bigint {
-    const decimals = this.getTokenDecimals();
-    return BigInt(Math.floor(amount * Math.pow(10, decimals)));
+  async quoteFund(params: QuoteParams): Promise<FeeQuote> {
+    this.resolveToken(params.asset);
+
+    return buildFeeQuote(params, () => ({ percentage: 0n, rent: 0n, network: 0n }));
   }
 
   /**
-   * Convert base units to token amount
+   * Reject amounts below the token minimum (base units)
    */
-  fromBaseUnits(baseUnits: bigint): number {
-    const decimals = this.getTokenDecimals();
-    return Number(baseUnits) / Math.pow(10, decimals);
+  private assertMinimum(token: ShadowWireToken, baseUnits: bigint): void {
+    const minimum = BigInt(TOKEN_MINIMUMS[token] ?? TOKEN_MINIMUMS['DEFAULT'] ?? 0);
+    if (baseUnits < minimum) {
+      throw new BelowProviderMinimum({ provider: this.name, asset: token, amount: baseUnits, minimum });
+    }
   }
 
   /**
-   * Set the token for transactions
+   * Map SDK errors onto core error types
+   * NetworkError covers both unreachable API and API-reported failures;
+   * only the former (or 5xx) is ProviderUnavailable
+   * @param shielded - Whether the operation spends the shielded balance
    */
-  setToken(token: ShadowWireToken): void {
-    this.token = token;
+  private toRouterError(error: unknown, asset: string, amount: string, shielded: boolean): unknown {
+    if (!(error instanceof ShadowWireError)) {
+      return error;
+    }
+
+    const insufficient =
+      error instanceof InsufficientBalanceError || /insufficient/i.test(error.message);
+    if (shielded && insufficient) {
+      return new InsufficientShieldedBalance({
+        provider: this.name,
+        asset: asset.toUpperCase(),
+        required: BigInt(amount),
+        cause: error,
+      });
+    }
+
+    if (error instanceof NetworkError && /^(Request failed|HTTP 5\d\d)/.test(error.message)) {
+      return new ProviderUnavailable({ provider: this.name, detail: error.message, cause: error });
+    }
+
+    return error;
+  }
+
+  /**
+   * Resolve a symbol to a supported token
+   */
+  private resolveToken(asset: string): ShadowWireToken {
+    const token = asset.toUpperCase();
+    if (!ShadowWireProvider.isTokenSupported(token)) {
+      throw new Error(`Unsupported ShadowWire token: ${asset}`);
+    }
+    return token;
+  }
+
+  /**
+   * Get decimals for a token
+   */
+  getTokenDecimals(token: ShadowWireToken = this.defaultToken): number {
+    return this.getTokenDecimalsValue(token);
+  }
+
+  /**
+   * Get mint address for a token
+   */
+  getTokenMint(token: ShadowWireToken = this.defaultToken): string {
+    return TOKEN_MINTS[token] ?? '';
+  }
+
+  /**
+   * Convert token amount to base units
+   */
+  toBaseUnits(amount: number, token: ShadowWireToken = this.defaultToken): bigint {
+    const decimals = this.getTokenDecimals(token);
+    return BigInt(Math.floor(amount * Math.pow(10, decimals)));
   }
 
   /**
-   * Get current token
+   * Convert base units to token amount
    */
-  getToken(): ShadowWireToken {
-    return this.token;
+  fromBaseUnits(baseUnits: bigint, token: ShadowWireToken = this.defaultToken): number {
+    const decimals = this.getTokenDecimals(token);
+    return Number(baseUnits) / Math.pow(10, decimals);
   }
 
   /**
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+import { assertConformance, runProviderConformance } from '@privacy-router-sdk/private-routers-core';
+import type { Account } from '@privacy-router-sdk/signers-core';
+import { Keypair, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+
+import { ShadowWireProvider } from '../src';
+
+/**
+ * Shielded balances of the fake ShadowWire API, by token
+ * Deposits and withdrawals settle when their transaction is sent
+ */
+const pool = vi.hoisted(() => ({
+  balances: new Map<string, number>(),
+  pending: [] as Array<{ token: string; delta: number }>,
+  sent: 0,
+}));
+
+vi.mock('@radr/shadowwire', async (importOriginal) => {
+  const sdk = await importOriginal<typeof import('@radr/shadowwire')>();
+
+  const tokenOf = (mint?: string) =>
+    Object.keys(sdk.TOKEN_MINTS).find((token) => sdk.TOKEN_MINTS[token] === mint) ?? 'SOL';
+
+  class ShadowWireClient {
+    getBalance(_wallet: string, token: string) {
+      return Promise.resolve({ available: pool.balances.get(token) ?? 0, deposited: 0, pool_address: '' });
+    }
+
+    getFeePercentage(token: string) {
+      return sdk.TOKEN_FEES[token] ?? 0;
+    }
+
+    deposit(request: { amount: number; token_mint?: string }) {
+      pool.pending.push({ token: tokenOf(request.token_mint), delta: request.amount });
+      return Promise.resolve({ success: true, unsigned_tx_base64: unsignedTransaction() });
+    }
+
+    withdraw(request: { amount: number; token_mint?: string }) {
+      const token = tokenOf(request.token_mint);
+      if (request.amount > (pool.balances.get(token) ?? 0)) {
+        return Promise.reject(new sdk.NetworkError('Insufficient balance'));
+      }
+      pool.pending.push({ token, delta: -request.amount });
+      return Promise.resolve({ success: true, unsigned_tx_base64: unsignedTransaction() });
+    }
+
+    transfer(request: { amount: number; token: string }) {
+      const amount = Math.round(request.amount * 10 ** (sdk.TOKEN_DECIMALS[request.token] ?? 9));
+      const balance = pool.balances.get(request.token) ?? 0;
+      if (amount > balance) {
+        return Promise.reject(new sdk.NetworkError('Insufficient balance'));
+      }
+      pool.balances.set(request.token, balance - amount);
+      return Promise.resolve({ success: true, tx_signature: `transfer-${++pool.sent}`, amount_hidden: true });
+    }
+  }
+
+  return { ...sdk, ShadowWireClient };
+});
+
+vi.mock('@solana/web3.js', async (importOriginal) => {
+  const web3 = await importOriginal<typeof import('@solana/web3.js')>();
+
+  function send() {
+    for (const { token, delta } of pool.pending.splice(0)) {
+      pool.balances.set(token, (pool.balances.get(token) ?? 0) + delta);
+    }
+    return Promise.resolve(`tx-${++pool.sent}`);
+  }
+
+  class Connection {
+    sendTransaction = send;
+    sendRawTransaction = send;
+
+    confirmTransaction() {
+      return Promise.resolve({ value: { err: null } });
+    }
+  }
+
+  return { ...web3, Connection };
+});
+
+function unsignedTransaction(): string {
+  const payer = Keypair.generate().publicKey;
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    instructions: [],
+  }).compileToV0Message();
+  return Buffer.from(new VersionedTransaction(message).serialize()).toString('base64');
+}
+
+describe('ShadowWireProvider conformance', () => {
+  it('passes every check against a mocked ShadowWire API', async () => {
+    pool.balances.set('SOL', 500_000_000);
+    const provider = new ShadowWireProvider({
+      walletSigner: {
+        publicKey: Keypair.generate().publicKey,
+        signMessage: () => Promise.resolve(new Uint8Array(64).fill(1)),
+        signTransaction: (tx: VersionedTransaction) => Promise.resolve(tx),
+      },
+    });
+
+    const results = await runProviderConformance({
+      provider,
+      sourceAccount: {} as unknown as Account,
+      asset: 'SOL',
+      amount: '100000000',
+      destination: Keypair.generate().publicKey.toBase58(),
+    });
+
+    expect(results.filter((r) => r.skipped)).toEqual([]);
+    assertConformance(results);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Signer error codes
+ */
+export type SignerErrorCode = 'USER_REJECTED' | 'SIGNER_CAPABILITY_MISSING';
+
+/**
+ * Signing action an account was asked to perform
+ */
+export type SignerAction = 'signMessage' | 'signTransaction' | 'sendTransaction';
+
+/**
+ * Base class for signer errors
+ */
+export class SignerError extends Error {
+  readonly code: SignerErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: SignerErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'SignerError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/**
+ * User declined the request in their wallet / on their device
+ */
+export class UserRejected extends SignerError {
+  readonly action: SignerAction;
+
+  constructor(action: SignerAction, cause?: unknown) {
+    super('USER_REJECTED', `User rejected the ${action} request`, cause);
+    this.name = 'UserRejected';
+    this.action = action;
+  }
+}
+
+/**
+ * Account cannot perform a required action
+ * - missing method on the wallet (e.g. no signMessage)
+ * - device app too old or a setting disabled (hint explains what to change)
+ */
+export class SignerCapabilityMissing extends SignerError {
+  readonly capability: SignerAction;
+  readonly hint?: string;
+
+  constructor(params: { capability: SignerAction; hint?: string; cause?: unknown }) {
+    super(
+      'SIGNER_CAPABILITY_MISSING',
+      params.hint ?? `Account does not support ${params.capability}`,
+      params.cause
+    );
+    this.name = 'SignerCapabilityMissing';
+    this.capability = params.capability;
+    this.hint = params.hint;
+  }
+}
+
+/**
+ * Whether a wallet error means the user declined
+ * Wallets report EIP-1193 style code 4001 or a "rejected" message,
+ * wallet-adapter wraps the original in `error`
+ */
+export function isUserRejection(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error instanceof UserRejected) {
+    return true;
+  }
+
+  const { code, error: inner } = error as Error & { code?: unknown; error?: unknown };
+  if (code === 4001) {
+    return true;
+  }
+  if (/user rejected|rejected the request|request rejected|user denied/i.test(error.message)) {
+    return true;
+  }
+  return inner !== undefined && inner !== error && isUserRejection(inner);
+}
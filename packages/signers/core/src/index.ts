@@ -1 +1,8 @@
 export type { SendDepositFn, Account } from './types';
+export type { SignerErrorCode, SignerAction } from './errors';
+export {
+  SignerError,
+  UserRejected,
+  SignerCapabilityMissing,
+  isUserRejection,
+} from './errors';
@@ -1,4 +1,5 @@
-import type { Account } from '@privacy-router-sdk/signers-core';
+import type { Account, SignerAction } from '@privacy-router-sdk/signers-core';
+import { SignerCapabilityMissing, UserRejected } from '@privacy-router-sdk/signers-core';
 import TransportWebHID from '@ledgerhq/hw-transport-webhid';
 import Solana from '@ledgerhq/hw-app-solana';
 import {
@@ -21,6 +22,22 @@ import { getDerivationPath } from './types';
 // Type for the transport instance
 type TransportInstance = Awaited<ReturnType<typeof TransportWebHID.create>>;
 
+// Ledger APDU status words
+const STATUS_USER_DENIED = 0x6985;
+const STATUS_INS_NOT_SUPPORTED = 0x6d00;
+const STATUS_BLIND_SIGNING_DISABLED = 0x6a81;
+
+/**
+ * Check a Ledger error against an APDU status word
+ * TransportStatusError carries statusCode, older transports only the hex in the message
+ */
+const hasStatus = (error: unknown, status: number): boolean => {
+  if (!(error instanceof Error)) return false;
+  const { statusCode } = error as Error & { statusCode?: unknown };
+  if (statusCode === status) return true;
+  return error.message.toLowerCase().includes(`0x${status.toString(16)}`);
+};
+
 /**
  * Solana Account using Ledger hardware wallet
  * Implements the Account interface with signing via Ledger device
@@ -225,7 +242,9 @@ export class LedgerAccount implements Account {
     // Serialize and sign with Ledger
     const serializedTx = transaction.serializeMessage();
     const path = this.getDerivationPath();
-    const signature = await this.solanaApp!.signTransaction(path, serializedTx);
+    const signature = await this.withDeviceErrors('sendTransaction', () =>
+      this.solanaApp!.signTransaction(path, serializedTx)
+    );
 
     // Add signature to transaction
     transaction.addSignature(this.publicKey!, Buffer.from(signature.signature));
@@ -252,7 +271,9 @@ export class LedgerAccount implements Account {
     if (transaction instanceof VersionedTransaction) {
       // Serialize the message for signing
       const messageBytes = Buffer.from(transaction.message.serialize());
-      const result = await this.solanaApp!.signTransaction(path, messageBytes);
+      const result = await this.withDeviceErrors('signTransaction', () =>
+        this.solanaApp!.signTransaction(path, messageBytes)
+      );
 
       // Find our signer index and add signature
       const signerIndex = transaction.message.staticAccountKeys.findIndex(
@@ -271,7 +292,9 @@ export class LedgerAccount implements Account {
 
     if (transaction instanceof Transaction) {
       const messageBytes = Buffer.from(transaction.serializeMessage());
-      const result = await this.solanaApp!.signTransaction(path, messageBytes);
+      const result = await this.withDeviceErrors('signTransaction', () =>
+        this.solanaApp!.signTransaction(path, messageBytes)
+      );
 
       transaction.addSignature(this.publicKey!, Buffer.from(result.signature));
 
@@ -293,35 +316,56 @@ export class LedgerAccount implements Account {
 
     const path = this.getDerivationPath();
 
+    // Use signOffchainMessage for arbitrary messages
+    // This requires Ledger Solana app v1.3.0+
+    const messageBuffer = Buffer.from(message);
+    const result = await this.withDeviceErrors('signMessage', () =>
+      this.solanaApp!.signOffchainMessage(path, messageBuffer)
+    );
+    return new Uint8Array(result.signature);
+  };
+
+  /**
+   * Map Ledger status words onto signer errors
+   */
+  private async withDeviceErrors<R>(action: SignerAction, fn: () => Promise<R>): Promise<R> {
     try {
-      // Use signOffchainMessage for arbitrary messages
-      // This requires Ledger Solana app v1.3.0+
-      const messageBuffer = Buffer.from(message);
-      const result = await this.solanaApp!.signOffchainMessage(path, messageBuffer);
-      return new Uint8Array(result.signature);
+      return await fn();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (hasStatus(error, STATUS_USER_DENIED)) {
+        throw new UserRejected(action, error);
+      }
 
-      // Handle specific Ledger error codes
-      if (errorMessage.includes('0x6d00') || errorMessage.includes('INS_NOT_SUPPORTED')) {
-        throw new Error(
-          'Off-chain message signing requires Ledger Solana app v1.3.0 or higher. Please update your Ledger app.'
-        );
+      if (
+        hasStatus(error, STATUS_INS_NOT_SUPPORTED) ||
+        (error instanceof Error && error.message.includes('INS_NOT_SUPPORTED'))
+      ) {
+        throw new SignerCapabilityMissing({
+          capability: action,
+          hint:
+            action === 'signMessage'
+              ? 'Off-chain message signing requires Ledger Solana app v1.3.0 or higher. Please update your Ledger app.'
+              : 'Ledger Solana app does not support this request. Please update your Ledger app.',
+          cause: error,
+        });
       }
 
-      if (errorMessage.includes('0x6a81')) {
-        throw new Error(
-          'Ledger rejected the message signing request. This may be because:\n' +
-          '1. "Blind signing" is not enabled in Ledger Solana app settings\n' +
-          '2. The message format is not supported by Ledger\n\n' +
-          'Try enabling "Blind signing" in the Solana app settings on your Ledger device, ' +
-          'or use ShadowWire instead which has better Ledger support.'
-        );
+      if (hasStatus(error, STATUS_BLIND_SIGNING_DISABLED)) {
+        throw new SignerCapabilityMissing({
+          capability: action,
+          hint:
+            'Ledger rejected the signing request. This may be because:\n' +
+            '1. "Blind signing" is not enabled in Ledger Solana app settings\n' +
+            '2. The message format is not supported by Ledger\n\n' +
+            'Try enabling "Blind signing" in the Solana app settings on your Ledger device, ' +
+            'or use ShadowWire instead which has better Ledger support.',
+          cause: error,
+        });
       }
 
       throw error;
     }
-  };
+  }
 
   /**
    * Get the RPC URL used by this account
@@ -1,4 +1,9 @@
-import type { Account } from '@privacy-router-sdk/signers-core';
+import type { Account, SignerAction } from '@privacy-router-sdk/signers-core';
+import {
+  SignerCapabilityMissing,
+  UserRejected,
+  isUserRejection,
+} from '@privacy-router-sdk/signers-core';
 import type { WalletContextState } from '@solana/wallet-adapter-react';
 import {
   Connection,
@@ -106,8 +111,11 @@ export class WalletAdapterAccount implements Account {
     address: string;
     amount: string;
   }): Promise<string> => {
-    if (!this.wallet.publicKey || !this.wallet.sendTransaction) {
-      throw new Error('Wallet not connected or does not support sending transactions');
+    if (!this.wallet.publicKey) {
+      throw new Error('Wallet not connected');
+    }
+    if (!this.wallet.sendTransaction) {
+      throw new SignerCapabilityMissing({ capability: 'sendTransaction' });
     }
 
     const amountLamports = BigInt(amount);
@@ -135,7 +143,9 @@ export class WalletAdapterAccount implements Account {
     transaction.recentBlockhash = blockhash;
     transaction.feePayer = this.wallet.publicKey;
 
-    const signature = await this.wallet.sendTransaction(transaction, this.connection);
+    const signature = await this.withRejection('sendTransaction', () =>
+      this.wallet.sendTransaction(transaction, this.connection)
+    );
 
     // Wait for confirmation
     await this.connection.confirmTransaction(signature, 'confirmed');
@@ -147,12 +157,13 @@ export class WalletAdapterAccount implements Account {
    * Sign a Solana transaction
    */
   signTransaction = async <T>(transaction: T): Promise<T> => {
-    if (!this.wallet.signTransaction) {
-      throw new Error('Wallet does not support signing transactions');
+    const { signTransaction } = this.wallet;
+    if (!signTransaction) {
+      throw new SignerCapabilityMissing({ capability: 'signTransaction' });
     }
 
     if (transaction instanceof VersionedTransaction || transaction instanceof Transaction) {
-      return (await this.wallet.signTransaction(transaction)) as T;
+      return (await this.withRejection('signTransaction', () => signTransaction(transaction))) as T;
     }
 
     throw new Error('Unsupported transaction type');
@@ -162,13 +173,28 @@ export class WalletAdapterAccount implements Account {
    * Sign an arbitrary message
    */
   signMessage = async (message: Uint8Array): Promise<Uint8Array> => {
-    if (!this.wallet.signMessage) {
-      throw new Error('Wallet does not support signing messages');
+    const { signMessage } = this.wallet;
+    if (!signMessage) {
+      throw new SignerCapabilityMissing({ capability: 'signMessage' });
     }
 
-    return await this.wallet.signMessage(message);
+    return await this.withRejection('signMessage', () => signMessage(message));
   };
 
+  /**
+   * Map wallet rejections onto UserRejected
+   */
+  private async withRejection<R>(action: SignerAction, fn: () => Promise<R>): Promise<R> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (isUserRejection(error)) {
+        throw new UserRejected(action, error);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Get the RPC URL used by this account
    */
@@ -205,16 +231,16 @@ export class WalletAdapterAccount implements Account {
       throw new Error('Wallet not connected');
     }
     if (!this.wallet.signMessage) {
-      throw new Error('Wallet does not support signing messages');
+      throw new SignerCapabilityMissing({ capability: 'signMessage' });
     }
     if (!this.wallet.signTransaction) {
-      throw new Error('Wallet does not support signing transactions');
+      throw new SignerCapabilityMissing({ capability: 'signTransaction' });
     }
 
     return {
       publicKey: this.wallet.publicKey,
-      signMessage: this.wallet.signMessage,
-      signTransaction: this.wallet.signTransaction,
+      signMessage: this.signMessage,
+      signTransaction: (tx: VersionedTransaction) => this.signTransaction(tx),
     };
   };
 }